@@ -1,14 +1,18 @@
-from fastapi import FastAPI, UploadFile, HTTPException
-from fastapi.responses import JSONResponse
+from fastapi import FastAPI, UploadFile, HTTPException, Form
+from typing import Optional
+from fastapi.responses import JSONResponse, StreamingResponse
+from starlette.concurrency import run_in_threadpool
 from fastapi.middleware.cors import CORSMiddleware
 import pandas as pd
 import numpy as np
 from sklearn.ensemble import IsolationForest
-import google.generativeai as genai
 import io
-import os
+import json
 import logging
+import math
+import re
 from dotenv import load_dotenv
+from recommendations import generate_recommendations
 
 # Load .env file
 load_dotenv()
@@ -31,19 +35,134 @@ app.add_middleware(
     allow_headers=["*"],
 )
 
-@app.post("/upload-csv")
-async def upload_csv(file: UploadFile):
-    # Validate file type
-    if not file.filename.endswith(".csv"):
-        raise HTTPException(status_code=400, detail="Only CSV files are allowed")
+# Rule columns that can flag a row; the names are returned as anomaly reasons
+ANOMALY_RULES = ["above_amount_threshold", "one_sided_debit", "one_sided_credit"]
 
-    # Read CSV in memory
-    content = await file.read()
+# Limits for the chart data returned with each analysis
+CHART_MAX_POINTS = 2000
+CHART_TOP_ACCOUNTS = 15
+HISTOGRAM_BINS_PER_DECADE = 4
+
+# Audit analytics settings
+BENFORD_MIN_AMOUNT = 10  # first-two-digit tests need at least two digits
+# Nigrini's mean absolute deviation cut-offs: close, acceptable, marginal conformity
+BENFORD_MAD_LIMITS = {
+    "first_digit": (0.006, 0.012, 0.015),
+    "first_two_digits": (0.0012, 0.0018, 0.0022),
+}
+NEAR_DUPLICATE_TOLERANCE = 0.01  # amounts within 1% of each other
+DUPLICATE_MIN_AMOUNT = 100
+ROUND_NUMBER_UNIT = 1000
+JUST_BELOW_BAND = 0.1  # within 10% under a threshold
+PERIOD_END_DAYS = 3  # last days of the month counted as period end
+PERIOD_END_SPIKE_FACTOR = 2  # period-end share at least twice an even spread
+FINDINGS_LIMIT = 50
+
+def validate_settings(amount_floor, amount_percentile, imbalance_threshold, contamination, close_date=None):
+    if amount_floor < 0 or imbalance_threshold < 0:
+        raise HTTPException(status_code=400, detail="Thresholds must not be negative")
+    if not 50 <= amount_percentile <= 100:
+        raise HTTPException(status_code=400, detail="amount_percentile must be between 50 and 100")
+    if contamination is not None and not 0 < contamination <= 0.5:
+        raise HTTPException(status_code=400, detail="contamination must be greater than 0 and at most 0.5")
+    if close_date:
+        try:
+            pd.Timestamp(close_date)
+        except ValueError:
+            raise HTTPException(status_code=400, detail="close_date must be a date such as 2024-12-31")
+
+
+PLAIN_NUMBER = re.compile(r"^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$", re.I)
+CURRENCY_PREFIX = re.compile(r"^(?:[a-z]{1,3}\.?|[$€£])\s*", re.I)
+CURRENCY_SUFFIX = re.compile(r"\s*(?:[a-z]{1,3}\.?|[$€£])$", re.I)
+
+
+def strip_currency(text):
+    return CURRENCY_SUFFIX.sub("", CURRENCY_PREFIX.sub("", text))
+
+
+def read_digits(text, decimal):
+    """Digits with one kind of thousands separator, grouped in threes; NaN for "1,234,5" or "12,34"."""
+    integer, *rest = text.split(decimal) if decimal else [text]
+    fraction = rest[0] if rest else ""
+    if len(rest) > 1 or not re.fullmatch(r"\d*", fraction):
+        return float("nan")
+    groups = re.split(r"\D", integer)
+    if len(set(re.findall(r"\D", integer))) > 1:
+        return float("nan")
+    if len(groups) > 1 and not (re.fullmatch(r"\d{1,3}", groups[0]) and all(re.fullmatch(r"\d{3}", g) for g in groups[1:])):
+        return float("nan")
+    return float(f"{''.join(groups)}.{fraction}")
+
+
+def parse_amount(value):
+    """Read "1,234.56", "1.234,56", "1 234,56", "KES 1,200" or "(1,200)"; NaN when it is not an amount.
+
+    Mirrors parseLocaleNumber in the frontend so local-only mode reads files the same way.
+    """
+    text = str(value).strip()
+    if text in ("", "nan", "None"):
+        return 0.0
+    if PLAIN_NUMBER.match(text):
+        return float(text)
+
+    negative = False
+    text = strip_currency(text)
+    bracketed = re.match(r"^\((.*)\)$", text)
+    if bracketed:
+        negative = True
+        text = strip_currency(bracketed.group(1).strip())
+    sign = re.search(r"^[-−+]\s*|\s*-$", text)
+    if sign:
+        if sign.group(0).strip() != "+":
+            negative = not negative
+        text = CURRENCY_PREFIX.sub("", text.replace(sign.group(0), "", 1))
+    # Spaces and apostrophes only ever group thousands
+    text = re.sub(r"[\s\u00a0\u202f]", " ", text)
+    if not re.match(r"^[\d.,' ]*\d[\d.,' ]*$", text):
+        return float("nan")
+
+    separators = re.findall(r"[.,]", text)
+    readings = [None]
+    if len(set(separators)) == 2:
+        # Both used: whichever comes last is the decimal separator
+        readings = ["," if text.rfind(",") > text.rfind(".") else "."]
+    elif len(separators) == 1:
+        # "1,234" groups thousands and "12,5" has a decimal comma; a lone "." is a decimal point
+        readings = [".", None] if separators[0] == "." else [None, ","]
+    for decimal in readings:
+        number = read_digits(text, decimal)
+        if not math.isnan(number):
+            return -number if negative else number
+    return float("nan")
+
+
+def read_table(filename, content, sheet=None):
+    """Load a CSV, Excel workbook or JSON array of objects into a dataframe."""
+    name = filename.lower()
     try:
-        df = pd.read_csv(io.BytesIO(content))
+        if name.endswith(".csv"):
+            return pd.read_csv(io.BytesIO(content))
+        if name.endswith((".xlsx", ".xls")):
+            return pd.read_excel(io.BytesIO(content), sheet_name=sheet if sheet else 0)
+        if name.endswith(".json"):
+            records = json.loads(content)
+            if not isinstance(records, list) or not all(isinstance(r, dict) for r in records):
+                raise ValueError("expected an array of objects")
+            return pd.DataFrame(records)
     except Exception as e:
-        logger.error(f"Failed to read CSV: {str(e)}")
-        raise HTTPException(status_code=400, detail="Invalid CSV format")
+        logger.error(f"Failed to read {filename}: {str(e)}")
+        raise HTTPException(status_code=400, detail=f"Could not read {filename}: {str(e)}")
+    raise HTTPException(status_code=400, detail="Upload a CSV, Excel (.xlsx, .xls) or JSON file")
+
+
+def parse_ledger(filename, content, sheet=None):
+    """Read an items/debit/credit ledger into a cleaned dataframe, raising 400 on bad input.
+
+    Files with a date column are journal lines; they are returned as well and
+    grouped by account into a trial balance for the analysis.
+    """
+    df = read_table(filename, content, sheet)
 
     # Normalize column names to lowercase and strip whitespace
     df.columns = df.columns.str.lower().str.strip()
@@ -54,17 +173,18 @@ async def upload_csv(file: UploadFile):
     if len(available_columns) != 3:
         logger.error(f"Expected columns {expected_columns}, found {list(df.columns)}")
         raise HTTPException(status_code=400, detail=f"CSV must have columns: {', '.join(expected_columns)}")
-    df = df[expected_columns]
+    is_journal = "date" in df.columns
+    optional_columns = [col for col in ("date", "reference") if col in df.columns]
+    df = df[expected_columns + optional_columns]
 
-    # Filter out invalid rows (footer or non-numeric items)
-    df = df[df["items"].notna() & ~df["items"].str.contains("Accrual Basis|Total", na=False, case=False)]
+    # Filter out invalid rows (footer or blank items); account codes read as numbers become text first
+    df = df[df["items"].notna()].assign(items=lambda d: d["items"].astype(str))
+    df = df[~df["items"].str.contains("Accrual Basis|Total", case=False)]
 
     # Clean and convert numeric columns
     for col in ["debit", "credit"]:
-        df[col] = df[col].astype(str).str.replace(",", "").str.strip()
-        df[col] = df[col].replace("", "0").replace("nan", "0")
         try:
-            df[col] = pd.to_numeric(df[col], errors="coerce")
+            df[col] = df[col].map(parse_amount).astype(float)
             if df[col].isna().any():
                 invalid_rows = df[df[col].isna()][["items", col]]
                 logger.error(f"Invalid numeric values in {col}: {invalid_rows.to_dict()}")
@@ -73,7 +193,25 @@ async def upload_csv(file: UploadFile):
             logger.error(f"Error converting {col} to numeric: {str(e)}")
             raise HTTPException(status_code=400, detail=f"Invalid numeric values in {col}")
 
-    # Validation: Check if debits == credits
+    if len(df) == 0:
+        raise HTTPException(status_code=400, detail="CSV has no ledger rows to analyze")
+
+    if not is_journal:
+        return df[expected_columns], None
+
+    journal = df.copy()
+    journal["date"] = pd.to_datetime(journal["date"], errors="coerce")
+    if journal["date"].isna().any():
+        raise HTTPException(status_code=400, detail="Invalid dates in date column")
+    if "reference" not in journal.columns:
+        journal["reference"] = None
+    trial_balance = journal.groupby("items", sort=False)[["debit", "credit"]].sum().reset_index()
+    logger.info(f"Grouped {len(journal)} journal lines into {len(trial_balance)} accounts")
+    return trial_balance, journal
+
+
+def check_balance(df):
+    """Validation: Check if debits == credits"""
     total_debit = df["debit"].sum()
     total_credit = df["credit"].sum()
     is_balanced = abs(total_debit - total_credit) < 0.01
@@ -82,60 +220,480 @@ async def upload_csv(file: UploadFile):
         if is_balanced
         else f"Unbalanced: Total Debit = {total_debit:.2f}, Total Credit = {total_credit:.2f}"
     )
+    return {
+        "balance_status": balance_message,
+        "total_debit": round(float(total_debit), 2),
+        "total_credit": round(float(total_credit), 2),
+        "is_balanced": bool(is_balanced),
+    }
+
 
-    # Anomaly Detection with Rule-Based Filtering
+def detect_anomalies(df, amount_floor, amount_percentile, imbalance_threshold, contamination):
+    """Anomaly Detection with Rule-Based Filtering. Adds score and rule columns to df."""
     features = df[["debit", "credit"]]
-    contamination = min(0.05, 10 / len(df)) if len(df) > 0 else 0.05
+    if contamination is None:
+        contamination = min(0.05, 10 / len(df)) if len(df) > 0 else 0.05
     model = IsolationForest(contamination=contamination, random_state=42)
     df["anomaly_score"] = model.fit_predict(features)
+    # Positive and higher means more isolated (decision_function is negative for outliers)
+    df["outlier_score"] = -model.decision_function(features)
 
     # Rule-based filtering
-    amount_threshold = max(10000, df[["debit", "credit"]].quantile(0.95).max())  # 95th percentile or $10,000
-    imbalance_threshold = 5000  # For debit/credit imbalance
+    amount_threshold = max(amount_floor, df[["debit", "credit"]].quantile(amount_percentile / 100).max())  # percentile or floor
+    df["above_amount_threshold"] = (df["debit"] > amount_threshold) | (df["credit"] > amount_threshold)
+    df["one_sided_debit"] = (df["debit"] > imbalance_threshold) & (df["credit"] == 0)
+    df["one_sided_credit"] = (df["credit"] > imbalance_threshold) & (df["debit"] == 0)
     df["is_significant_anomaly"] = (
         (df["anomaly_score"] == -1) &
-        (
-            (df["debit"] > amount_threshold) | (df["credit"] > amount_threshold) |
-            ((df["debit"] > imbalance_threshold) & (df["credit"] == 0)) |
-            ((df["credit"] > imbalance_threshold) & (df["debit"] == 0))
-        )
+        (df["above_amount_threshold"] | df["one_sided_debit"] | df["one_sided_credit"])
+    )
+
+    flagged = df[df["is_significant_anomaly"]]
+    logger.info(f"Detected {len(flagged)} significant anomalies: {flagged[['items', 'debit', 'credit']].to_dict(orient='records')}")
+    anomalies = [
+        {
+            "items": str(row["items"]),
+            "debit": float(row["debit"]),
+            "credit": float(row["credit"]),
+            "score": round(float(row["outlier_score"]), 4),
+            "reasons": [rule for rule in ANOMALY_RULES if row[rule]],
+        }
+        for _, row in flagged.iterrows()
+    ]
+    detection = {
+        "amount_threshold": round(float(amount_threshold), 2),
+        "amount_floor": float(amount_floor),
+        "amount_percentile": float(amount_percentile),
+        "imbalance_threshold": float(imbalance_threshold),
+        "contamination": round(float(contamination), 4),
+        "rows_analyzed": int(len(df)),
+    }
+    return anomalies, detection
+
+
+def summarize_dataset(df):
+    """Chart data for the whole cleaned ledger. Call after detect_anomalies."""
+    amounts = df[["debit", "credit"]].max(axis=1)
+    flagged = df["is_significant_anomaly"]
+
+    # Log-scale histogram of line amounts; zero lines have no place on a log axis
+    histogram = []
+    positive = amounts[amounts > 0]
+    if len(positive) > 0:
+        step = 1 / HISTOGRAM_BINS_PER_DECADE
+        low = np.floor(np.log10(positive.min()) / step) * step
+        high = max(np.ceil(np.log10(positive.max()) / step) * step, low + step)
+        edges = np.arange(low, high + step / 2, step)
+        counts, _ = np.histogram(np.log10(positive), bins=edges)
+        flagged_counts, _ = np.histogram(np.log10(positive[flagged[amounts > 0]]), bins=edges)
+        histogram = [
+            {
+                "start": round(float(10 ** edges[i]), 2),
+                "end": round(float(10 ** edges[i + 1]), 2),
+                "count": int(counts[i]),
+                "anomalies": int(flagged_counts[i]),
+            }
+            for i in range(len(counts))
+        ]
+
+    # Pareto of accounts by absolute net balance
+    accounts = df.groupby("items").agg(debit=("debit", "sum"), credit=("credit", "sum"), flagged=("is_significant_anomaly", "any"))
+    accounts["value"] = (accounts["debit"] - accounts["credit"]).abs()
+    accounts = accounts.sort_values("value", ascending=False)
+    total_value = accounts["value"].sum()
+    top = accounts.head(CHART_TOP_ACCOUNTS)
+    cumulative = top["value"].cumsum() / total_value if total_value > 0 else top["value"] * 0
+    top_accounts = [
+        {
+            "items": str(items),
+            "debit": round(float(row["debit"]), 2),
+            "credit": round(float(row["credit"]), 2),
+            "value": round(float(row["value"]), 2),
+            "cumulative_share": round(float(cumulative[items]), 4),
+            "is_anomaly": bool(row["flagged"]),
+        }
+        for items, row in top.iterrows()
+    ]
+
+    # Where the debits and credits sit, by kind of line
+    kinds = {
+        "debit_only": (df["debit"] > 0) & (df["credit"] == 0),
+        "credit_only": (df["credit"] > 0) & (df["debit"] == 0),
+        "mixed": (df["debit"] > 0) & (df["credit"] > 0),
+    }
+    composition = [
+        {
+            "kind": kind,
+            "lines": int(mask.sum()),
+            "debit": round(float(df.loc[mask, "debit"].sum()), 2),
+            "credit": round(float(df.loc[mask, "credit"].sum()), 2),
+        }
+        for kind, mask in kinds.items()
+    ]
+
+    # Every anomaly plus a fixed sample of the other rows, to keep the payload small
+    normal = df[~flagged]
+    room = max(CHART_MAX_POINTS - int(flagged.sum()), 0)
+    sampled = len(normal) > room
+    if sampled:
+        normal = normal.sample(n=room, random_state=42)
+    points = [
+        {"items": str(row["items"]), "debit": float(row["debit"]), "credit": float(row["credit"]), "is_anomaly": bool(row["is_significant_anomaly"])}
+        for _, row in pd.concat([df[flagged], normal]).iterrows()
+    ]
+
+    return {
+        "histogram": histogram,
+        "top_accounts": top_accounts,
+        "composition": composition,
+        "points": points,
+        "points_sampled": sampled,
+    }
+
+
+def summarize_accounts(df):
+    """Debit and credit totals per account, for classifying the trial balance.
+
+    Runs after detect_anomalies; score is the account's highest row outlier score,
+    so the account page can rank it against its peers.
+    """
+    accounts = df.groupby("items", sort=False).agg(
+        debit=("debit", "sum"),
+        credit=("credit", "sum"),
+        score=("outlier_score", "max"),
     )
+    return [
+        {
+            "items": str(items),
+            "debit": round(float(row["debit"]), 2),
+            "credit": round(float(row["credit"]), 2),
+            "score": round(float(row["score"]), 4),
+        }
+        for items, row in accounts.iterrows()
+    ]
+
+
+def ledger_rows(rows):
+    return [
+        {"items": str(row["items"]), "debit": float(row["debit"]), "credit": float(row["credit"])}
+        for _, row in rows.iterrows()
+    ]
+
+
+def line_amounts(df):
+    """Every non-zero debit and credit as (row index, side, amount)."""
+    sides = []
+    for side in ("debit", "credit"):
+        values = df.loc[df[side] > 0, side]
+        sides.append(pd.DataFrame({"row": values.index, "side": side, "amount": values.values}))
+    return pd.concat(sides, ignore_index=True)
+
 
-    anomalies = df[df["is_significant_anomaly"]][["items", "debit", "credit"]]
-    logger.info(f"Detected {len(anomalies)} significant anomalies: {anomalies.to_dict(orient='records')}")
-    anomalies = anomalies[["items", "debit", "credit"]].to_dict(orient="records")
-    anomaly_summary = f"{len(anomalies)} significant anomalies detected" if anomalies else "No significant anomalies detected"
+def benford_test(amounts, test):
+    """Observed vs expected leading-digit frequencies, with MAD and chi-square."""
+    amounts = amounts[amounts >= BENFORD_MIN_AMOUNT]
+    width = 1 if test == "first_digit" else 2
+    digits = range(1, 10) if width == 1 else range(10, 100)
+    # The small offset keeps exact powers of ten such as 1000 from rounding down a digit
+    magnitude = np.floor(np.log10(amounts) + 1e-9)
+    leading = np.floor(amounts / 10 ** (magnitude - (width - 1)) + 1e-9).astype(int)
+    counts = leading.value_counts()
+    n = int(len(amounts))
 
-    # AI Recommendations with Gemini 2.5 Flash
-    gemini_api_key = os.getenv("GEMINI_API_KEY")
-    if not gemini_api_key:
-        logger.error("GEMINI_API_KEY not found in environment variables")
-        recommendations = "Error: GEMINI_API_KEY not set"
+    expected = {d: float(np.log10(1 + 1 / d)) for d in digits}
+    observed = {d: (int(counts.get(d, 0)) / n if n else 0.0) for d in digits}
+    mad = float(np.mean([abs(observed[d] - expected[d]) for d in digits])) if n else 0.0
+    chi_square = float(sum((counts.get(d, 0) - n * expected[d]) ** 2 / (n * expected[d]) for d in digits)) if n else 0.0
+
+    close, acceptable, marginal = BENFORD_MAD_LIMITS[test]
+    if mad <= close:
+        conformity = "close"
+    elif mad <= acceptable:
+        conformity = "acceptable"
+    elif mad <= marginal:
+        conformity = "marginal"
     else:
-        genai.configure(api_key=gemini_api_key)
-        model = genai.GenerativeModel('gemini-2.5-flash')
-        ai_prompt = f"""
-        Analyze these significant financial anomalies from a CSV (items, debit, credit):
-        {anomalies}
-        Provide 5-8 concise audit recommendations (each 100-150 characters) in Markdown bullet points, focusing on high-value transactions or imbalances. Ensure clear, actionable steps.
-        Example:
-        - Verify land transaction documentation for compliance and authorization.
-        - Check foreign currency account for accurate exchange rate application.
-        """
-        try:
-            response = model.generate_content(ai_prompt)
-            recommendations = response.text.strip()
-            logger.info(f"Generated recommendations: {recommendations}")
-            # Ensure Markdown bullet points
-            if not recommendations.startswith("- "):
-                recommendations = "- " + "\n- ".join(recommendations.split("\n"))
-        except Exception as e:
-            logger.error(f"AI error: {str(e)}")
-            recommendations = f"AI error: {str(e)}"
+        conformity = "nonconformity"
+
+    return {
+        "sample_size": n,
+        "mad": round(mad, 5),
+        "chi_square": round(chi_square, 2),
+        "degrees_of_freedom": len(digits) - 1,
+        "conformity": conformity,
+        "digits": [
+            {
+                "digit": d,
+                "count": int(counts.get(d, 0)),
+                "observed": round(observed[d], 5),
+                "expected": round(expected[d], 5),
+            }
+            for d in digits
+        ],
+    }
+
+
+def find_duplicates(df):
+    """Exact duplicate lines, and lines on the same side with amounts within the tolerance."""
+    key = df["items"].astype(str).str.strip().str.lower()
+    repeated = df.assign(key=key)
+    repeated = repeated[(repeated["debit"] + repeated["credit"] > 0) & repeated.duplicated(["key", "debit", "credit"], keep=False)]
+    exact = [
+        {"amount": float(max(group["debit"].iloc[0], group["credit"].iloc[0])), "rows": ledger_rows(group)}
+        for _, group in repeated.groupby(["key", "debit", "credit"])
+    ]
+    exact.sort(key=lambda g: g["amount"], reverse=True)
+    exact_rows = set(repeated.index)
+
+    # Walk each side in amount order and cluster neighbours within the tolerance
+    near = []
+    amounts = line_amounts(df)
+    amounts = amounts[(amounts["amount"] >= DUPLICATE_MIN_AMOUNT) & ~amounts["row"].isin(exact_rows)]
+    for side, lines in amounts.groupby("side"):
+        lines = lines.sort_values("amount")
+        cluster = []
+        for line in lines.itertuples():
+            if cluster and line.amount > cluster[0].amount * (1 + NEAR_DUPLICATE_TOLERANCE):
+                if len(cluster) > 1:
+                    near.append((side, cluster))
+                cluster = []
+            cluster.append(line)
+        if len(cluster) > 1:
+            near.append((side, cluster))
+    near_groups = [
+        {
+            "side": side,
+            "amount": float(cluster[0].amount),
+            "spread": round(float(cluster[-1].amount - cluster[0].amount), 2),
+            "rows": ledger_rows(df.loc[[line.row for line in cluster]]),
+        }
+        for side, cluster in near
+    ]
+    near_groups.sort(key=lambda g: g["amount"], reverse=True)
+
+    return {
+        "exact": exact[:FINDINGS_LIMIT],
+        "exact_groups": len(exact),
+        "near": near_groups[:FINDINGS_LIMIT],
+        "near_groups": len(near_groups),
+        "tolerance": NEAR_DUPLICATE_TOLERANCE,
+    }
+
+
+def find_round_numbers(df):
+    """Lines whose debit or credit is an exact multiple of the round-number unit."""
+    def is_round(col):
+        return (df[col] >= ROUND_NUMBER_UNIT) & (df[col] % ROUND_NUMBER_UNIT == 0)
+
+    mask = is_round("debit") | is_round("credit")
+    rows = df[mask].assign(amount=df[["debit", "credit"]].max(axis=1)).sort_values("amount", ascending=False)
+    lines = int(((df["debit"] >= ROUND_NUMBER_UNIT) | (df["credit"] >= ROUND_NUMBER_UNIT)).sum())
+    return {
+        "unit": ROUND_NUMBER_UNIT,
+        "count": int(mask.sum()),
+        # Share among the lines big enough to be a round number at all
+        "share": round(float(mask.sum() / lines), 4) if lines else 0.0,
+        "rows": ledger_rows(rows.head(FINDINGS_LIMIT)),
+    }
+
+
+def find_just_below(df, thresholds):
+    """Lines sitting just under a threshold, a common sign of splitting to avoid review."""
+    amounts = df[["debit", "credit"]].max(axis=1)
+    findings = []
+    for name, threshold in thresholds.items():
+        if threshold <= 0:
+            continue
+        lower = threshold * (1 - JUST_BELOW_BAND)
+        mask = (amounts >= lower) & (amounts < threshold)
+        rows = df[mask].assign(amount=amounts[mask]).sort_values("amount", ascending=False)
+        findings.append({
+            "threshold": name,
+            "value": round(float(threshold), 2),
+            "lower": round(float(lower), 2),
+            "count": int(mask.sum()),
+            "rows": ledger_rows(rows.head(FINDINGS_LIMIT)),
+        })
+    return findings
+
+
+def journal_rows(lines):
+    return [
+        {
+            "items": str(row["items"]),
+            "debit": float(row["debit"]),
+            "credit": float(row["credit"]),
+            "date": row["date"].strftime("%Y-%m-%d"),
+            "reference": None if pd.isna(row["reference"]) else str(row["reference"]),
+        }
+        for _, row in lines.iterrows()
+    ]
+
+
+def run_date_checks(journal, close_date=None):
+    """Weekend postings, month-end spikes and entries dated after the close."""
+    amounts = journal[["debit", "credit"]].max(axis=1)
+
+    def largest_first(lines):
+        return lines.assign(amount=amounts[lines.index]).sort_values("amount", ascending=False).head(FINDINGS_LIMIT)
+
+    weekend = journal[journal["date"].dt.dayofweek >= 5]
+
+    # Share of each month's value posted in its last few days, against an even spread
+    days_left = journal["date"].dt.days_in_month - journal["date"].dt.day
+    at_period_end = days_left < PERIOD_END_DAYS
+    months = []
+    for month, lines in journal.groupby(journal["date"].dt.to_period("M")):
+        total = amounts[lines.index].sum()
+        end_amount = amounts[lines.index][at_period_end[lines.index]].sum()
+        share = float(end_amount / total) if total > 0 else 0.0
+        expected = PERIOD_END_DAYS / month.days_in_month
+        months.append({
+            "month": str(month),
+            "total": round(float(total), 2),
+            "period_end_amount": round(float(end_amount), 2),
+            "share": round(share, 4),
+            "expected_share": round(expected, 4),
+            "spike": bool(total > 0 and share >= expected * PERIOD_END_SPIKE_FACTOR),
+        })
+
+    after_close = None
+    if close_date:
+        close = pd.Timestamp(close_date)
+        late = journal[journal["date"] > close]
+        after_close = {
+            "close_date": close.strftime("%Y-%m-%d"),
+            "count": int(len(late)),
+            "rows": journal_rows(largest_first(late)),
+        }
+
+    return {
+        "lines": int(len(journal)),
+        "start": journal["date"].min().strftime("%Y-%m-%d"),
+        "end": journal["date"].max().strftime("%Y-%m-%d"),
+        "weekend": {"count": int(len(weekend)), "rows": journal_rows(largest_first(weekend))},
+        "period_end": {"days": PERIOD_END_DAYS, "months": months},
+        "after_close": after_close,
+    }
+
+
+def run_audit_analytics(df, detection):
+    """Benford, duplicate, round-number and just-below-threshold tests over the cleaned ledger."""
+    amounts = line_amounts(df)["amount"]
+    return {
+        "benford": {
+            "first_digit": benford_test(amounts, "first_digit"),
+            "first_two_digits": benford_test(amounts, "first_two_digits"),
+        },
+        "duplicates": find_duplicates(df),
+        "round_numbers": find_round_numbers(df),
+        "just_below_threshold": find_just_below(df, {
+            "amount_threshold": detection["amount_threshold"],
+            "imbalance_threshold": detection["imbalance_threshold"],
+        }),
+    }
+
+
+@app.post("/upload-csv")
+async def upload_csv(
+    file: UploadFile,
+    amount_floor: float = Form(10000),
+    amount_percentile: float = Form(95),
+    imbalance_threshold: float = Form(5000),
+    contamination: Optional[float] = Form(None),
+    sheet: Optional[str] = Form(None),
+    close_date: Optional[str] = Form(None),
+):
+    validate_settings(amount_floor, amount_percentile, imbalance_threshold, contamination, close_date)
+
+    # Read the upload in memory
+    content = await file.read()
+    df, journal = parse_ledger(file.filename, content, sheet)
+    balance = check_balance(df)
+    anomalies, detection = detect_anomalies(df, amount_floor, amount_percentile, imbalance_threshold, contamination)
+    dataset = summarize_dataset(df)
+    analytics = run_audit_analytics(df, detection)
+    if journal is not None:
+        analytics["dates"] = run_date_checks(journal, close_date)
+    accounts = summarize_accounts(df)
+    recommendations = await run_in_threadpool(generate_recommendations, anomalies, balance)
 
     # Return response
     return JSONResponse({
-        "balance_status": balance_message,
+        **balance,
+        "detection": detection,
         "anomalies": anomalies,
+        "dataset": dataset,
+        "analytics": analytics,
+        "accounts": accounts,
         "recommendations": recommendations
-    })
\ No newline at end of file
+    })
+
+
+def ndjson(event):
+    return json.dumps(event) + "\n"
+
+
+@app.post("/upload-csv/stream")
+async def upload_csv_stream(
+    file: UploadFile,
+    amount_floor: float = Form(10000),
+    amount_percentile: float = Form(95),
+    imbalance_threshold: float = Form(5000),
+    contamination: Optional[float] = Form(None),
+    sheet: Optional[str] = Form(None),
+    close_date: Optional[str] = Form(None),
+):
+    """Same analysis as /upload-csv, streamed as newline-delimited JSON events.
+
+    The deterministic results arrive in an "analysis" event before the (slow)
+    recommendations, so clients can render the dashboard early.
+    """
+    validate_settings(amount_floor, amount_percentile, imbalance_threshold, contamination, close_date)
+
+    # Parse before streaming so bad files still get a normal 400 response
+    content = await file.read()
+    df, journal = parse_ledger(file.filename, content, sheet)
+
+    async def events():
+        try:
+            yield ndjson({"type": "stage", "stage": "parsed", "message": f"Parsed {len(df)} rows", "rows": int(len(df))})
+
+            balance = check_balance(df)
+            yield ndjson({"type": "stage", "stage": "balance_checked", "message": balance["balance_status"]})
+
+            anomalies, detection = await run_in_threadpool(
+                detect_anomalies, df, amount_floor, amount_percentile, imbalance_threshold, contamination
+            )
+            yield ndjson({
+                "type": "stage",
+                "stage": "anomalies_detected",
+                "message": f"Found {len(anomalies)} significant anomalies",
+                "count": len(anomalies),
+            })
+            dataset = await run_in_threadpool(summarize_dataset, df)
+            analytics = await run_in_threadpool(run_audit_analytics, df, detection)
+            if journal is not None:
+                analytics["dates"] = await run_in_threadpool(run_date_checks, journal, close_date)
+            accounts = summarize_accounts(df)
+            yield ndjson({
+                "type": "analysis",
+                "data": {
+                    **balance,
+                    "detection": detection,
+                    "anomalies": anomalies,
+                    "dataset": dataset,
+                    "analytics": analytics,
+                    "accounts": accounts,
+                },
+            })
+
+            yield ndjson({"type": "stage", "stage": "recommendations_generating", "message": "Generating recommendations"})
+            recommendations = await run_in_threadpool(generate_recommendations, anomalies, balance)
+            yield ndjson({"type": "recommendations", "recommendations": recommendations})
+            yield ndjson({"type": "done"})
+        except Exception as e:
+            logger.error(f"Streaming analysis failed: {str(e)}")
+            yield ndjson({"type": "error", "detail": f"Analysis failed: {str(e)}"})
+
+    return StreamingResponse(events(), media_type="application/x-ndjson")
@@ -0,0 +1,249 @@
+"""Audit recommendation providers.
+
+RECOMMENDATION_PROVIDER picks one of "gemini", "openai" (any OpenAI-compatible
+chat completions endpoint, such as a local model server) or "rules". Left unset,
+the first configured LLM is used. Whenever no LLM is configured or the call
+fails, the rule-based provider answers instead and the response says so.
+"""
+import json
+import logging
+import os
+import re
+import urllib.error
+import urllib.request
+
+import google.generativeai as genai
+
+logger = logging.getLogger(__name__)
+
+MAX_RECOMMENDATIONS = 8
+LLM_TIMEOUT_SECONDS = 60
+DEFAULT_GEMINI_MODEL = "gemini-2.5-flash"
+DEFAULT_OPENAI_MODEL = "gpt-4o-mini"
+
+SEVERITIES = ("high", "medium", "low")
+CATEGORIES = ("documentation", "valuation", "cut-off", "authorization", "classification")
+DEFAULT_SEVERITY = "medium"
+DEFAULT_CATEGORY = "documentation"
+
+
+class ProviderError(Exception):
+    """The provider could not produce usable recommendations."""
+
+
+def build_prompt(anomalies, balance):
+    rows = [{k: a[k] for k in ("items", "debit", "credit", "reasons")} for a in anomalies]
+    return f"""
+    Analyze these significant financial anomalies from a trial balance (items, debit, credit, rules that flagged them):
+    {rows}
+    The trial balance is {"balanced" if balance["is_balanced"] else "not balanced"}: total debit {balance["total_debit"]}, total credit {balance["total_credit"]}.
+    Provide 5-{MAX_RECOMMENDATIONS} concise audit recommendations (each 100-150 characters), focusing on high-value transactions or imbalances. Ensure clear, actionable steps.
+    Give each one a severity ({", ".join(SEVERITIES)}), a category ({", ".join(CATEGORIES)}) and the exact "items" values of the anomalies it addresses (an empty list when it is general).
+    Reply with JSON only, in this shape:
+    {{"recommendations": [{{"text": "Verify land transaction documentation for compliance and authorization.", "severity": "high", "category": "documentation", "items": ["Land"]}}]}}
+    """
+
+
+def recommendation(text, severity=DEFAULT_SEVERITY, category=DEFAULT_CATEGORY, items=()):
+    return {"text": text, "severity": severity, "category": category, "items": list(items)}
+
+
+def normalize_entry(entry, known_items):
+    """Coerce one model entry to the response shape; unknown labels fall back to the defaults."""
+    if not isinstance(entry, dict):
+        return recommendation(str(entry).strip())
+    severity = str(entry.get("severity", "")).strip().lower()
+    category = str(entry.get("category", "")).strip().lower().replace("cutoff", "cut-off").replace("authorisation", "authorization")
+    linked = entry.get("items") or []
+    if isinstance(linked, str):
+        linked = [linked]
+    # Only keep links the anomalies page can actually show
+    linked = [str(item) for item in linked if str(item) in known_items]
+    return recommendation(
+        str(entry["text"]).strip(),
+        severity if severity in SEVERITIES else DEFAULT_SEVERITY,
+        category if category in CATEGORIES else DEFAULT_CATEGORY,
+        dict.fromkeys(linked),
+    )
+
+
+def parse_llm_output(text, known_items=()):
+    """Read the JSON reply, tolerating code fences and falling back to Markdown bullets."""
+    known_items = set(known_items)
+    cleaned = re.sub(r"^```(?:json)?\s*|\s*```$", "", text.strip())
+    try:
+        data = json.loads(cleaned)
+        entries = data.get("recommendations", []) if isinstance(data, dict) else data
+        items = [normalize_entry(entry, known_items) for entry in entries]
+    except (ValueError, KeyError, TypeError, AttributeError):
+        items = [
+            recommendation(line.lstrip("-*• ").strip())
+            for line in cleaned.splitlines()
+            if line.strip().startswith(("-", "*", "•"))
+        ]
+    items = [item for item in items if item["text"]][:MAX_RECOMMENDATIONS]
+    if not items:
+        raise ProviderError("the model returned no recommendations")
+    return items
+
+
+class GeminiProvider:
+    id = "gemini"
+    label = "Google Gemini"
+
+    def __init__(self, api_key, model):
+        self.api_key = api_key
+        self.model = model
+
+    def complete(self, prompt):
+        genai.configure(api_key=self.api_key)
+        model = genai.GenerativeModel(self.model, generation_config={"response_mime_type": "application/json"})
+        response = model.generate_content(prompt, request_options={"timeout": LLM_TIMEOUT_SECONDS})
+        return response.text
+
+
+class OpenAICompatibleProvider:
+    id = "openai"
+    label = "OpenAI-compatible"
+
+    def __init__(self, base_url, api_key, model):
+        self.base_url = base_url.rstrip("/")
+        self.api_key = api_key
+        self.model = model
+
+    def complete(self, prompt):
+        body = json.dumps({
+            "model": self.model,
+            "messages": [
+                {"role": "system", "content": "You are an experienced financial auditor. Reply with JSON only."},
+                {"role": "user", "content": prompt},
+            ],
+            "temperature": 0.2,
+        }).encode()
+        headers = {"Content-Type": "application/json"}
+        # Local model servers usually need no key
+        if self.api_key:
+            headers["Authorization"] = f"Bearer {self.api_key}"
+        request = urllib.request.Request(f"{self.base_url}/chat/completions", data=body, headers=headers)
+        try:
+            with urllib.request.urlopen(request, timeout=LLM_TIMEOUT_SECONDS) as response:
+                data = json.load(response)
+        except urllib.error.HTTPError as e:
+            raise ProviderError(f"{self.base_url} returned HTTP {e.code}")
+        except urllib.error.URLError as e:
+            raise ProviderError(f"could not reach {self.base_url}: {e.reason}")
+        try:
+            return data["choices"][0]["message"]["content"]
+        except (KeyError, IndexError, TypeError):
+            raise ProviderError("unexpected response shape from the chat completions endpoint")
+
+
+class RuleBasedProvider:
+    """Deterministic recommendations from the anomaly rules; needs no network access."""
+
+    id = "rules"
+    label = "Rule-based"
+    model = None
+
+    def recommend(self, anomalies, balance):
+        items = []
+        difference = abs(balance["total_debit"] - balance["total_credit"])
+        if not balance["is_balanced"]:
+            items.append(recommendation(
+                f"Reconcile the trial balance: debits and credits differ by {difference:,.2f}. Trace unposted or one-sided journals before further testing.",
+                "high",
+                "cut-off",
+            ))
+
+        # Largest first, so the limit keeps the most material items
+        for anomaly in sorted(anomalies, key=lambda a: max(a["debit"], a["credit"]), reverse=True):
+            amount = max(anomaly["debit"], anomaly["credit"])
+            reasons = anomaly["reasons"]
+            # Tripping more than one rule (large and one-sided) needs attention first
+            severity = "high" if len(reasons) > 1 else "medium"
+            if "one_sided_debit" in reasons:
+                text = f"Vouch the {amount:,.2f} debit on {anomaly['items']} to invoices and approvals; confirm why no credit offsets it."
+                category = "documentation"
+            elif "one_sided_credit" in reasons:
+                text = f"Confirm the {amount:,.2f} credit on {anomaly['items']} is supported and correctly classified; check for unrecorded debits."
+                category = "classification"
+            else:
+                text = f"Inspect supporting documents and authorisation for {anomaly['items']} ({amount:,.2f}), which is above the materiality threshold."
+                category = "authorization"
+            items.append(recommendation(text, severity, category, [anomaly["items"]]))
+
+        if not anomalies:
+            items.append(recommendation(
+                "No significant anomalies were flagged. Complete standard substantive sampling and cut-off tests for the period.",
+                "low",
+                "cut-off",
+            ))
+        else:
+            items.append(recommendation(
+                "Review authorisation controls for high-value and one-sided postings, and document the results for each flagged account.",
+                "low",
+                "authorization",
+                dict.fromkeys(a["items"] for a in anomalies),
+            ))
+        return items[:MAX_RECOMMENDATIONS]
+
+
+def configured_provider():
+    """Return the LLM provider from the environment, or (None, reason) when there is none."""
+    choice = os.getenv("RECOMMENDATION_PROVIDER", "auto").strip().lower()
+    gemini_key = os.getenv("GEMINI_API_KEY")
+    openai_url = os.getenv("OPENAI_BASE_URL")
+
+    def gemini():
+        return GeminiProvider(gemini_key, os.getenv("GEMINI_MODEL", DEFAULT_GEMINI_MODEL))
+
+    def openai():
+        return OpenAICompatibleProvider(openai_url, os.getenv("OPENAI_API_KEY"), os.getenv("OPENAI_MODEL", DEFAULT_OPENAI_MODEL))
+
+    if choice == "rules":
+        return None, None
+    if choice == "gemini":
+        return (gemini(), None) if gemini_key else (None, "GEMINI_API_KEY is not set")
+    if choice == "openai":
+        return (openai(), None) if openai_url else (None, "OPENAI_BASE_URL is not set")
+    if choice != "auto":
+        return None, f"Unknown RECOMMENDATION_PROVIDER '{choice}'"
+    if gemini_key:
+        return gemini(), None
+    if openai_url:
+        return openai(), None
+    return None, "No LLM provider is configured (set GEMINI_API_KEY or OPENAI_BASE_URL)"
+
+
+def provider_info(provider, fallback=False, reason=None):
+    return {
+        "id": provider.id,
+        "label": provider.label,
+        "model": provider.model,
+        "fallback": fallback,
+        "reason": reason,
+    }
+
+
+def generate_recommendations(anomalies, balance):
+    """Recommendations plus the provider that produced them. Blocking; run it off the event loop."""
+    rules = RuleBasedProvider()
+    provider, reason = configured_provider()
+    if provider is None:
+        if reason:
+            logger.warning(f"Using rule-based recommendations: {reason}")
+        return {
+            "provider": provider_info(rules, fallback=reason is not None, reason=reason),
+            "items": rules.recommend(anomalies, balance),
+        }
+
+    try:
+        items = parse_llm_output(provider.complete(build_prompt(anomalies, balance)), [a["items"] for a in anomalies])
+        logger.info(f"Generated {len(items)} recommendations with {provider.label} ({provider.model})")
+        return {"provider": provider_info(provider), "items": items}
+    except Exception as e:
+        logger.error(f"{provider.label} recommendations failed: {str(e)}")
+        return {
+            "provider": provider_info(rules, fallback=True, reason=f"{provider.label} failed: {str(e)}"),
+            "items": rules.recommend(anomalies, balance),
+        }
@@ -0,0 +1,238 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { http } from "msw";
+import { MemoryRouter } from "react-router";
+import { describe, expect, it, vi } from "vitest";
+import App from "./App";
+import { BATCH_CONCURRENCY } from "./lib/batch";
+import { createI18n, loadDisplaySettings } from "./lib/i18n";
+import { FIXTURES, fixtureFile, normalizedFile, type LedgerFixture } from "./test/fixtures";
+import { RULES_PROVIDER, STREAM_URL, analyzeCsv, detailResponse, ndjsonResponse, streamEvents, withRuleRecommendations } from "./test/mockBackend";
+import { server } from "./test/server";
+
+const { t, formatMoney } = createI18n(loadDisplaySettings());
+
+// Pick a fixture on the upload page and accept the guessed column mapping
+async function uploadFixture(fixture: LedgerFixture) {
+  const user = userEvent.setup();
+  render(
+    <MemoryRouter>
+      <App />
+    </MemoryRouter>
+  );
+  await user.upload(screen.getByLabelText(t("upload.choose")), fixtureFile(fixture));
+  await user.click(await screen.findByRole("button", { name: new RegExp(`^${t("mapper.analyze", { rows: "\\d+" })}$`) }));
+  return user;
+}
+
+async function fixtureAnalysis(fixture: LedgerFixture) {
+  const file = await normalizedFile(fixture);
+  return analyzeCsv(file.name, await file.text());
+}
+
+describe("uploading a trial balance", () => {
+  it("shows the totals and anomalies from the backend", async () => {
+    const user = await uploadFixture(FIXTURES.kenyanSme);
+
+    expect(await screen.findByText(t("overview.totalDebits"))).toBeInTheDocument();
+    expect(screen.getAllByText(formatMoney(FIXTURES.kenyanSme.totalDebit))).toHaveLength(2);
+
+    const { anomalies } = await fixtureAnalysis(FIXTURES.kenyanSme);
+    await user.click(screen.getByRole("tab", { name: t("tabs.anomalies", { count: anomalies.length }) }));
+    for (const anomaly of anomalies) {
+      expect(screen.getAllByText(anomaly.items).length).toBeGreaterThan(0);
+    }
+  });
+
+  it("reads a QuickBooks export with title rows and currency amounts", async () => {
+    await uploadFixture(FIXTURES.quickbooks);
+
+    expect(await screen.findByText(t("overview.totalDebits"))).toBeInTheDocument();
+    expect(screen.getAllByText(formatMoney(FIXTURES.quickbooks.totalDebit)).length).toBeGreaterThan(0);
+  });
+
+  it("shows the backend's reason when the file is rejected", async () => {
+    server.use(http.post(STREAM_URL, () => detailResponse("Invalid numeric values in debit")));
+
+    await uploadFixture(FIXTURES.kenyanSme);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("The file was rejected: Invalid numeric values in debit");
+    expect(screen.queryByText(t("overview.totalDebits"))).not.toBeInTheDocument();
+  });
+
+  it("keeps the dashboard when the recommendations fail", async () => {
+    const analysis = await fixtureAnalysis(FIXTURES.unbalanced);
+    server.use(
+      http.post(STREAM_URL, () =>
+        ndjsonResponse([
+          { type: "analysis", data: analysis },
+          { type: "error", detail: "AI error: 429 Resource has been exhausted (e.g. check quota)." },
+        ])
+      )
+    );
+
+    const user = await uploadFixture(FIXTURES.unbalanced);
+
+    expect(await screen.findByText(t("overview.totalDebits"))).toBeInTheDocument();
+    await user.click(screen.getByRole("tab", { name: t("tabs.recommendations") }));
+    expect(await screen.findByText(/^Recommendations could not be loaded: .*AI error: 429/)).toBeInTheDocument();
+  });
+
+  it("says so when nothing was flagged", async () => {
+    const analysis = { ...(await fixtureAnalysis(FIXTURES.kenyanSme)), anomalies: [] };
+    server.use(http.post(STREAM_URL, () => ndjsonResponse(streamEvents(withRuleRecommendations(analysis)))));
+
+    const user = await uploadFixture(FIXTURES.kenyanSme);
+
+    const tab = await screen.findByRole("tab", { name: t("tabs.anomalies", { count: 0 }) });
+    await user.click(tab);
+    expect(screen.getByText(t("anomalies.none"))).toBeInTheDocument();
+  });
+
+  it("shows only the named account when a recommendation opens its anomalies", async () => {
+    const analysis = await fixtureAnalysis(FIXTURES.kenyanSme);
+    const [flagged] = analysis.anomalies;
+    const similar = { ...flagged, items: `${flagged.items} receivable` };
+    server.use(
+      http.post(STREAM_URL, () =>
+        ndjsonResponse(streamEvents({
+          ...analysis,
+          anomalies: [flagged, similar],
+          recommendations: {
+            provider: RULES_PROVIDER,
+            items: [{ text: "Vouch the balance", severity: "high", category: "documentation", items: [flagged.items] }],
+          },
+        }))
+      )
+    );
+
+    const user = await uploadFixture(FIXTURES.kenyanSme);
+    await user.click(await screen.findByRole("tab", { name: t("tabs.recommendations") }));
+    await user.click(screen.getByRole("button", { name: `${flagged.items} →` }));
+
+    expect(screen.getByRole("button", { name: t("explorer.clearAccount", { account: flagged.items }) })).toBeInTheDocument();
+    expect(screen.queryByText(similar.items)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: t("explorer.clearAccount", { account: flagged.items }) }));
+    expect(screen.getByText(similar.items)).toBeInTheDocument();
+  });
+});
+
+describe("uploading several entities", () => {
+  it("analyses each file and keeps the batch while an entity is open", async () => {
+    const user = userEvent.setup();
+    render(
+      <MemoryRouter>
+        <App />
+      </MemoryRouter>
+    );
+    await user.upload(screen.getByLabelText(t("upload.choose")), [fixtureFile(FIXTURES.kenyanSme), fixtureFile(FIXTURES.unbalanced)]);
+
+    const progress = t("batch.progress", { finished: 2, total: 2, concurrency: BATCH_CONCURRENCY });
+    expect(await screen.findByText(progress)).toBeInTheDocument();
+    expect(screen.getAllByText(t("batch.done"))).toHaveLength(2);
+
+    await user.click(screen.getByRole("link", { name: t("nav.history") }));
+    await user.click(screen.getByRole("link", { name: t("nav.batch") }));
+    expect(screen.getByText(progress)).toBeInTheDocument();
+  });
+});
+
+describe("keyboard and screen reader use", () => {
+  it("announces a finished upload and marks the selected tab", async () => {
+    await uploadFixture(FIXTURES.kenyanSme);
+
+    const overview = await screen.findByRole("tab", { name: t("tabs.overview") });
+    expect(screen.getByText(t("upload.success")).closest("[role=status]")).not.toBeNull();
+    expect(overview).toHaveAttribute("aria-selected", "true");
+    expect(screen.getByRole("tabpanel")).toHaveAccessibleName(t("tabs.overview"));
+  });
+
+  it("moves between tabs with the arrow keys", async () => {
+    const user = await uploadFixture(FIXTURES.kenyanSme);
+    const { anomalies } = await fixtureAnalysis(FIXTURES.kenyanSme);
+    const anomaliesTab = t("tabs.anomalies", { count: anomalies.length });
+
+    (await screen.findByRole("tab", { name: t("tabs.overview") })).focus();
+    await user.keyboard("{ArrowRight}");
+
+    expect(screen.getByRole("tab", { name: anomaliesTab })).toHaveFocus();
+    expect(screen.getByRole("tab", { name: anomaliesTab })).toHaveAttribute("aria-selected", "true");
+    expect(screen.getByRole("tabpanel")).toHaveAccessibleName(anomaliesTab);
+
+    await user.keyboard("{End}");
+    expect(screen.getByRole("tab", { name: t("tabs.recommendations") })).toHaveFocus();
+    await user.keyboard("{ArrowRight}");
+    expect(screen.getByRole("tab", { name: t("tabs.overview") })).toHaveFocus();
+  });
+
+  it("opens a flagged account's review from the keyboard and returns focus", async () => {
+    const user = await uploadFixture(FIXTURES.kenyanSme);
+    const { anomalies } = await fixtureAnalysis(FIXTURES.kenyanSme);
+    await user.click(await screen.findByRole("tab", { name: t("tabs.anomalies", { count: anomalies.length }) }));
+
+    const reviewButton = screen.getAllByRole("button", { name: /^Review / })[0];
+    reviewButton.focus();
+    await user.keyboard("{Enter}");
+
+    const drawer = screen.getByRole("dialog");
+    expect(screen.getByRole("button", { name: t("common.close") })).toHaveFocus();
+    expect(drawer).toHaveAccessibleName(reviewButton.getAttribute("aria-label")?.replace(/^Review /, ""));
+
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(reviewButton).toHaveFocus();
+  });
+
+  it("lists each chart's data in a table whose links reach the anomalies", async () => {
+    const user = await uploadFixture(FIXTURES.kenyanSme);
+
+    const [distribution] = await screen.findAllByText(t("charts.showTable"));
+    await user.click(distribution);
+
+    expect(screen.getByRole("table", { name: t("charts.distribution") })).toBeInTheDocument();
+    const [showAnomalies] = screen.getAllByRole("button", { name: /^Show the \d+ anomalies in / });
+    await user.click(showAnomalies);
+    expect(screen.getByRole("tab", { selected: true })).toHaveTextContent(/^Anomalies/);
+  });
+});
+
+describe("theme", () => {
+  const renderApp = () =>
+    render(
+      <MemoryRouter>
+        <App />
+      </MemoryRouter>
+    );
+
+  it("starts dark when the operating system prefers it", () => {
+    const matchMedia = vi.spyOn(window, "matchMedia").mockImplementation(query => ({
+      matches: true,
+      media: query,
+      onchange: null,
+      addEventListener() {},
+      removeEventListener() {},
+      addListener() {},
+      removeListener() {},
+      dispatchEvent: () => false,
+    }));
+
+    renderApp();
+
+    expect(document.documentElement).toHaveClass("dark");
+    matchMedia.mockRestore();
+  });
+
+  it("remembers the theme chosen with the toggle", async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderApp();
+
+    await user.click(screen.getByRole("button", { name: t("nav.darkMode") }));
+    expect(document.documentElement).toHaveClass("dark");
+    unmount();
+
+    renderApp();
+    expect(document.documentElement).toHaveClass("dark");
+    expect(screen.getByRole("button", { name: t("nav.lightMode") })).toBeInTheDocument();
+  });
+});
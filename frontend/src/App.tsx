@@ -1,17 +1,37 @@
 import './App.css'
-import UploadForm from './components/UploadForm'
-
+import { Navigate, Route, Routes } from 'react-router'
+import AppLayout from './pages/AppLayout'
+import UploadPage from './pages/UploadPage'
+import BatchPage from './pages/BatchPage'
+import RunLayout from './pages/RunLayout'
+import OverviewPage from './pages/OverviewPage'
+import AnomaliesPage from './pages/AnomaliesPage'
+import StatementsPage from './pages/StatementsPage'
+import RecommendationsPage from './pages/RecommendationsPage'
+import AccountPage from './pages/AccountPage'
+import HistoryPage from './pages/HistoryPage'
+import SettingsPage from './pages/SettingsPage'
 
 function App() {
-
   return (
-   <div>
-    <div className="min-h-screen bg-gray-100">
-      <h1 className="text-2xl font-bold text-center p-4">Audit CSV App</h1>
-      <UploadForm />
-    </div>
-
-   </div>
+    <Routes>
+      <Route element={<AppLayout />}>
+        <Route index element={<UploadPage />} />
+        <Route path="batch" element={<BatchPage />} />
+        {/* The run id and tab live in the URL so a view can be bookmarked */}
+        <Route path="runs/:runId" element={<RunLayout />}>
+          <Route index element={<Navigate to="overview" replace />} />
+          <Route path="overview" element={<OverviewPage />} />
+          <Route path="anomalies" element={<AnomaliesPage />} />
+          <Route path="statements" element={<StatementsPage />} />
+          <Route path="recommendations" element={<RecommendationsPage />} />
+          <Route path="accounts/:items" element={<AccountPage />} />
+        </Route>
+        <Route path="history" element={<HistoryPage />} />
+        <Route path="settings" element={<SettingsPage />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Route>
+    </Routes>
   )
 }
 
@@ -0,0 +1,426 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, ExternalLink, Search, X } from "lucide-react";
+import { REASON_LABELS, describeReason, type AnomalyFocus } from "../lib/anomalies";
+import { useI18n } from "../lib/i18n";
+import { REVIEW_STATUSES, reviewFor, type ReviewEntry, type ReviewMap, type ReviewStatus } from "../lib/review";
+import type { Anomaly, AnomalyReason, Detection } from "../types";
+import type { MessageKey } from "../locales/en";
+import ReviewForm from "./ReviewForm";
+
+interface AnomalyExplorerProps {
+  anomalies: Anomaly[];
+  detection: Detection;
+  reviews: ReviewMap;
+  onReviewChange: (items: string, entry: ReviewEntry) => void;
+  // Set by the charts; each new object re-applies the focus
+  focus?: AnomalyFocus | null;
+  // Opens the account detail page; leave unset where there is none, as in a batch
+  onOpenAccount?: (items: string) => void;
+}
+
+type SortKey = "items" | "debit" | "credit" | "score";
+
+const PAGE_SIZES = [10, 25, 50, 100];
+
+const inputClass =
+  "px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm";
+
+// Largest side of the line, used for the amount range filter
+const lineAmount = (a: Anomaly) => Math.max(a.debit, a.credit);
+
+function ReviewBadge({ entry }: { entry: ReviewEntry }) {
+  const { t } = useI18n();
+  const style = REVIEW_STATUSES.find(s => s.value === entry.status) ?? REVIEW_STATUSES[0];
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${style.className}`}>
+      {t(`review.status.${style.value}` as MessageKey)}{entry.initials && ` · ${entry.initials}`}
+    </span>
+  );
+}
+
+function AnomalyExplorer({ anomalies, detection, reviews, onReviewChange, focus, onOpenAccount }: AnomalyExplorerProps) {
+  const i18n = useI18n();
+  const { t, formatNumber } = i18n;
+  const [query, setQuery] = useState("");
+  // Set when an account was opened from elsewhere; matched exactly, so "Rent" leaves out "Rent receivable"
+  const [account, setAccount] = useState<string | null>(null);
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [reason, setReason] = useState<AnomalyReason | "">("");
+  const [status, setStatus] = useState<ReviewStatus | "">("");
+  const [sort, setSort] = useState<{ key: SortKey; dir: "asc" | "desc" }>({ key: "score", dir: "desc" });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [selected, setSelected] = useState<Anomaly | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  // Whatever opened the drawer gets the focus back when it closes
+  const openerRef = useRef<HTMLElement | null>(null);
+
+  const openReview = (row: Anomaly) => {
+    openerRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    setSelected(row);
+  };
+
+  const closeReview = () => {
+    setSelected(null);
+    openerRef.current?.focus();
+  };
+
+  // Keyboard and screen reader users land in the drawer when it opens
+  useEffect(() => {
+    if (selected) closeButtonRef.current?.focus();
+  }, [selected]);
+
+  // Narrow the table to what was clicked in a chart. Applied while rendering, so only a new focus
+  // resets the filters; a change to the anomaly list keeps them.
+  const [appliedFocus, setAppliedFocus] = useState<AnomalyFocus | null>(null);
+  if (focus && focus !== appliedFocus) {
+    setAppliedFocus(focus);
+    setReason("");
+    setStatus("");
+    setPage(0);
+    setQuery("");
+    if (focus.kind === "account") {
+      setAccount(focus.items);
+      setMinAmount("");
+      setMaxAmount("");
+      setSelected(anomalies.find(a => a.items === focus.items) ?? null);
+    } else {
+      setAccount(null);
+      setMinAmount(String(focus.min));
+      setMaxAmount(String(focus.max));
+    }
+  }
+
+  // Bring the narrowed table into view
+  useEffect(() => {
+    if (focus) containerRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [focus]);
+
+  const filtered = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    const min = minAmount === "" ? -Infinity : Number(minAmount);
+    const max = maxAmount === "" ? Infinity : Number(maxAmount);
+
+    const rows = anomalies.filter(a =>
+      (account === null || a.items === account) &&
+      (!text || a.items.toLowerCase().includes(text)) &&
+      lineAmount(a) >= min &&
+      lineAmount(a) <= max &&
+      (!reason || a.reasons.includes(reason)) &&
+      (!status || reviewFor(reviews, a.items).status === status)
+    );
+
+    const direction = sort.dir === "asc" ? 1 : -1;
+    return rows.sort((a, b) => {
+      const av = a[sort.key];
+      const bv = b[sort.key];
+      return (typeof av === "string" ? av.localeCompare(bv as string) : av - (bv as number)) * direction;
+    });
+  }, [anomalies, account, query, minAmount, maxAmount, reason, status, sort, reviews]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = filtered.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  // Any filter change starts again from the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, dir: prev.dir === "asc" ? "desc" : "asc" }
+      : { key, dir: key === "items" ? "asc" : "desc" });
+  };
+
+  const sortIcon = (key: SortKey) => {
+    if (sort.key !== key) return <ArrowUpDown className="w-3 h-3 opacity-50" />;
+    return sort.dir === "asc" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  const header = (key: SortKey, label: string, align = "text-left") => (
+    <th
+      scope="col"
+      aria-sort={sort.key === key ? (sort.dir === "asc" ? "ascending" : "descending") : undefined}
+      className={`px-4 py-3 font-medium ${align}`}
+    >
+      <button onClick={() => toggleSort(key)} className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-white">
+        {label}
+        {sortIcon(key)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div ref={containerRef}>
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3 mb-4">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={query}
+            onChange={e => withReset(setQuery)(e.target.value)}
+            placeholder={t("explorer.search")}
+            aria-label={t("explorer.search")}
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <input
+          type="number"
+          value={minAmount}
+          onChange={e => withReset(setMinAmount)(e.target.value)}
+          placeholder={t("explorer.minAmount")}
+          aria-label={t("explorer.minAmount")}
+          className={`${inputClass} w-36`}
+        />
+        <input
+          type="number"
+          value={maxAmount}
+          onChange={e => withReset(setMaxAmount)(e.target.value)}
+          placeholder={t("explorer.maxAmount")}
+          aria-label={t("explorer.maxAmount")}
+          className={`${inputClass} w-36`}
+        />
+        <select
+          value={reason}
+          onChange={e => withReset(setReason)(e.target.value as AnomalyReason | "")}
+          aria-label={t("explorer.rules")}
+          className={inputClass}
+        >
+          <option value="">{t("explorer.allRules")}</option>
+          {Object.entries(REASON_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+        <select
+          value={status}
+          onChange={e => withReset(setStatus)(e.target.value as ReviewStatus | "")}
+          aria-label={t("explorer.review")}
+          className={inputClass}
+        >
+          <option value="">{t("explorer.allStatuses")}</option>
+          {REVIEW_STATUSES.map(s => (
+            <option key={s.value} value={s.value}>{t(`review.status.${s.value}` as MessageKey)}</option>
+          ))}
+        </select>
+        {account !== null && (
+          <button
+            onClick={() => withReset(setAccount)(null)}
+            aria-label={t("explorer.clearAccount", { account })}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/50"
+          >
+            {t("explorer.accountFilter", { account })}
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Table */}
+      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-400">
+            <tr>
+              {header("items", t("explorer.account"))}
+              {header("debit", t("common.debit"), "text-right")}
+              {header("credit", t("common.credit"), "text-right")}
+              {header("score", t("explorer.score"), "text-right")}
+              <th scope="col" className="px-4 py-3 font-medium text-left">{t("explorer.rules")}</th>
+              <th scope="col" className="px-4 py-3 font-medium text-left">{t("explorer.review")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((row, idx) => (
+              <tr
+                key={`${row.items}-${idx}`}
+                onClick={() => openReview(row)}
+                className="border-t border-gray-100 dark:border-gray-700 hover:bg-blue-50 dark:hover:bg-blue-900/20 cursor-pointer"
+              >
+                <td className="px-4 py-2 text-gray-900 dark:text-white">
+                  {onOpenAccount ? (
+                    <button
+                      onClick={e => {
+                        // The row itself opens the review drawer
+                        e.stopPropagation();
+                        onOpenAccount(row.items);
+                      }}
+                      className="text-left hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                      title={t("explorer.openAccount")}
+                    >
+                      {row.items}
+                    </button>
+                  ) : (
+                    row.items
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatNumber(row.debit)}</td>
+                <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatNumber(row.credit)}</td>
+                <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{row.score.toFixed(3)}</td>
+                <td className="px-4 py-2">
+                  <div className="flex flex-wrap gap-1">
+                    {row.reasons.map(r => (
+                      <span key={r} className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                        {t(REASON_LABELS[r])}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-2">
+                  {/* The row opens the drawer on click; this button does the same from the keyboard */}
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      openReview(row);
+                    }}
+                    aria-haspopup="dialog"
+                    aria-label={t("explorer.reviewAccount", { items: row.items })}
+                    className="rounded-full"
+                  >
+                    <ReviewBadge entry={reviewFor(reviews, row.items)} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {pageRows.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-gray-600 dark:text-gray-400">
+                  {t("explorer.noMatches")}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex flex-wrap justify-between items-center gap-3 mt-4 text-sm text-gray-600 dark:text-gray-400">
+        <span role="status">
+          {t("explorer.showing", {
+            from: filtered.length === 0 ? 0 : currentPage * pageSize + 1,
+            to: Math.min((currentPage + 1) * pageSize, filtered.length),
+            total: filtered.length,
+          })}
+          {filtered.length !== anomalies.length && ` ${t("explorer.filteredFrom", { count: anomalies.length })}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={pageSize}
+            onChange={e => withReset(setPageSize)(Number(e.target.value))}
+            aria-label={t("explorer.pageSize")}
+            className={inputClass}
+          >
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size}>{t("explorer.perPage", { size })}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            aria-label={t("explorer.previousPage")}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>{t("explorer.page", { page: currentPage + 1, count: pageCount })}</span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            aria-label={t("explorer.nextPage")}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Detail Drawer */}
+      {selected && (
+        <div className="fixed inset-0 z-40 flex justify-end">
+          <div className="absolute inset-0 bg-black/30" onClick={closeReview} />
+          <aside
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="anomalyDrawerTitle"
+            onKeyDown={e => e.key === "Escape" && closeReview()}
+            className="relative w-full max-w-md h-full bg-white dark:bg-gray-800 shadow-xl overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start">
+              <div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t("explorer.flaggedAccount")}</p>
+                <h3 id="anomalyDrawerTitle" className="text-lg font-semibold text-gray-900 dark:text-white">{selected.items}</h3>
+                {onOpenAccount && (
+                  <button
+                    onClick={() => onOpenAccount(selected.items)}
+                    className="mt-1 flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                    {t("explorer.openAccount")}
+                  </button>
+                )}
+              </div>
+              <button
+                ref={closeButtonRef}
+                onClick={closeReview}
+                aria-label={t("common.close")}
+                className="text-gray-400 hover:text-red-500 transition"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-6">
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">{t("common.debit")}</dt>
+                  <dd className="font-medium text-gray-900 dark:text-white">{i18n.formatMoney(selected.debit)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">{t("common.credit")}</dt>
+                  <dd className="font-medium text-gray-900 dark:text-white">{i18n.formatMoney(selected.credit)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">{t("explorer.net")}</dt>
+                  <dd className="font-medium text-gray-900 dark:text-white">{i18n.formatMoney(selected.debit - selected.credit)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">{t("explorer.score")}</dt>
+                  <dd className="font-medium text-gray-900 dark:text-white">{selected.score.toFixed(3)}</dd>
+                </div>
+              </dl>
+
+              <div>
+                <h4 className="font-semibold text-gray-900 dark:text-white mb-2">{t("explorer.why")}</h4>
+                <ul className="space-y-2 text-sm">
+                  <li className="p-3 rounded-lg bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300">
+                    <strong>{t("explorer.outlier")}.</strong> {t("explorer.outlierDetail", { contamination: detection.contamination })}
+                  </li>
+                  {selected.reasons.map(r => (
+                    <li key={r} className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-gray-700 dark:text-gray-300">
+                      <strong>{t(REASON_LABELS[r])}.</strong> {describeReason(r, detection, i18n)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-semibold text-gray-900 dark:text-white mb-2">{t("explorer.review")}</h4>
+                <ReviewForm
+                  key={selected.items}
+                  entry={reviewFor(reviews, selected.items)}
+                  onSave={entry => onReviewChange(selected.items, entry)}
+                />
+              </div>
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {t("explorer.footnote", { rows: formatNumber(detection.rows_analyzed) })}
+              </p>
+            </div>
+          </aside>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AnomalyExplorer;
@@ -0,0 +1,298 @@
+import { CalendarDays, Copy, Hash, Percent, TrendingDown } from "lucide-react";
+import type { AnomalyFocus } from "../lib/anomalies";
+import { THRESHOLD_LABELS } from "../lib/analytics";
+import { useI18n, type I18n } from "../lib/i18n";
+import type { Analytics, Anomaly, DateChecks, LedgerRow } from "../types";
+import BenfordChart from "./BenfordChart";
+
+interface AuditAnalyticsProps {
+  analytics: Analytics;
+  anomalies: Anomaly[];
+  isDarkMode: boolean;
+  onFocus: (focus: AnomalyFocus) => void;
+}
+
+interface FindingRowsProps {
+  rows: (LedgerRow & { date?: string; reference?: string | null })[];
+  flagged: Set<string>;
+  onFocus: (focus: AnomalyFocus) => void;
+  // Journal findings also show each line's date and reference
+  showDates?: boolean;
+}
+
+// Rows behind a finding; accounts the model also flagged link to the anomaly explorer
+function FindingRows({ rows, flagged, onFocus, showDates }: FindingRowsProps) {
+  const { t, formatNumber } = useI18n();
+  return (
+    <table className="min-w-full text-sm">
+      <thead className="text-gray-500 dark:text-gray-400">
+        <tr>
+          {showDates && <th className="px-3 py-1 font-medium text-left">{t("analytics.date")}</th>}
+          {showDates && <th className="px-3 py-1 font-medium text-left">{t("common.reference")}</th>}
+          <th className="px-3 py-1 font-medium text-left">{t("explorer.account")}</th>
+          <th className="px-3 py-1 font-medium text-right">{t("common.debit")}</th>
+          <th className="px-3 py-1 font-medium text-right">{t("common.credit")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, idx) => (
+          <tr key={`${row.items}-${idx}`} className="border-t border-gray-100 dark:border-gray-700">
+            {showDates && <td className="px-3 py-1 text-gray-700 dark:text-gray-300 whitespace-nowrap">{row.date}</td>}
+            {showDates && <td className="px-3 py-1 text-gray-700 dark:text-gray-300">{row.reference}</td>}
+            <td className="px-3 py-1 text-gray-900 dark:text-white">
+              {flagged.has(row.items) ? (
+                <button
+                  onClick={() => onFocus({ kind: "account", items: row.items })}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                  title={t("analytics.alsoFlagged")}
+                >
+                  {row.items}
+                </button>
+              ) : (
+                row.items
+              )}
+            </td>
+            <td className="px-3 py-1 text-right text-gray-700 dark:text-gray-300">{formatNumber(row.debit)}</td>
+            <td className="px-3 py-1 text-right text-gray-700 dark:text-gray-300">{formatNumber(row.credit)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Section({ icon, title, summary, children }: { icon: React.ReactNode; title: string; summary: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          {icon}
+          {title}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{summary}</p>
+      </div>
+      <div className="p-6">{children}</div>
+    </div>
+  );
+}
+
+const groupClass = "border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto";
+
+const shown = (t: I18n["t"], listed: number, total: number) => (listed < total ? ` ${t("analytics.showingLargest", { count: listed })}` : "");
+const asShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+function DateFindings({ dates, flagged, onFocus }: { dates: DateChecks; flagged: Set<string>; onFocus: (focus: AnomalyFocus) => void }) {
+  const { t, formatMoney } = useI18n();
+  const { weekend, period_end: periodEnd, after_close: afterClose } = dates;
+  const spikes = periodEnd.months.filter(m => m.spike).length;
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      {/* Weekend Postings */}
+      <div>
+        <h4 className="font-semibold text-gray-900 dark:text-white mb-1">{t("analytics.weekend")}</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          {t("analytics.weekendSummary", { count: weekend.count })}{shown(t, weekend.rows.length, weekend.count)}
+        </p>
+        {weekend.rows.length > 0 && (
+          <div className={groupClass}>
+            <FindingRows rows={weekend.rows} flagged={flagged} onFocus={onFocus} showDates />
+          </div>
+        )}
+      </div>
+
+      {/* Period-End Spikes */}
+      <div>
+        <h4 className="font-semibold text-gray-900 dark:text-white mb-1">{t("analytics.periodEnd")}</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          {t("analytics.periodEndSummary", { days: periodEnd.days, spikes, months: periodEnd.months.length })}
+        </p>
+        <div className={groupClass}>
+          <table className="min-w-full text-sm">
+            <thead className="text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-3 py-1 font-medium text-left">{t("analytics.month")}</th>
+                <th className="px-3 py-1 font-medium text-right">{t("analytics.total")}</th>
+                <th className="px-3 py-1 font-medium text-right">{t("analytics.periodEndColumn")}</th>
+                <th className="px-3 py-1 font-medium text-right">{t("analytics.share")}</th>
+                <th className="px-3 py-1 font-medium text-right">{t("analytics.evenSpread")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periodEnd.months.map(month => (
+                <tr
+                  key={month.month}
+                  className={`border-t border-gray-100 dark:border-gray-700 ${month.spike ? "text-red-600 dark:text-red-400 font-medium" : "text-gray-700 dark:text-gray-300"}`}
+                >
+                  <td className="px-3 py-1">{month.month}</td>
+                  <td className="px-3 py-1 text-right">{formatMoney(month.total)}</td>
+                  <td className="px-3 py-1 text-right">{formatMoney(month.period_end_amount)}</td>
+                  <td className="px-3 py-1 text-right">{asShare(month.share)}</td>
+                  <td className="px-3 py-1 text-right">{asShare(month.expected_share)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* After Close */}
+      <div className="lg:col-span-2">
+        <h4 className="font-semibold text-gray-900 dark:text-white mb-1">{t("analytics.afterClose")}</h4>
+        {afterClose ? (
+          <>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              {t("analytics.afterCloseSummary", { count: afterClose.count, date: afterClose.close_date })}
+              {shown(t, afterClose.rows.length, afterClose.count)}
+            </p>
+            {afterClose.rows.length > 0 && (
+              <div className={groupClass}>
+                <FindingRows rows={afterClose.rows} flagged={flagged} onFocus={onFocus} showDates />
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {t("analytics.noCloseDate")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AuditAnalytics({ analytics, anomalies, isDarkMode, onFocus }: AuditAnalyticsProps) {
+  const { t, formatMoney, formatNumber } = useI18n();
+  const flagged = new Set(anomalies.map(a => a.items));
+  const { duplicates, round_numbers: roundNumbers, just_below_threshold: justBelow, dates } = analytics;
+
+  return (
+    <div className="space-y-6">
+      {/* Benford's Law */}
+      <Section
+        icon={<Hash className="w-5 h-5 text-blue-500" />}
+        title={t("analytics.benford")}
+        summary={t("analytics.benfordSummary")}
+      >
+        <BenfordChart benford={analytics.benford} isDarkMode={isDarkMode} />
+      </Section>
+
+      {/* Duplicates */}
+      <Section
+        icon={<Copy className="w-5 h-5 text-blue-500" />}
+        title={t("analytics.duplicates")}
+        summary={t("analytics.duplicatesSummary", {
+          exact: duplicates.exact_groups,
+          near: duplicates.near_groups,
+          tolerance: duplicates.tolerance * 100,
+        })}
+      >
+        {duplicates.exact.length === 0 && duplicates.near.length === 0 ? (
+          <p className="text-gray-600 dark:text-gray-400">{t("analytics.noDuplicates")}</p>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-2">{t("analytics.exact")}</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                {t("analytics.exactHelp")}{shown(t, duplicates.exact.length, duplicates.exact_groups)}
+              </p>
+              <div className="space-y-3">
+                {duplicates.exact.map((group, idx) => (
+                  <div key={idx} className={groupClass}>
+                    <p className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-900">
+                      {formatMoney(group.amount)} × {group.rows.length}
+                    </p>
+                    <FindingRows rows={group.rows} flagged={flagged} onFocus={onFocus} />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-2">{t("analytics.near")}</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                {t("analytics.nearHelp")}{shown(t, duplicates.near.length, duplicates.near_groups)}
+              </p>
+              <div className="space-y-3">
+                {duplicates.near.map((group, idx) => (
+                  <div key={idx} className={groupClass}>
+                    <p className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-900">
+                      {t(group.side === "debit" ? "analytics.nearDebits" : "analytics.nearCredits", {
+                        count: group.rows.length,
+                        amount: formatMoney(group.amount),
+                        spread: formatMoney(group.spread),
+                      })}
+                    </p>
+                    <FindingRows rows={group.rows} flagged={flagged} onFocus={onFocus} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </Section>
+
+      {/* Round Numbers */}
+      <Section
+        icon={<Percent className="w-5 h-5 text-blue-500" />}
+        title={t("analytics.round")}
+        summary={t("analytics.roundSummary", {
+          count: roundNumbers.count,
+          unit: formatNumber(roundNumbers.unit),
+          share: asShare(roundNumbers.share),
+        })}
+      >
+        {roundNumbers.rows.length > 0 ? (
+          <>
+            {roundNumbers.rows.length < roundNumbers.count && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{shown(t, roundNumbers.rows.length, roundNumbers.count).trim()}</p>
+            )}
+            <div className={groupClass}>
+              <FindingRows rows={roundNumbers.rows} flagged={flagged} onFocus={onFocus} />
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-600 dark:text-gray-400">{t("analytics.noRound")}</p>
+        )}
+      </Section>
+
+      {/* Just Below Threshold */}
+      <Section
+        icon={<TrendingDown className="w-5 h-5 text-blue-500" />}
+        title={t("analytics.justBelow")}
+        summary={t("analytics.justBelowSummary")}
+      >
+        <div className="grid lg:grid-cols-2 gap-6">
+          {justBelow.map(finding => (
+            <div key={finding.threshold}>
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-1">
+                {t(THRESHOLD_LABELS[finding.threshold])} ({formatMoney(finding.value)})
+              </h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                {t("analytics.between", { count: finding.count, lower: formatMoney(finding.lower), upper: formatMoney(finding.value) })}
+                {shown(t, finding.rows.length, finding.count)}
+              </p>
+              {finding.rows.length > 0 && (
+                <div className={groupClass}>
+                  <FindingRows rows={finding.rows} flagged={flagged} onFocus={onFocus} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      {/* Posting Dates */}
+      {dates && (
+        <Section
+          icon={<CalendarDays className="w-5 h-5 text-blue-500" />}
+          title={t("analytics.dates")}
+          summary={t("analytics.datesSummary", { lines: formatNumber(dates.lines), start: dates.start, end: dates.end })}
+        >
+          <DateFindings dates={dates} flagged={flagged} onFocus={onFocus} />
+        </Section>
+      )}
+    </div>
+  );
+}
+
+export default AuditAnalytics;
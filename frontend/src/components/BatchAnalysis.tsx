@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Ban, CheckCircle, Circle, FolderOpen, Layers, Loader2, XCircle } from "lucide-react";
+import { BATCH_CONCURRENCY, summarizeGroup, type BatchItem, type BatchStatus } from "../lib/batch";
+import type { RunRecord } from "../lib/history";
+import { useI18n } from "../lib/i18n";
+import { calculateMetrics } from "../lib/metrics";
+import { loadReviews, saveReviews, type ReviewEntry, type ReviewMap } from "../lib/review";
+import type { MessageKey } from "../locales/en";
+import AnomalyExplorer from "./AnomalyExplorer";
+import ReviewProgress from "./ReviewProgress";
+import RiskBreakdown from "./RiskBreakdown";
+
+interface BatchAnalysisProps {
+  // The queue, updated by the app as each file is analysed
+  items: BatchItem[];
+  // Stop the files still waiting; those already sent finish as cancelled
+  onCancel: () => void;
+  // Open one entity in the full single-file dashboard
+  onOpen: (run: RunRecord) => void;
+  onClose: () => void;
+}
+
+const GROUP_TAB = "group";
+
+const STATUS_LABELS: Record<BatchStatus, MessageKey> = {
+  queued: "batch.queued",
+  uploading: "batch.analysing",
+  done: "batch.done",
+  failed: "batch.failed",
+  cancelled: "batch.cancelled",
+};
+
+function StatusIcon({ status }: { status: BatchStatus }) {
+  switch (status) {
+    case "queued":
+      return <Circle className="w-5 h-5 text-gray-300 dark:text-gray-600" />;
+    case "uploading":
+      return <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />;
+    case "done":
+      return <CheckCircle className="w-5 h-5 text-green-500" />;
+    case "failed":
+      return <XCircle className="w-5 h-5 text-red-500" />;
+    case "cancelled":
+      return <Ban className="w-5 h-5 text-gray-400" />;
+  }
+}
+
+function BatchAnalysis({ items, onCancel, onOpen, onClose }: BatchAnalysisProps) {
+  const { t, formatMoney } = useI18n();
+  const [activeTab, setActiveTab] = useState(GROUP_TAB);
+  const [reviews, setReviews] = useState<ReviewMap>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const active = items.find(item => item.id === activeTab && item.result) ?? null;
+  const activeHash = active?.fileHash ?? null;
+
+  // Reviews are stored per file, the same way as in the single-file dashboard
+  useEffect(() => {
+    if (!activeHash) {
+      setReviews({});
+      return;
+    }
+    let cancelled = false;
+    loadReviews(activeHash)
+      .then(entries => {
+        if (!cancelled) setReviews(entries);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t("review.loadFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeHash, t]);
+
+  const handleReviewChange = (items: string, entry: ReviewEntry) => {
+    if (!activeHash) return;
+    const next = { ...reviews, [items]: entry };
+    setReviews(next);
+    saveReviews(activeHash, next).catch(err => setError(err instanceof Error ? err.message : t("review.saveFailed")));
+  };
+
+  const handleOpen = (item: BatchItem) => {
+    if (!item.result || !item.fileHash) return;
+    onOpen({
+      id: item.id,
+      fileName: item.file.name,
+      fileHash: item.fileHash,
+      createdAt: new Date().toISOString(),
+      result: item.result,
+      rows: item.rows,
+    });
+  };
+
+  const finished = items.filter(item => item.status !== "queued" && item.status !== "uploading").length;
+  const isRunning = finished < items.length;
+  const group = summarizeGroup(items);
+  const completed = items.filter(item => item.result);
+
+  const tabClass = (tab: string) =>
+    `pb-3 px-1 border-b-2 font-medium transition whitespace-nowrap ${
+      activeTab === tab
+        ? "border-blue-600 text-blue-600 dark:text-blue-400"
+        : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+    }`;
+
+  return (
+    <div className="space-y-6">
+      {/* Queue */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <Layers className="w-5 h-5 text-blue-500" />
+              {t("batch.title")}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {t("batch.progress", { finished, total: items.length, concurrency: BATCH_CONCURRENCY })}
+            </p>
+          </div>
+          {isRunning ? (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+            >
+              {t("batch.cancelRemaining")}
+            </button>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg font-medium hover:bg-gray-700 transition"
+            >
+              {t("batch.uploadNew")}
+            </button>
+          )}
+        </div>
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center gap-4 px-6 py-3">
+              <StatusIcon status={item.status} />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white truncate">{item.file.name}</p>
+                {item.error && <p className="text-sm text-red-600 dark:text-red-400">{item.error}</p>}
+              </div>
+              <span className="text-sm text-gray-600 dark:text-gray-400">{t(STATUS_LABELS[item.status])}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg border border-red-200 dark:border-red-800">
+          <strong>{t("common.error")}:</strong> {error}
+        </div>
+      )}
+
+      {completed.length > 0 && (
+        <>
+          {/* Tabs */}
+          <div className="border-b border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <div className="flex gap-8">
+              <button onClick={() => setActiveTab(GROUP_TAB)} className={tabClass(GROUP_TAB)}>
+                {t("batch.groupSummary")}
+              </button>
+              {completed.map(item => (
+                <button key={item.id} onClick={() => setActiveTab(item.id)} className={tabClass(item.id)}>
+                  {item.entity}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!active ? (
+            // Group Summary
+            <div className="space-y-6">
+              <div className="grid md:grid-cols-4 gap-6">
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("batch.groupDebits")}</p>
+                  <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">{formatMoney(group.totalDebit)}</p>
+                </div>
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("batch.groupCredits")}</p>
+                  <p className="text-2xl font-bold text-blue-600 dark:text-blue-400 mt-1">{formatMoney(group.totalCredit)}</p>
+                </div>
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("batch.balancedEntities")}</p>
+                  <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400 mt-1">
+                    {group.balancedCount} / {group.entities.length}
+                  </p>
+                </div>
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("overview.anomaliesFound")}</p>
+                  <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-1">{group.anomalyCount}</p>
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="px-6 py-3 font-medium">{t("batch.entity")}</th>
+                      <th className="px-6 py-3 font-medium text-right">{t("batch.debits")}</th>
+                      <th className="px-6 py-3 font-medium text-right">{t("batch.credits")}</th>
+                      <th className="px-6 py-3 font-medium text-right">{t("batch.difference")}</th>
+                      <th className="px-6 py-3 font-medium">{t("batch.balance")}</th>
+                      <th className="px-6 py-3 font-medium text-right">{t("charts.anomalies")}</th>
+                      <th className="px-6 py-3 font-medium text-right">{t("risk.title")}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {group.entities.map(entity => (
+                      <tr key={entity.id} className="text-gray-700 dark:text-gray-300">
+                        <td className="px-6 py-3">
+                          <button
+                            onClick={() => setActiveTab(entity.id)}
+                            className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            {entity.entity}
+                          </button>
+                        </td>
+                        <td className="px-6 py-3 text-right">{formatMoney(entity.totalDebit)}</td>
+                        <td className="px-6 py-3 text-right">{formatMoney(entity.totalCredit)}</td>
+                        <td className="px-6 py-3 text-right">{formatMoney(entity.difference)}</td>
+                        <td className="px-6 py-3">
+                          {entity.isBalanced ? (
+                            <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+                              <CheckCircle className="w-4 h-4" /> {t("batch.balanced")}
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                              <AlertTriangle className="w-4 h-4" /> {t("batch.unbalanced")}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-right">{entity.anomalies}</td>
+                        <td className="px-6 py-3 text-right">{entity.riskScore}/100</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : (
+            // Entity Tab
+            <EntityPanel item={active} reviews={reviews} onReviewChange={handleReviewChange} onOpen={() => handleOpen(active)} />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface EntityPanelProps {
+  item: BatchItem;
+  reviews: ReviewMap;
+  onReviewChange: (items: string, entry: ReviewEntry) => void;
+  onOpen: () => void;
+}
+
+function EntityPanel({ item, reviews, onReviewChange, onOpen }: EntityPanelProps) {
+  const { t } = useI18n();
+  if (!item.result) return null;
+  const result = item.result;
+  const metrics = calculateMetrics(result, item.rows);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            {result.is_balanced ? (
+              <CheckCircle className="w-5 h-5 text-green-500" />
+            ) : (
+              <AlertTriangle className="w-5 h-5 text-red-500" />
+            )}
+            {item.entity}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {result.balance_status} · {t("batch.entitySummary", { variance: metrics.variance, risk: metrics.riskScore })}
+          </p>
+        </div>
+        <button
+          onClick={onOpen}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+        >
+          <FolderOpen className="w-4 h-4" />
+          {t("batch.openDashboard")}
+        </button>
+      </div>
+
+      <RiskBreakdown score={metrics.riskScore} factors={metrics.riskFactors} />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        {result.anomalies.length > 0 ? (
+          <>
+            <ReviewProgress anomalies={result.anomalies} reviews={reviews} />
+            <AnomalyExplorer
+              anomalies={result.anomalies}
+              detection={result.detection}
+              reviews={reviews}
+              onReviewChange={onReviewChange}
+            />
+          </>
+        ) : (
+          <p className="text-gray-600 dark:text-gray-400">{t("anomalies.none")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BatchAnalysis;
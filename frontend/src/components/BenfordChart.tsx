@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  BENFORD_MIN_SAMPLE,
+  BENFORD_TESTS,
+  CONFORMITY_STYLES,
+  largestDeviations,
+  type BenfordTestId,
+} from "../lib/analytics";
+import { useI18n } from "../lib/i18n";
+import type { Analytics } from "../types";
+import ChartDataTable from "./ChartDataTable";
+
+interface BenfordChartProps {
+  benford: Analytics["benford"];
+  isDarkMode: boolean;
+}
+
+const asPercent = (share: number) => Number((share * 100).toFixed(2));
+
+function BenfordChart({ benford, isDarkMode }: BenfordChartProps) {
+  const { t, formatNumber } = useI18n();
+  const [testId, setTestId] = useState<BenfordTestId>("first_digit");
+  const test = benford[testId];
+  const conformity = CONFORMITY_STYLES[test.conformity];
+  const data = test.digits.map(d => ({ ...d, observedPct: asPercent(d.observed), expectedPct: asPercent(d.expected) }));
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div className="flex gap-2">
+          {BENFORD_TESTS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setTestId(option.id)}
+              aria-pressed={testId === option.id}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition ${
+                testId === option.id
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-xs ${conformity.className}`}>{t(conformity.label)}</span>
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t("benford.tested")}</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">{formatNumber(test.sample_size)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t("benford.mad")}</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">{test.mad.toFixed(4)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t("benford.chiSquare")}</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">
+            {formatNumber(test.chi_square)} <span className="text-gray-500 dark:text-gray-400">(df {test.degrees_of_freedom})</span>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t("benford.largest")}</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">
+            {largestDeviations(test).map(d => d.digit).join(", ")}
+          </dd>
+        </div>
+      </dl>
+
+      {test.sample_size < BENFORD_MIN_SAMPLE && (
+        <p className="mb-4 text-sm text-yellow-700 dark:text-yellow-400">
+          {t("benford.smallSample", { count: test.sample_size, min: BENFORD_MIN_SAMPLE })}
+        </p>
+      )}
+
+      <div className="h-72 bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="digit" stroke="#9ca3af" interval={testId === "first_digit" ? 0 : 9} />
+            <YAxis tickFormatter={v => `${v}%`} stroke="#9ca3af" />
+            <Tooltip
+              formatter={(value: number) => `${value}%`}
+              labelFormatter={label => t(testId === "first_digit" ? "benford.leadingDigit" : "benford.leadingDigits", { digits: label })}
+              contentStyle={{
+                backgroundColor: isDarkMode ? "#1f2937" : "#ffffff",
+                border: "1px solid #374151",
+                borderRadius: "8px",
+              }}
+            />
+            <Legend />
+            <Bar dataKey="observedPct" name={t("benford.observed")} fill="#3b82f6" />
+            <Line dataKey="expectedPct" name={t("benford.expected")} stroke="#ef4444" dot={testId === "first_digit"} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <ChartDataTable
+        caption={t(`benford.${testId}`)}
+        columns={[
+          { label: t("benford.digits") },
+          { label: t("benford.observed"), numeric: true },
+          { label: t("benford.expected"), numeric: true },
+          { label: t("benford.count"), numeric: true },
+        ]}
+        rows={data.map(d => [d.digit, `${d.observedPct}%`, `${d.expectedPct}%`, formatNumber(d.count)])}
+      />
+    </div>
+  );
+}
+
+export default BenfordChart;
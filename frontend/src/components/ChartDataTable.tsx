@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { useI18n } from "../lib/i18n";
+
+interface ChartDataTableProps {
+  caption: string;
+  columns: { label: string; numeric?: boolean }[];
+  // The first cell of each row names it, e.g. the account or amount range
+  rows: React.ReactNode[][];
+}
+
+// The numbers behind a chart as a table, for screen readers and keyboard users. Rows are only
+// rendered once it is opened, since the scatter can hold thousands of points.
+function ChartDataTable({ caption, columns, rows }: ChartDataTableProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <details className="mt-3 text-sm" onToggle={e => setIsOpen(e.currentTarget.open)}>
+      <summary className="cursor-pointer text-blue-600 dark:text-blue-400 hover:underline">
+        {t("charts.showTable")}
+      </summary>
+      {isOpen && (
+        <div className="mt-2 max-h-64 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="min-w-full text-xs">
+            <caption className="sr-only">{caption}</caption>
+            <thead className="bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+              <tr>
+                {columns.map(column => (
+                  <th key={column.label} scope="col" className={`px-3 py-2 font-medium ${column.numeric ? "text-right" : "text-left"}`}>
+                    {column.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-gray-700 dark:text-gray-300">
+              {rows.map((row, idx) => (
+                <tr key={idx} className="border-t border-gray-200 dark:border-gray-700">
+                  {row.map((cell, col) =>
+                    col === 0 ? (
+                      <th key={col} scope="row" className="px-3 py-1.5 font-normal text-left">{cell}</th>
+                    ) : (
+                      <td key={col} className={`px-3 py-1.5 ${columns[col]?.numeric ? "text-right" : "text-left"}`}>{cell}</td>
+                    )
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+}
+
+export default ChartDataTable;
@@ -0,0 +1,322 @@
+import { useMemo, useState } from "react";
+import { Columns, Save, Trash2, Upload, X } from "lucide-react";
+import {
+  buildNormalizedFile,
+  deletePreset,
+  groupByAccount,
+  guessMapping,
+  loadPresets,
+  normalizeRows,
+  savePreset,
+  toTable,
+  validateMapping,
+  type ColumnMapping,
+  type LedgerLine,
+  type MappingPreset,
+  type SheetGrid,
+} from "../lib/csvMapping";
+import { describeError, useI18n } from "../lib/i18n";
+
+interface ColumnMapperProps {
+  fileName: string;
+  sheets: SheetGrid[];
+  initialMapping: ColumnMapping;
+  onConfirm: (file: File, rows: LedgerLine[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const selectClass =
+  "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+function ColumnMapper({ fileName, sheets, initialMapping, onConfirm, onCancel }: ColumnMapperProps) {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [presets, setPresets] = useState<MappingPreset[]>(() => loadPresets());
+  const [presetName, setPresetName] = useState("");
+  const { t, formatNumber, locale } = useI18n();
+
+  const { grid } = sheets[sheetIndex];
+  const isJournal = !!mapping.date;
+  const table = useMemo(() => toTable(grid, mapping.headerRow), [grid, mapping.headerRow]);
+
+  // Validate the mapping and try a full normalization so bad amounts show up before upload
+  const { error, normalized } = useMemo(() => {
+    const invalid = validateMapping(mapping, table);
+    if (invalid) return { error: t(invalid), normalized: [] };
+    try {
+      return { error: null, normalized: normalizeRows(mapping, table, locale) };
+    } catch (err) {
+      return { error: describeError(err, t, "mapper.invalidAmounts"), normalized: [] };
+    }
+  }, [mapping, table, t, locale]);
+
+  // Another sheet has its own layout, so the columns are guessed again
+  const handleSheetChange = (index: number) => {
+    setSheetIndex(index);
+    setMapping(guessMapping(sheets[index].grid));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(buildNormalizedFile(normalized, fileName), normalized);
+  };
+
+  const update = (changes: Partial<ColumnMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(savePreset({ name, mapping }));
+    setPresetName("");
+  };
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset) setMapping(preset.mapping);
+  };
+
+  const columnSelect = (
+    label: string,
+    value: string,
+    key: "items" | "debit" | "credit" | "amount" | "date" | "reference",
+    emptyLabel = t("mapper.selectColumn"),
+  ) => (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</span>
+      <select value={value} onChange={e => update({ [key]: e.target.value })} className={selectClass}>
+        <option value="">{emptyLabel}</option>
+        {table.headers.map(header => (
+          <option key={header} value={header}>{header}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 text-left">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Columns className="w-5 h-5 text-blue-500" />
+            {t("mapper.title")}
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {fileName} · {t("mapper.intro", { rows: table.rows.length })}
+          </p>
+        </div>
+        <button onClick={onCancel} className="text-gray-400 hover:text-red-500 transition">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Presets */}
+        <div className="flex flex-wrap items-end gap-3">
+          {presets.length > 0 && (
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t("mapper.savedPresets")}</span>
+              <select defaultValue="" onChange={e => handleApplyPreset(e.target.value)} className={selectClass}>
+                <option value="" disabled>{t("mapper.applyPreset")}</option>
+                {presets.map(p => (
+                  <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t("mapper.saveAsPreset")}</span>
+            <div className="flex gap-2">
+              <input
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                placeholder={t("mapper.presetPlaceholder")}
+                className={selectClass}
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {t("common.save")}
+              </button>
+            </div>
+          </label>
+          {presets.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {presets.map(p => (
+                <span key={p.name} className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+                  {p.name}
+                  <button onClick={() => setPresets(deletePreset(p.name))} className="hover:text-red-500">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Mapping */}
+        <div className="grid md:grid-cols-4 gap-4">
+          {sheets.length > 1 && (
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t("mapper.sheet")}</span>
+              <select value={sheetIndex} onChange={e => handleSheetChange(Number(e.target.value))} className={selectClass}>
+                {sheets.map((sheet, idx) => (
+                  <option key={sheet.name} value={idx}>{sheet.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t("mapper.headerRow")}</span>
+            <select
+              value={mapping.headerRow}
+              onChange={e => update({ headerRow: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {grid.slice(0, 10).map((row, idx) => (
+                <option key={idx} value={idx}>{t("mapper.row", { row: idx + 1 })}: {row.slice(0, 3).join(", ")}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t("mapper.amountLayout")}</span>
+            <select
+              value={mapping.mode}
+              onChange={e => update({ mode: e.target.value as ColumnMapping["mode"] })}
+              className={selectClass}
+            >
+              <option value="split">{t("mapper.split")}</option>
+              <option value="signed">{t("mapper.signed")}</option>
+            </select>
+          </label>
+          {columnSelect(t("mapper.items"), mapping.items, "items")}
+          {mapping.mode === "split" ? (
+            <>
+              {columnSelect(t("common.debit"), mapping.debit, "debit")}
+              {columnSelect(t("common.credit"), mapping.credit, "credit")}
+            </>
+          ) : (
+            <>
+              {columnSelect(t("common.amount"), mapping.amount, "amount")}
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t("mapper.positiveIs")}</span>
+                <select
+                  value={mapping.positiveIs}
+                  onChange={e => update({ positiveIs: e.target.value as ColumnMapping["positiveIs"] })}
+                  className={selectClass}
+                >
+                  <option value="debit">{t("mapper.debits")}</option>
+                  <option value="credit">{t("mapper.credits")}</option>
+                </select>
+              </label>
+            </>
+          )}
+          {columnSelect(t("mapper.date"), mapping.date, "date", t("mapper.noDate"))}
+          {isJournal && columnSelect(t("common.reference"), mapping.reference, "reference", t("common.none"))}
+        </div>
+
+        {/* Preview */}
+        <div className="grid lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{t("mapper.sourcePreview")}</h3>
+            <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    {table.headers.map(header => (
+                      <th key={header} className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                    <tr key={idx} className="border-t border-gray-100 dark:border-gray-700">
+                      {table.headers.map((header, col) => (
+                        <td key={header} className="px-3 py-1.5 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                          {row[col]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+              {t("mapper.normalizedPreview")}
+              {isJournal && !error && (
+                <span className="font-normal text-gray-500 dark:text-gray-400">
+                  {" "}· {t("mapper.journalSummary", { lines: normalized.length, accounts: groupByAccount(normalized).length })}
+                </span>
+              )}
+            </h3>
+            {error ? (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg border border-red-200 dark:border-red-800 text-sm">
+                {error}
+              </div>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400">items</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-600 dark:text-gray-400">debit</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-600 dark:text-gray-400">credit</th>
+                      {isJournal && (
+                        <>
+                          <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400">date</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400">reference</th>
+                        </>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {normalized.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                      <tr key={idx} className="border-t border-gray-100 dark:border-gray-700">
+                        <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">{row.items}</td>
+                        <td className="px-3 py-1.5 text-right text-gray-700 dark:text-gray-300">{formatNumber(row.debit)}</td>
+                        <td className="px-3 py-1.5 text-right text-gray-700 dark:text-gray-300">{formatNumber(row.credit)}</td>
+                        {isJournal && (
+                          <>
+                            <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300 whitespace-nowrap">{row.date}</td>
+                            <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">{row.reference}</td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+        >
+          {t("common.cancel")}
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={!!error}
+          className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          <Upload className="w-5 h-5" />
+          {t("mapper.analyze", { rows: normalized.length })}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ColumnMapper;
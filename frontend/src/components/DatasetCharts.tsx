@@ -0,0 +1,360 @@
+import { useState, type Ref } from "react";
+import {
+  Bar,
+  BarChart,
+  Brush,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { BarChart3, RotateCcw, ZoomIn, ZoomOut } from "lucide-react";
+import type { AnomalyFocus } from "../lib/anomalies";
+import { useI18n } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+import type { Dataset, Detection } from "../types";
+import ChartDataTable from "./ChartDataTable";
+
+interface DatasetChartsProps {
+  dataset: Dataset;
+  detection: Detection;
+  isDarkMode: boolean;
+  onFocus: (focus: AnomalyFocus) => void;
+  onOpenAccount: (items: string) => void;
+  // The all-rows scatter, captured as an image for the PDF report
+  exportRef?: Ref<HTMLDivElement>;
+}
+
+const KIND_LABELS: Record<Dataset["composition"][number]["kind"], MessageKey> = {
+  debit_only: "charts.debitOnly",
+  credit_only: "charts.creditOnly",
+  mixed: "charts.mixed",
+};
+
+const MAX_ZOOM = 64;
+
+const linkClass = "text-left text-blue-600 dark:text-blue-400 hover:underline";
+
+interface ChartCardProps {
+  title: string;
+  hint: string;
+  actions?: React.ReactNode;
+  // The chart's data as a table, shown below it on request
+  table: React.ReactNode;
+  children: React.ReactNode;
+}
+
+function ChartCard({ title, hint, actions, table, children }: ChartCardProps) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+      <div className="flex justify-between items-start gap-3 mb-3">
+        <div>
+          <h4 className="font-semibold text-gray-900 dark:text-white">{title}</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+        </div>
+        {actions}
+      </div>
+      <div className="h-72">{children}</div>
+      {table}
+    </div>
+  );
+}
+
+function DatasetCharts({ dataset, detection, isDarkMode, onFocus, onOpenAccount, exportRef }: DatasetChartsProps) {
+  const [zoom, setZoom] = useState(1);
+  const { t, formatMoney, formatMoneyCompact, formatNumber } = useI18n();
+  const cumulativeName = t("charts.cumulativeShare");
+
+  const tooltipStyle = {
+    backgroundColor: isDarkMode ? "#1f2937" : "#ffffff",
+    border: "1px solid #374151",
+    borderRadius: "8px",
+  };
+
+  const histogram = dataset.histogram.map(bin => ({
+    ...bin,
+    label: `${formatMoneyCompact(bin.start)}–${formatMoneyCompact(bin.end)}`,
+    normal: bin.count - bin.anomalies,
+  }));
+  const thresholdBin = histogram.find(bin => detection.amount_threshold >= bin.start && detection.amount_threshold < bin.end);
+
+  const pareto = dataset.top_accounts.map(account => ({ ...account, cumulative: account.cumulative_share * 100 }));
+
+  const composition = dataset.composition.map(c => ({ ...c, label: t(KIND_LABELS[c.kind]) }));
+
+  const normalPoints = dataset.points.filter(p => !p.is_anomaly);
+  const anomalyPoints = dataset.points.filter(p => p.is_anomaly);
+  // Zooming narrows both axes towards zero, where most ledger lines sit
+  const maxDebit = Math.max(1, ...dataset.points.map(p => p.debit));
+  const maxCredit = Math.max(1, ...dataset.points.map(p => p.credit));
+
+  const openAccountButton = (items: string) => (
+    <button onClick={() => onOpenAccount(items)} className={linkClass}>{items}</button>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-blue-500" />
+          {t("charts.title")}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {t("charts.help")}
+        </p>
+      </div>
+
+      <div className="p-6 grid lg:grid-cols-2 gap-6">
+        {/* Amount Distribution */}
+        <ChartCard
+          title={t("charts.distribution")}
+          hint={t("charts.distributionHint", { amount: formatMoney(detection.amount_threshold) })}
+          table={
+            <ChartDataTable
+              caption={t("charts.distribution")}
+              columns={[{ label: t("charts.range") }, { label: t("charts.lines"), numeric: true }, { label: t("charts.anomalies"), numeric: true }]}
+              rows={histogram.map(bin => [
+                bin.label,
+                formatNumber(bin.normal),
+                bin.anomalies > 0 ? (
+                  <button
+                    onClick={() => onFocus({ kind: "range", min: bin.start, max: bin.end })}
+                    className={linkClass}
+                    aria-label={t("charts.showAnomalies", { count: bin.anomalies, range: bin.label })}
+                  >
+                    {formatNumber(bin.anomalies)}
+                  </button>
+                ) : (
+                  "0"
+                ),
+              ])}
+            />
+          }
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="label" stroke="#9ca3af" tick={{ fontSize: 11 }} />
+              <YAxis allowDecimals={false} stroke="#9ca3af" />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Legend />
+              <Bar dataKey="normal" name={t("charts.lines")} stackId="lines" fill="#3b82f6" />
+              <Bar
+                dataKey="anomalies"
+                name={t("charts.anomalies")}
+                stackId="lines"
+                fill="#ef4444"
+                cursor="pointer"
+                // The clicked entry's own data; the index is into the brushed slice, not the full list
+                onClick={entry => {
+                  const bin = entry.payload as (typeof histogram)[number] | undefined;
+                  if (bin?.anomalies) onFocus({ kind: "range", min: bin.start, max: bin.end });
+                }}
+              />
+              {thresholdBin && (
+                <ReferenceLine x={thresholdBin.label} stroke="#ef4444" strokeDasharray="4 4" label={{ value: t("charts.threshold"), fill: "#ef4444", fontSize: 11 }} />
+              )}
+              {histogram.length > 8 && <Brush dataKey="label" height={20} stroke="#3b82f6" />}
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        {/* Pareto of Top Accounts */}
+        <ChartCard
+          title={t("charts.pareto", { count: pareto.length })}
+          hint={t("charts.paretoHint")}
+          table={
+            <ChartDataTable
+              caption={t("charts.pareto", { count: pareto.length })}
+              columns={[
+                { label: t("explorer.account") },
+                { label: t("charts.absoluteBalance"), numeric: true },
+                { label: cumulativeName, numeric: true },
+              ]}
+              rows={pareto.map(account => [
+                openAccountButton(account.items),
+                formatMoney(account.value),
+                `${account.cumulative.toFixed(1)}%`,
+              ])}
+            />
+          }
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={pareto}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="items" stroke="#9ca3af" tick={{ fontSize: 11 }} interval={0} angle={-30} textAnchor="end" height={60} />
+              <YAxis yAxisId="value" tickFormatter={formatMoneyCompact} stroke="#9ca3af" />
+              <YAxis yAxisId="share" orientation="right" domain={[0, 100]} tickFormatter={v => `${v}%`} stroke="#9ca3af" />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => (name === cumulativeName ? `${value.toFixed(1)}%` : formatMoney(value))}
+              />
+              <Bar
+                yAxisId="value"
+                dataKey="value"
+                name={t("charts.absoluteBalance")}
+                cursor="pointer"
+                onClick={entry => {
+                  const account = entry.payload as (typeof pareto)[number] | undefined;
+                  if (account) onOpenAccount(account.items);
+                }}
+              >
+                {pareto.map(account => (
+                  <Cell key={account.items} fill={account.is_anomaly ? "#ef4444" : "#3b82f6"} />
+                ))}
+              </Bar>
+              <Line yAxisId="share" dataKey="cumulative" name={cumulativeName} stroke="#f59e0b" dot={false} />
+              {pareto.length > 10 && <Brush dataKey="items" height={20} stroke="#3b82f6" />}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        {/* Debit vs Credit Composition */}
+        <ChartCard
+          title={t("charts.composition")}
+          hint={t("charts.compositionHint")}
+          table={
+            <ChartDataTable
+              caption={t("charts.composition")}
+              columns={[
+                { label: t("charts.kind") },
+                { label: t("common.debit"), numeric: true },
+                { label: t("common.credit"), numeric: true },
+                { label: t("charts.lines"), numeric: true },
+              ]}
+              rows={composition.map(c => [c.label, formatMoney(c.debit), formatMoney(c.credit), formatNumber(c.lines)])}
+            />
+          }
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={composition}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="label" stroke="#9ca3af" />
+              <YAxis tickFormatter={formatMoneyCompact} stroke="#9ca3af" />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number) => formatMoney(value)}
+                labelFormatter={(label, payload) => `${label} (${t("charts.lineCount", { count: payload?.[0]?.payload?.lines ?? 0 })})`}
+              />
+              <Legend />
+              <Bar dataKey="debit" name={t("common.debit")} fill="#22c55e" />
+              <Bar dataKey="credit" name={t("common.credit")} fill="#3b82f6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        {/* All Rows Scatter */}
+        <ChartCard
+          title={t("charts.scatter")}
+          hint={dataset.points_sampled ? t("charts.scatterSampled") : t("charts.scatterHint")}
+          table={
+            <ChartDataTable
+              caption={t("charts.scatter")}
+              columns={[
+                { label: t("explorer.account") },
+                { label: t("common.debit"), numeric: true },
+                { label: t("common.credit"), numeric: true },
+                { label: t("account.flag") },
+              ]}
+              rows={dataset.points.map(point => [
+                openAccountButton(point.items),
+                formatMoney(point.debit),
+                formatMoney(point.credit),
+                point.is_anomaly ? t("account.flagged") : "",
+              ])}
+            />
+          }
+          actions={
+            <div className="flex gap-1">
+              <button
+                onClick={() => setZoom(Math.min(zoom * 2, MAX_ZOOM))}
+                disabled={zoom >= MAX_ZOOM}
+                className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+                aria-label={t("charts.zoomIn")}
+              >
+                <ZoomIn className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setZoom(Math.max(zoom / 2, 1))}
+                disabled={zoom <= 1}
+                className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+                aria-label={t("charts.zoomOut")}
+              >
+                <ZoomOut className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setZoom(1)}
+                disabled={zoom === 1}
+                className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+                aria-label={t("charts.resetZoom")}
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            </div>
+          }
+        >
+          <div ref={exportRef} className="h-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis
+                  dataKey="debit"
+                  name={t("common.debit")}
+                  type="number"
+                  domain={[0, maxDebit / zoom]}
+                  allowDataOverflow
+                  tickFormatter={formatMoneyCompact}
+                  stroke="#9ca3af"
+                />
+                <YAxis
+                  dataKey="credit"
+                  name={t("common.credit")}
+                  type="number"
+                  domain={[0, maxCredit / zoom]}
+                  allowDataOverflow
+                  tickFormatter={formatMoneyCompact}
+                  stroke="#9ca3af"
+                />
+                <Tooltip formatter={(value: number) => formatMoney(value)} contentStyle={tooltipStyle} />
+                <Legend />
+                <Scatter
+                  name={t("charts.rows")}
+                  data={normalPoints}
+                  fill="#9ca3af"
+                  fillOpacity={0.6}
+                  cursor="pointer"
+                  isAnimationActive={false}
+                  onClick={entry => {
+                    const point = entry.payload as Dataset["points"][number] | undefined;
+                    if (point) onOpenAccount(point.items);
+                  }}
+                />
+                <Scatter
+                  name={t("charts.anomalies")}
+                  data={anomalyPoints}
+                  fill="#ef4444"
+                  cursor="pointer"
+                  isAnimationActive={false}
+                  onClick={entry => {
+                    const point = entry.payload as Dataset["points"][number] | undefined;
+                    if (point) onOpenAccount(point.items);
+                  }}
+                />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
+
+export default DatasetCharts;
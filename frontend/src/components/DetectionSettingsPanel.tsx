@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, RefreshCw, SlidersHorizontal } from "lucide-react";
+import {
+  DETECTION_PRESETS,
+  applyPreset,
+  matchPreset,
+  validateDetectionSettings,
+  type DetectionSettings,
+} from "../lib/detectionSettings";
+import { useI18n } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+
+interface DetectionSettingsPanelProps {
+  settings: DetectionSettings;
+  onChange: (settings: DetectionSettings) => void;
+  // Only passed when there is a file that can be analysed again
+  onRerun?: () => void;
+  isLoading?: boolean;
+  // The settings page shows the fields straight away
+  defaultOpen?: boolean;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm";
+
+function DetectionSettingsPanel({ settings, onChange, onRerun, isLoading, defaultOpen = false }: DetectionSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const { t, currency } = useI18n();
+  const activePreset = matchPreset(settings);
+  const error = validateDetectionSettings(settings);
+
+  const update = (changes: Partial<DetectionSettings>) => onChange({ ...settings, ...changes });
+
+  const numberField = (label: string, hint: string, value: number, onValue: (value: number) => void, step = 1) => (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">{label}</span>
+      <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{hint}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={e => onValue(Number(e.target.value))}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center p-4"
+      >
+        <span className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+          <SlidersHorizontal className="w-5 h-5 text-blue-500" />
+          {t("detection.title")}
+          <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+            · {t(activePreset ? `preset.${activePreset.id}` as MessageKey : "preset.custom")}
+          </span>
+        </span>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 pt-0 space-y-4">
+          {/* Presets */}
+          <div className="grid sm:grid-cols-3 gap-3">
+            {DETECTION_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => onChange(applyPreset(settings, preset))}
+                className={`p-3 rounded-lg border-2 text-left transition ${
+                  activePreset?.id === preset.id
+                    ? "border-blue-600 bg-blue-50 dark:bg-blue-900/20"
+                    : "border-gray-200 dark:border-gray-700 hover:border-blue-400"
+                }`}
+              >
+                <span className="block font-medium text-gray-900 dark:text-white">{t(`preset.${preset.id}` as MessageKey)}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{t(`preset.${preset.id}.description` as MessageKey)}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Parameters */}
+          <div className="grid sm:grid-cols-2 gap-4">
+            {numberField(t("detection.amountFloor", { currency }), t("detection.amountFloorHint"), settings.amountFloor, v => update({ amountFloor: v }), 100)}
+            {numberField(t("detection.amountPercentile"), t("detection.amountPercentileHint"), settings.amountPercentile, v => update({ amountPercentile: v }))}
+            {numberField(t("detection.imbalance", { currency }), t("detection.imbalanceHint"), settings.imbalanceThreshold, v => update({ imbalanceThreshold: v }), 100)}
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t("detection.contamination")}</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t("detection.contaminationHint")}</span>
+              <input
+                type="number"
+                min={0}
+                max={0.5}
+                step={0.01}
+                value={settings.contamination ?? ""}
+                onChange={e => update({ contamination: e.target.value === "" ? null : Number(e.target.value) })}
+                placeholder={t("detection.automatic")}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t("detection.closeDate")}</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t("detection.closeDateHint")}</span>
+              <input
+                type="date"
+                value={settings.closeDate ?? ""}
+                onChange={e => update({ closeDate: e.target.value || null })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{t(error)}</p>
+          )}
+
+          {onRerun && (
+            <div className="flex justify-end">
+              <button
+                onClick={onRerun}
+                disabled={!!error || isLoading}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+                {t("detection.rerun")}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DetectionSettingsPanel;
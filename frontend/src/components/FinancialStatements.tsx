@@ -0,0 +1,269 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp, FileSpreadsheet, RotateCcw, Scale } from "lucide-react";
+import {
+  CATEGORIES,
+  accountKey,
+  buildStatements,
+  classifyAccounts,
+  classifyByKeywords,
+  computeRatios,
+  formatRatio,
+  loadAccountMapping,
+  saveAccountMapping,
+  type AccountCategory,
+  type AccountMapping,
+  type ClassifiedAccount,
+  type StatementSection,
+} from "../lib/classification";
+import { useI18n } from "../lib/i18n";
+import type { LedgerRow } from "../types";
+
+interface FinancialStatementsProps {
+  accounts: LedgerRow[];
+}
+
+const selectClass =
+  "px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm";
+
+function SectionRows({ section }: { section: StatementSection }) {
+  const { t, formatMoney } = useI18n();
+  const label = t(section.label);
+  return (
+    <>
+      <tr className="bg-gray-50 dark:bg-gray-900">
+        <td colSpan={2} className="px-4 py-2 font-medium text-gray-900 dark:text-white">{label}</td>
+      </tr>
+      {section.accounts.map((account, idx) => (
+        <tr key={`${account.items}-${idx}`} className="text-gray-700 dark:text-gray-300">
+          <td className="px-4 py-1 pl-8">
+            {account.items}
+            {account.wrongSign && <AlertTriangle className="inline w-4 h-4 ml-1 text-red-500" />}
+          </td>
+          <td className="px-4 py-1 text-right">{formatMoney(account.balance)}</td>
+        </tr>
+      ))}
+      <TotalRow label={t("statements.total", { label: label.toLowerCase() })} value={section.total} />
+    </>
+  );
+}
+
+function TotalRow({ label, value, strong }: { label: string; value: number; strong?: boolean }) {
+  const { formatMoney } = useI18n();
+  return (
+    <tr className={`border-t border-gray-200 dark:border-gray-700 ${strong ? "font-bold" : "font-medium"} text-gray-900 dark:text-white`}>
+      <td className="px-4 py-2">{label}</td>
+      <td className="px-4 py-2 text-right">{formatMoney(value)}</td>
+    </tr>
+  );
+}
+
+function FinancialStatements({ accounts }: FinancialStatementsProps) {
+  const i18n = useI18n();
+  const { t, formatMoney, formatNumber } = i18n;
+  const [mapping, setMapping] = useState<AccountMapping>(() => loadAccountMapping());
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+
+  const classified = useMemo(() => classifyAccounts(accounts, mapping), [accounts, mapping]);
+  const statements = useMemo(() => buildStatements(classified), [classified]);
+  const ratios = computeRatios(statements);
+  const wrongSign = classified.filter(a => a.wrongSign);
+  const { sections } = statements;
+
+  // Choices are saved straight away so they apply to every future upload
+  const updateMapping = (next: AccountMapping) => {
+    setMapping(next);
+    saveAccountMapping(next);
+  };
+
+  // An empty category drops the saved choice and falls back to the keyword rules
+  const assign = (account: ClassifiedAccount, category: AccountCategory | "", contra: boolean) => {
+    const next = { ...mapping };
+    if (category) {
+      next[accountKey(account.items)] = { category, contra };
+    } else {
+      delete next[accountKey(account.items)];
+    }
+    updateMapping(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Ratio Cards */}
+      <div className="grid md:grid-cols-4 gap-6">
+        {ratios.map(ratio => (
+          <div key={ratio.id} className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t(ratio.label)}</p>
+            <p className="text-2xl font-bold text-blue-600 dark:text-blue-400 mt-1">{formatRatio(ratio, i18n)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t(ratio.hint)}</p>
+          </div>
+        ))}
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("statements.wrongSign")}</p>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-1">{wrongSign.length}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t("statements.wrongSignHint")}</p>
+        </div>
+      </div>
+
+      {/* Wrong-Sign Flags */}
+      {wrongSign.length > 0 && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+          <h4 className="font-semibold text-red-800 dark:text-red-300 mb-2 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            {t("statements.unexpectedBalance")}
+          </h4>
+          <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+            {wrongSign.map((account, idx) => (
+              <li key={`${account.items}-${idx}`}>
+                <strong>{account.items}</strong> ({t(CATEGORIES[account.category!].label)}
+                {account.contra && `, ${t("statements.contra").toLowerCase()}`}){" "}
+                {t(account.debit - account.credit > 0 ? "statements.debitBalance" : "statements.creditBalance", {
+                  amount: formatMoney(Math.abs(account.debit - account.credit)),
+                })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {statements.unclassified.length > 0 && (
+        <p className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border-l-4 border-yellow-500 rounded text-sm text-yellow-700 dark:text-yellow-400">
+          {t("statements.unclassified", { count: statements.unclassified.length })}
+        </p>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Balance Sheet */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <Scale className="w-5 h-5 text-blue-500" />
+              {t("statements.balanceSheet")}
+            </h3>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              <SectionRows section={sections.non_current_asset} />
+              <SectionRows section={sections.current_asset} />
+              <TotalRow label={t("statements.totalAssets")} value={statements.totalAssets} strong />
+              <SectionRows section={sections.non_current_liability} />
+              <SectionRows section={sections.current_liability} />
+              <TotalRow label={t("statements.totalLiabilities")} value={statements.totalLiabilities} strong />
+              <SectionRows section={sections.equity} />
+              <TotalRow label={t("statements.periodProfit")} value={statements.netProfit} />
+              <TotalRow label={t("statements.totalEquity")} value={statements.totalEquity} strong />
+              <TotalRow label={t("statements.totalLiabilitiesEquity")} value={statements.totalLiabilities + statements.totalEquity} strong />
+            </tbody>
+          </table>
+          {Math.abs(statements.balanceSheetDifference) >= 0.01 && (
+            <p className="p-4 text-sm text-red-600 dark:text-red-400">
+              {t("statements.outOfBalance", { amount: formatMoney(statements.balanceSheetDifference) })}
+            </p>
+          )}
+        </div>
+
+        {/* Income Statement */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 self-start">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-blue-500" />
+              {t("statements.incomeStatement")}
+            </h3>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              <SectionRows section={sections.revenue} />
+              <SectionRows section={sections.cost_of_sales} />
+              <TotalRow label={t("statements.grossProfit")} value={statements.grossProfit} strong />
+              <SectionRows section={sections.operating_expense} />
+              <TotalRow label={t("statements.netProfit")} value={statements.netProfit} strong />
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Account Mapping */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => setIsMappingOpen(!isMappingOpen)}
+          className="w-full flex justify-between items-center p-6"
+        >
+          <span className="text-left">
+            <span className="block text-lg font-semibold text-gray-900 dark:text-white">{t("statements.mapping")}</span>
+            <span className="block text-sm text-gray-600 dark:text-gray-400">
+              {t("statements.mappingHelp")}
+            </span>
+          </span>
+          {isMappingOpen ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+        </button>
+
+        {isMappingOpen && (
+          <div className="overflow-x-auto border-t border-gray-200 dark:border-gray-700">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-3 font-medium text-left">{t("explorer.account")}</th>
+                  <th className="px-4 py-3 font-medium text-right">{t("common.debit")}</th>
+                  <th className="px-4 py-3 font-medium text-right">{t("common.credit")}</th>
+                  <th className="px-4 py-3 font-medium text-left">{t("statements.classification")}</th>
+                  <th className="px-4 py-3 font-medium text-left">{t("statements.contra")}</th>
+                  <th className="px-4 py-3 font-medium text-left"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {classified.map((account, idx) => {
+                  const rule = classifyByKeywords(account.items);
+                  return (
+                    <tr key={`${account.items}-${idx}`} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="px-4 py-2 text-gray-900 dark:text-white">{account.items}</td>
+                      <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatNumber(account.debit)}</td>
+                      <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatNumber(account.credit)}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={account.source === "saved" ? account.category ?? "" : ""}
+                          onChange={e => {
+                            const category = e.target.value as AccountCategory | "";
+                            assign(account, category, category === rule?.category && rule.contra);
+                          }}
+                          className={selectClass}
+                        >
+                          <option value="">
+                            {t("statements.automatic", { label: rule ? t(CATEGORIES[rule.category].label) : t("statements.unclassifiedLabel") })}
+                          </option>
+                          {(Object.keys(CATEGORIES) as AccountCategory[]).map(category => (
+                            <option key={category} value={category}>{t(CATEGORIES[category].label)}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={account.contra}
+                          disabled={!account.category}
+                          onChange={e => assign(account, account.category!, e.target.checked)}
+                          aria-label={t("statements.contraLabel", { account: account.items })}
+                        />
+                      </td>
+                      <td className="px-4 py-2">
+                        {account.source === "saved" && (
+                          <button
+                            onClick={() => assign(account, "", false)}
+                            className="text-gray-400 hover:text-blue-600 transition"
+                            aria-label={t("statements.resetLabel", { account: account.items })}
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default FinancialStatements;
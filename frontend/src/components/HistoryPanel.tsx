@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from "react";
+import { History, FolderOpen, GitCompare, Trash2 } from "lucide-react";
+import { deleteRun, getRun, listRuns, type RunRecord, type RunSummary } from "../lib/history";
+import { useI18n } from "../lib/i18n";
+import RunComparison from "./RunComparison";
+
+interface HistoryPanelProps {
+  onOpen: (run: RunRecord) => void;
+}
+
+function HistoryPanel({ onOpen }: HistoryPanelProps) {
+  const { t, formatDateTime } = useI18n();
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{ previous: RunRecord; current: RunRecord } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Changes only with the display language, so the list is read once per language
+  const loadRuns = useCallback(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(err => setError(err instanceof Error ? err.message : t("history.loadFailed")))
+      .finally(() => setIsLoading(false));
+  }, [t]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  // Keep at most two runs selected; picking a third drops the oldest pick
+  const toggleSelected = (id: string) => {
+    setSelected(prev =>
+      prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      const run = await getRun(id);
+      if (run) onOpen(run);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("history.openFailed"));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRun(id);
+      setRuns(prev => prev.filter(r => r.id !== id));
+      setSelected(prev => prev.filter(s => s !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("history.deleteFailed"));
+    }
+  };
+
+  const handleCompare = async () => {
+    try {
+      const [a, b] = await Promise.all(selected.map(id => getRun(id)));
+      if (!a || !b) throw new Error(t("history.missingRun"));
+      // The older run is always the baseline
+      const [previous, current] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+      setComparison({ previous, current });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("history.compareFailed"));
+    }
+  };
+
+  if (comparison) {
+    return <RunComparison {...comparison} onBack={() => setComparison(null)} />;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-500" />
+            {t("history.title")}
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {t("history.help")}
+          </p>
+        </div>
+        <button
+          onClick={handleCompare}
+          disabled={selected.length !== 2}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          <GitCompare className="w-4 h-4" />
+          {t("history.compare")}
+        </button>
+      </div>
+
+      {error && (
+        <div className="m-6 p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg border border-red-200 dark:border-red-800">
+          <strong>{t("common.error")}:</strong> {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="p-6 text-gray-600 dark:text-gray-400">{t("history.loading")}</p>
+      ) : runs.length === 0 ? (
+        <p className="p-6 text-gray-600 dark:text-gray-400">{t("history.empty")}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {runs.map(run => (
+            <li key={run.id} className="flex items-center gap-4 px-6 py-4">
+              <input
+                type="checkbox"
+                checked={selected.includes(run.id)}
+                onChange={() => toggleSelected(run.id)}
+                aria-label={t("history.select", { name: run.fileName })}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white truncate">{run.fileName}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {formatDateTime(run.createdAt)} · {t("run.summary", { count: run.result.anomalies.length })} ·{" "}
+                  {run.result.balance_status.split(":")[0]}
+                </p>
+              </div>
+              <button
+                onClick={() => handleOpen(run.id)}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition text-sm"
+              >
+                <FolderOpen className="w-4 h-4" />
+                {t("history.open")}
+              </button>
+              <button
+                onClick={() => handleDelete(run.id)}
+                className="text-red-500 hover:text-red-600 transition"
+                aria-label={t("history.delete", { name: run.fileName })}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Save } from "lucide-react";
+import { useI18n } from "../lib/i18n";
+import { REVIEW_STATUSES, loadInitials, rememberInitials, type ReviewEntry, type ReviewStatus } from "../lib/review";
+import type { MessageKey } from "../locales/en";
+
+interface ReviewFormProps {
+  entry: ReviewEntry;
+  onSave: (entry: ReviewEntry) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm";
+
+function ReviewForm({ entry, onSave }: ReviewFormProps) {
+  const { t, formatDateTime } = useI18n();
+  const [status, setStatus] = useState<ReviewStatus>(entry.status);
+  const [note, setNote] = useState(entry.note);
+  const [initials, setInitials] = useState(entry.initials || loadInitials());
+
+  const isDirty = status !== entry.status || note !== entry.note || initials !== entry.initials;
+
+  const handleSave = () => {
+    const trimmed = initials.trim().toUpperCase();
+    rememberInitials(trimmed);
+    onSave({ status, note: note.trim(), initials: trimmed, updatedAt: new Date().toISOString() });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {REVIEW_STATUSES.map(s => (
+          <button
+            key={s.value}
+            onClick={() => setStatus(s.value)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium border-2 transition ${s.className} ${
+              status === s.value ? "border-blue-600" : "border-transparent"
+            }`}
+          >
+            {t(`review.status.${s.value}` as MessageKey)}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        placeholder={t("review.notePlaceholder")}
+        rows={4}
+        className={inputClass}
+      />
+      <div className="flex gap-2">
+        <input
+          value={initials}
+          onChange={e => setInitials(e.target.value)}
+          placeholder={t("review.initials")}
+          maxLength={5}
+          className={`${inputClass} w-28`}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || !initials.trim()}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {t("review.save")}
+        </button>
+      </div>
+      {entry.updatedAt && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t("review.lastUpdated", { initials: entry.initials, date: formatDateTime(entry.updatedAt) })}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ReviewForm;
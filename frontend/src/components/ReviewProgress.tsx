@@ -0,0 +1,48 @@
+import { ClipboardCheck } from "lucide-react";
+import { useI18n } from "../lib/i18n";
+import { REVIEW_STATUSES, reviewProgress, type ReviewMap } from "../lib/review";
+import type { Anomaly } from "../types";
+import type { MessageKey } from "../locales/en";
+
+interface ReviewProgressProps {
+  anomalies: Anomaly[];
+  reviews: ReviewMap;
+}
+
+function ReviewProgress({ anomalies, reviews }: ReviewProgressProps) {
+  const { t } = useI18n();
+  const { counts, total, reviewed, percent } = reviewProgress(anomalies, reviews);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+      <div className="flex justify-between items-center mb-2">
+        <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+          <ClipboardCheck className="w-5 h-5 text-blue-500" />
+          {t("review.progress")}
+        </span>
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {t("review.progressCount", { reviewed, total, percent })}
+        </span>
+      </div>
+      <div
+        role="progressbar"
+        aria-label={t("review.progressLabel")}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+      >
+        <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {REVIEW_STATUSES.map(s => (
+          <span key={s.value} className={`px-2 py-0.5 rounded-full text-xs ${s.className}`}>
+            {t(`review.status.${s.value}` as MessageKey)}: {counts[s.value]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ReviewProgress;
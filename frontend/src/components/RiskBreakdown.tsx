@@ -0,0 +1,52 @@
+import { ShieldAlert } from "lucide-react";
+import { useI18n } from "../lib/i18n";
+import { describeFactor, riskLevel, type RiskFactor } from "../lib/risk";
+import type { MessageKey } from "../locales/en";
+
+interface RiskBreakdownProps {
+  score: number;
+  factors: RiskFactor[];
+}
+
+const LEVEL_STYLES = {
+  low: { label: "severity.low", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300", bar: "bg-green-500" },
+  medium: { label: "severity.medium", className: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300", bar: "bg-yellow-500" },
+  high: { label: "severity.high", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300", bar: "bg-red-500" },
+};
+
+function RiskBreakdown({ score, factors }: RiskBreakdownProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const level = LEVEL_STYLES[riskLevel(score)];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-blue-500" />
+          {t("risk.title")}
+        </h3>
+        <div className="flex items-center gap-3">
+          <span className="text-2xl font-bold text-gray-900 dark:text-white">{score}/100</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs ${level.className}`}>{t(level.label as MessageKey)}</span>
+        </div>
+      </div>
+      <ul className="p-6 space-y-4">
+        {factors.map(f => (
+          <li key={f.id}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="font-medium text-gray-900 dark:text-white">{t(`risk.${f.id}` as MessageKey)}</span>
+              <span className="text-gray-600 dark:text-gray-400">{t("risk.points", { points: f.points, weight: f.weight })}</span>
+            </div>
+            <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div className={`h-full ${level.bar}`} style={{ width: `${f.intensity * 100}%` }} />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{describeFactor(f, i18n)}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default RiskBreakdown;
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { ArrowLeft, ArrowDownRight, ArrowUpRight, AlertTriangle, CheckCircle } from "lucide-react";
+import { compareRuns, type AccountMovement } from "../lib/compare";
+import type { RunRecord } from "../lib/history";
+import { useI18n } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+
+interface RunComparisonProps {
+  previous: RunRecord;
+  current: RunRecord;
+  onBack: () => void;
+}
+
+const changeClass = (value: number) =>
+  value > 0 ? "text-green-600 dark:text-green-400" : value < 0 ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400";
+
+const statusBadge: Record<AccountMovement["status"], string> = {
+  new: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  removed: "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  changed: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300",
+  unchanged: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+};
+
+function RunComparison({ previous, current, onBack }: RunComparisonProps) {
+  const { t, locale, formatMoney, formatNumber } = useI18n();
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const comparison = useMemo(() => compareRuns(previous, current), [previous, current]);
+
+  const movements = showUnchanged
+    ? comparison.movements
+    : comparison.movements.filter(m => m.status !== "unchanged");
+
+  // A shrinking gap is good news regardless of which side it sits on
+  const gapShrink = Math.abs(comparison.previousGap) - Math.abs(comparison.currentGap);
+
+  const runLabel = (run: RunRecord) => `${run.fileName} (${new Date(run.createdAt).toLocaleDateString(locale)})`;
+  const formatChange = (value: number) =>
+    `${value > 0 ? "+" : ""}${formatNumber(value, { maximumFractionDigits: 2 })}`;
+  const sides = (a: { debit: number; credit: number }) =>
+    t("compare.sides", { debit: formatNumber(a.debit), credit: formatNumber(a.credit) });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <button onClick={onBack} className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            {t("compare.back")}
+          </button>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t("compare.title")}</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {runLabel(previous)} → {runLabel(current)}
+          </p>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid md:grid-cols-4 gap-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("compare.previousGap")}</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{formatMoney(comparison.previousGap)}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("compare.currentGap")}</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{formatMoney(comparison.currentGap)}</p>
+          <p className={`text-sm mt-1 ${changeClass(gapShrink)}`}>
+            {formatChange(comparison.gapChange)}
+          </p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("compare.newAnomalies")}</p>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-1">{comparison.newAnomalies.length}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("compare.clearedAnomalies")}</p>
+          <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">{comparison.clearedAnomalies.length}</p>
+        </div>
+      </div>
+
+      {/* Anomaly changes */}
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-red-500" />
+              {t("compare.newThisPeriod")}
+            </h3>
+          </div>
+          <ul className="p-6 space-y-2">
+            {comparison.newAnomalies.length > 0 ? comparison.newAnomalies.map((a, idx) => (
+              <li key={idx} className="flex justify-between text-sm">
+                <span className="text-gray-900 dark:text-white truncate">{a.items}</span>
+                <span className="text-gray-600 dark:text-gray-400">{sides(a)}</span>
+              </li>
+            )) : (
+              <li className="text-sm text-gray-600 dark:text-gray-400">{t("compare.noNew")}</li>
+            )}
+          </ul>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-500" />
+              {t("compare.noLongerFlagged")}
+            </h3>
+          </div>
+          <ul className="p-6 space-y-2">
+            {comparison.clearedAnomalies.length > 0 ? comparison.clearedAnomalies.map((a, idx) => (
+              <li key={idx} className="flex justify-between text-sm">
+                <span className="text-gray-900 dark:text-white truncate">{a.items}</span>
+                <span className="text-gray-600 dark:text-gray-400">{sides(a)}</span>
+              </li>
+            )) : (
+              <li className="text-sm text-gray-600 dark:text-gray-400">{t("compare.noneCleared")}</li>
+            )}
+          </ul>
+        </div>
+      </div>
+
+      {/* Account movements */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{t("compare.movements")}</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+            {t("compare.showUnchanged")}
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="px-4 py-3 font-medium">{t("explorer.account")}</th>
+                <th className="px-4 py-3 font-medium">{t("compare.status")}</th>
+                <th className="px-4 py-3 font-medium text-right">{t("compare.debitRange")}</th>
+                <th className="px-4 py-3 font-medium text-right">Δ {t("common.debit")}</th>
+                <th className="px-4 py-3 font-medium text-right">{t("compare.creditRange")}</th>
+                <th className="px-4 py-3 font-medium text-right">Δ {t("common.credit")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map(m => (
+                <tr key={m.items} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="px-4 py-2 text-gray-900 dark:text-white">{m.items}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${statusBadge[m.status]}`}>{t(`compare.status.${m.status}` as MessageKey)}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">
+                    {formatNumber(m.previous?.debit ?? 0)} → {formatNumber(m.current?.debit ?? 0)}
+                  </td>
+                  <td className={`px-4 py-2 text-right ${changeClass(m.debitChange)}`}>
+                    <span className="inline-flex items-center gap-1">
+                      {m.debitChange > 0 && <ArrowUpRight className="w-3 h-3" />}
+                      {m.debitChange < 0 && <ArrowDownRight className="w-3 h-3" />}
+                      {formatChange(m.debitChange)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">
+                    {formatNumber(m.previous?.credit ?? 0)} → {formatNumber(m.current?.credit ?? 0)}
+                  </td>
+                  <td className={`px-4 py-2 text-right ${changeClass(m.creditChange)}`}>
+                    <span className="inline-flex items-center gap-1">
+                      {m.creditChange > 0 && <ArrowUpRight className="w-3 h-3" />}
+                      {m.creditChange < 0 && <ArrowDownRight className="w-3 h-3" />}
+                      {formatChange(m.creditChange)}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+              {movements.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-gray-600 dark:text-gray-400">
+                    {t("compare.noMovements")}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RunComparison;
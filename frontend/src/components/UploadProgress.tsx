@@ -0,0 +1,94 @@
+import { CheckCircle, Circle, Loader2, ShieldCheck } from "lucide-react";
+import type { StageEvent } from "../lib/api";
+import { useI18n } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+import type { StreamStage } from "../types";
+
+interface UploadProgressProps {
+  uploadFraction: number;
+  stages: StageEvent[];
+  onCancel: () => void;
+  // Local-only runs have nothing to upload
+  isLocal?: boolean;
+}
+
+const STEPS: { stage: StreamStage; label: MessageKey }[] = [
+  { stage: "parsed", label: "progress.parsing" },
+  { stage: "balance_checked", label: "progress.balance" },
+  { stage: "anomalies_detected", label: "progress.anomalies" },
+  { stage: "recommendations_generating", label: "progress.recommendations" },
+];
+
+function UploadProgress({ uploadFraction, stages, onCancel, isLocal = false }: UploadProgressProps) {
+  const { t } = useI18n();
+  const percent = Math.round(uploadFraction * 100);
+  const isUploaded = uploadFraction >= 1 || stages.length > 0;
+  const reached = new Map(stages.map(s => [s.stage, s]));
+  // The step after the last reported stage is the one the server is working on
+  const activeIndex = isUploaded ? STEPS.findIndex(step => !reached.has(step.stage)) : -1;
+
+  return (
+    <div className="max-w-2xl mx-auto mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      {isLocal ? (
+        <p className="mb-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <ShieldCheck className="w-4 h-4 text-green-500" />
+          {t("progress.local")}
+        </p>
+      ) : (
+        <div className="mb-4">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-900 dark:text-white">
+              {isUploaded ? t("progress.uploaded") : t("progress.uploading")}
+            </span>
+            <span className="text-gray-600 dark:text-gray-400">{percent}%</span>
+          </div>
+          <div
+            role="progressbar"
+            aria-label={t("progress.label")}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+            className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+          >
+            <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {/* Each finished step is read out as it arrives */}
+      <ol aria-live="polite" className="space-y-3">
+        {STEPS.map((step, idx) => {
+          const event = reached.get(step.stage);
+          return (
+            <li key={step.stage} className="flex items-start gap-3">
+              {event ? (
+                <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+              ) : idx === activeIndex ? (
+                <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
+              ) : (
+                <Circle className="w-5 h-5 text-gray-300 dark:text-gray-600 flex-shrink-0" />
+              )}
+              <div>
+                <p className={event || idx === activeIndex ? "text-gray-900 dark:text-white" : "text-gray-400 dark:text-gray-500"}>
+                  {t(step.label)}
+                </p>
+                {event && <p className="text-sm text-gray-600 dark:text-gray-400">{event.message}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="text-center">
+        <button
+          onClick={onCancel}
+          className="mt-6 px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default UploadProgress;
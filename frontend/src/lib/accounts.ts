@@ -0,0 +1,60 @@
+import type { AnalysisResult, Anomaly } from "../types";
+import type { LedgerLine } from "./csvMapping";
+
+// One account as shown on its detail page
+export interface AccountDetail {
+  items: string;
+  debit: number;
+  credit: number;
+  // Share of the run's total debits and credits, 0 to 1
+  debitShare: number;
+  creditShare: number;
+  // Highest row outlier score; null for runs saved before accounts were scored
+  score: number | null;
+  // 1 is the most isolated account
+  rank: number | null;
+  // Share of the other accounts with a lower score, 0 to 1
+  percentile: number | null;
+  peers: number;
+  anomalies: Anomaly[];
+  // The normalized lines behind the balance; empty when the run has no saved rows
+  lines: LedgerLine[];
+  isJournal: boolean;
+}
+
+// Gather what the run knows about one account; null when the account is not in the run
+export function describeAccount(result: AnalysisResult, rows: LedgerLine[], items: string): AccountDetail | null {
+  const lines = rows.filter(row => row.items === items);
+  const anomalies = result.anomalies.filter(a => a.items === items);
+  const summary = result.accounts?.find(a => a.items === items);
+  if (!summary && lines.length === 0 && anomalies.length === 0) return null;
+
+  // Older runs have no account totals; fall back to the saved lines, then the flagged lines
+  const source = lines.length > 0 ? lines : anomalies;
+  const debit = summary?.debit ?? source.reduce((sum, row) => sum + row.debit, 0);
+  const credit = summary?.credit ?? source.reduce((sum, row) => sum + row.credit, 0);
+
+  const scores = (result.accounts ?? []).flatMap(a => (a.score === undefined ? [] : [a.score]));
+  const score = summary?.score ?? null;
+  const others = scores.length - 1;
+
+  return {
+    items,
+    debit,
+    credit,
+    debitShare: result.total_debit > 0 ? debit / result.total_debit : 0,
+    creditShare: result.total_credit > 0 ? credit / result.total_credit : 0,
+    score,
+    rank: score === null ? null : scores.filter(s => s > score).length + 1,
+    percentile: score === null || others < 1 ? null : scores.filter(s => s < score).length / others,
+    peers: scores.length,
+    anomalies,
+    lines,
+    isJournal: lines.some(line => line.date),
+  };
+}
+
+// Whether a trial balance line is one of the flagged anomaly rows. Journal postings are scored
+// on their account's totals, so for a journal only the account as a whole is flagged.
+export const isFlaggedLine = (line: LedgerLine, account: AccountDetail) =>
+  !account.isJournal && account.anomalies.some(a => a.debit === line.debit && a.credit === line.credit);
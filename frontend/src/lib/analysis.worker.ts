@@ -0,0 +1,60 @@
+import type { DetectionSettings } from "./detectionSettings";
+import type { LocalAnalysisEvent } from "./localAnalysis";
+import {
+  LedgerError,
+  checkBalance,
+  detectAnomalies,
+  parseLedger,
+  runAuditAnalytics,
+  runDateChecks,
+  summarizeAccounts,
+  summarizeDataset,
+} from "./pipeline";
+import { ruleBasedRecommendations } from "./recommendations";
+
+// Runs the local-only analysis off the main thread, reporting the same stages as /upload-csv/stream
+const post = (event: LocalAnalysisEvent) => self.postMessage(event);
+
+self.onmessage = async (e: MessageEvent<{ file: File; settings: DetectionSettings }>) => {
+  const { file, settings } = e.data;
+  try {
+    const { rows, journal } = parseLedger(file.name, await file.text());
+    post({ type: "stage", stage: "parsed", message: `Parsed ${rows.length} rows`, rows: rows.length });
+
+    const balance = checkBalance(rows);
+    post({ type: "stage", stage: "balance_checked", message: balance.balance_status });
+
+    const { scored, anomalies, detection } = detectAnomalies(rows, settings);
+    post({
+      type: "stage",
+      stage: "anomalies_detected",
+      message: `Found ${anomalies.length} significant anomalies`,
+      count: anomalies.length,
+    });
+    const analytics = runAuditAnalytics(rows, detection);
+    if (journal) {
+      analytics.dates = runDateChecks(journal, settings.closeDate);
+    }
+    post({
+      type: "analysis",
+      data: {
+        ...balance,
+        detection,
+        anomalies,
+        dataset: summarizeDataset(scored),
+        analytics,
+        accounts: summarizeAccounts(scored),
+      },
+    });
+
+    post({ type: "stage", stage: "recommendations_generating", message: "Generating rule-based recommendations" });
+    post({ type: "recommendations", recommendations: ruleBasedRecommendations(anomalies, balance) });
+    post({ type: "done" });
+  } catch (err) {
+    if (err instanceof LedgerError) {
+      post({ type: "error", kind: "validation", key: err.key, values: err.values });
+    } else {
+      post({ type: "error", kind: "failed", key: "error.localFailed", values: { detail: err instanceof Error ? err.message : String(err) } });
+    }
+  }
+};
@@ -0,0 +1,32 @@
+import type { MessageKey } from "../locales/en";
+import type { Analytics, BenfordTest } from "../types";
+
+export type BenfordTestId = keyof Analytics["benford"];
+
+// Labels here are message keys
+export const BENFORD_TESTS: { id: BenfordTestId; label: MessageKey }[] = [
+  { id: "first_digit", label: "benford.first_digit" },
+  { id: "first_two_digits", label: "benford.first_two_digits" },
+];
+
+// Below this many amounts a Benford result is too noisy to act on
+export const BENFORD_MIN_SAMPLE = 300;
+
+export const CONFORMITY_STYLES: Record<BenfordTest["conformity"], { label: MessageKey; className: string }> = {
+  close: { label: "benford.close", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300" },
+  acceptable: { label: "benford.acceptable", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300" },
+  marginal: { label: "benford.marginal", className: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300" },
+  nonconformity: { label: "benford.nonconformity", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" },
+};
+
+export const THRESHOLD_LABELS: Record<Analytics["just_below_threshold"][number]["threshold"], MessageKey> = {
+  amount_threshold: "analytics.amountThreshold",
+  imbalance_threshold: "analytics.imbalanceThreshold",
+};
+
+// Digits whose observed share is furthest from Benford's expectation, largest gap first
+export function largestDeviations(test: BenfordTest, limit = 3) {
+  return [...test.digits]
+    .sort((a, b) => Math.abs(b.observed - b.expected) - Math.abs(a.observed - a.expected))
+    .slice(0, limit);
+}
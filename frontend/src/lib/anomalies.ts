@@ -0,0 +1,52 @@
+import type { I18n } from "./i18n";
+import type { MessageKey } from "../locales/en";
+import type { AnomalyReason, Detection } from "../types";
+
+// Message keys for the rule names
+export const REASON_LABELS: Record<AnomalyReason, MessageKey> = {
+  above_amount_threshold: "reason.above_amount_threshold",
+  one_sided_debit: "reason.one_sided_debit",
+  one_sided_credit: "reason.one_sided_credit",
+};
+
+// Explain a fired rule using the thresholds the backend actually applied
+export function describeReason(reason: AnomalyReason, detection: Detection, { t, formatMoney }: I18n): string {
+  const imbalance = formatMoney(detection.imbalance_threshold);
+
+  switch (reason) {
+    case "above_amount_threshold":
+      return t("reason.above_amount_threshold.detail", {
+        amount: formatMoney(detection.amount_threshold),
+        floor: formatMoney(detection.amount_floor),
+        percentile: detection.amount_percentile,
+      });
+    case "one_sided_debit":
+      return t("reason.one_sided_debit.detail", { amount: imbalance });
+    case "one_sided_credit":
+      return t("reason.one_sided_credit.detail", { amount: imbalance });
+  }
+}
+
+// A request from elsewhere in a run to show particular anomalies in the explorer
+export type AnomalyFocus =
+  | { kind: "account"; items: string }
+  | { kind: "range"; min: number; max: number };
+
+// The focus travels in the anomalies page's query string, e.g. ?account=Cash or ?min=1000&max=5000
+export function focusToSearch(focus: AnomalyFocus): string {
+  const params = focus.kind === "account"
+    ? new URLSearchParams({ account: focus.items })
+    : new URLSearchParams({ min: String(focus.min), max: String(focus.max) });
+  return `?${params}`;
+}
+
+export function focusFromSearch(params: URLSearchParams): AnomalyFocus | null {
+  const account = params.get("account");
+  if (account) return { kind: "account", items: account };
+  const min = Number(params.get("min"));
+  const max = Number(params.get("max"));
+  if (params.has("min") && params.has("max") && Number.isFinite(min) && Number.isFinite(max)) {
+    return { kind: "range", min, max };
+  }
+  return null;
+}
@@ -0,0 +1,304 @@
+import { http, HttpResponse } from "msw";
+import { describe, expect, it, vi } from "vitest";
+import { FIXTURES, normalizedFile } from "../test/fixtures";
+import {
+  RULES_PROVIDER,
+  STREAM_URL,
+  UPLOAD_URL,
+  analyzeCsv,
+  detailResponse,
+  largeResponse,
+  ndjsonResponse,
+  streamEvents,
+  withRuleRecommendations,
+} from "../test/mockBackend";
+import { server } from "../test/server";
+import type { AnalysisResult, ApiResponse } from "../types";
+import { ApiError, describeApiError, uploadCsv, uploadCsvStream, type StageEvent } from "./api";
+import { DEFAULT_DETECTION_SETTINGS } from "./detectionSettings";
+import { createI18n, exportText } from "./i18n";
+
+const settings = DEFAULT_DETECTION_SETTINGS;
+
+const csvFile = (text: string, name = "ledger.csv") => new File([text], name, { type: "text/csv" });
+
+// Resolve to the ApiError the call was rejected with
+async function rejection(promise: Promise<unknown>): Promise<ApiError> {
+  const err = await promise.then(() => null, (e: unknown) => e);
+  expect(err).toBeInstanceOf(ApiError);
+  return err as ApiError;
+}
+
+async function fixtureAnalysis(): Promise<AnalysisResult> {
+  const file = await normalizedFile(FIXTURES.kenyanSme);
+  return analyzeCsv(file.name, await file.text());
+}
+
+const fixtureResponse = async (): Promise<ApiResponse> => withRuleRecommendations(await fixtureAnalysis());
+
+describe("uploadCsv", () => {
+  it("returns the parsed analysis of a balanced trial balance", async () => {
+    const result = await uploadCsv(await normalizedFile(FIXTURES.kenyanSme), settings);
+
+    expect(result.is_balanced).toBe(true);
+    expect(result.total_debit).toBe(FIXTURES.kenyanSme.totalDebit);
+    expect(result.balance_status).toMatch(/^Balanced: Total Debit = 81324801\.00/);
+    expect(result.recommendations.provider).toEqual(RULES_PROVIDER);
+    expect(result.recommendations.items.length).toBeGreaterThan(0);
+  });
+
+  it("sends the detection settings as form fields", async () => {
+    let fields: Record<string, FormDataEntryValue> = {};
+    server.use(
+      http.post(UPLOAD_URL, async ({ request }) => {
+        fields = Object.fromEntries(await request.formData());
+        return HttpResponse.json(await fixtureResponse());
+      })
+    );
+
+    await uploadCsv(csvFile("items,debit,credit\nCash,1,0\n"), { ...settings, contamination: 0.1, closeDate: "2025-12-31" });
+
+    expect(fields).toMatchObject({
+      amount_floor: "10000",
+      amount_percentile: "95",
+      imbalance_threshold: "5000",
+      contamination: "0.1",
+      close_date: "2025-12-31",
+    });
+    expect(fields.file).toBeInstanceOf(File);
+  });
+
+  it("reports a 400 with the backend's detail", async () => {
+    const err = await rejection(uploadCsv(csvFile("account,amount\nCash,100\n"), settings));
+
+    expect(err.kind).toBe("validation");
+    expect(err.status).toBe(400);
+    expect(err.detail).toBe("CSV must have columns: items, debit, credit");
+    expect(describeApiError(err, exportText)).toBe("The file was rejected: CSV must have columns: items, debit, credit");
+  });
+
+  it("joins FastAPI's validation error list", async () => {
+    server.use(
+      http.post(UPLOAD_URL, () =>
+        HttpResponse.json({ detail: [{ msg: "Field required" }, { msg: "Input should be a valid number" }] }, { status: 422 })
+      )
+    );
+
+    const err = await rejection(uploadCsv(csvFile(""), settings));
+
+    expect(err.kind).toBe("validation");
+    expect(err.detail).toBe("Field required; Input should be a valid number");
+  });
+
+  it("handles an HTML error page from the proxy", async () => {
+    server.use(http.post(UPLOAD_URL, () => HttpResponse.html("<html><body>502 Bad Gateway</body></html>", { status: 502 })));
+
+    const err = await rejection(uploadCsv(csvFile(""), settings));
+
+    expect(err.kind).toBe("server");
+    expect(err.detail).toBeNull();
+    expect(err.message).toBe("The server failed to process the file (HTTP 502)");
+  });
+
+  it("handles a plain-text 4xx body", async () => {
+    server.use(http.post(UPLOAD_URL, () => HttpResponse.text("Request Entity Too Large", { status: 413 })));
+
+    const err = await rejection(uploadCsv(csvFile(""), settings));
+
+    expect(err.kind).toBe("validation");
+    expect(describeApiError(err, exportText)).toBe("The request was rejected (HTTP 413)");
+    expect(describeApiError(err, createI18n({ locale: "sw-KE", currency: "KES" }).t)).toBe("Ombi limekataliwa (HTTP 413)");
+  });
+
+  it("rejects a 200 whose body is not JSON", async () => {
+    server.use(http.post(UPLOAD_URL, () => HttpResponse.text("OK")));
+
+    const err = await rejection(uploadCsv(csvFile(""), settings));
+
+    expect(err.kind).toBe("invalid_response");
+    expect(err.message).toBe("The server returned a response that is not valid JSON");
+  });
+
+  it("rejects a response that breaks the contract", async () => {
+    const response = await fixtureResponse();
+    server.use(
+      http.post(UPLOAD_URL, () =>
+        HttpResponse.json({ ...response, anomalies: [{ ...response.anomalies[0], debit: "12,500,000" }] })
+      )
+    );
+
+    const err = await rejection(uploadCsv(csvFile(""), settings));
+
+    expect(err.kind).toBe("invalid_response");
+    expect(err.detail).toMatch(/^anomalies\.0\.debit: /);
+    expect(err.message).toContain(err.detail);
+  });
+
+  it("accepts an analysis with no anomalies", async () => {
+    const response = await fixtureResponse();
+    server.use(
+      http.post(UPLOAD_URL, () =>
+        HttpResponse.json({ ...response, anomalies: [], recommendations: { provider: RULES_PROVIDER, items: [] } })
+      )
+    );
+
+    const result = await uploadCsv(csvFile(""), settings);
+
+    expect(result.anomalies).toEqual([]);
+    expect(result.recommendations.items).toEqual([]);
+  });
+
+  it("parses a very large response", async () => {
+    server.use(http.post(UPLOAD_URL, () => HttpResponse.json(largeResponse(20_000))));
+
+    const result = await uploadCsv(csvFile(""), settings);
+
+    expect(result.anomalies).toHaveLength(20_000);
+    expect(result.accounts).toHaveLength(20_000);
+    expect(result.anomalies[19_999].items).toBe("Account 20000");
+  });
+
+  it("fills in defaults for recommendations that only have text", async () => {
+    const response = await fixtureResponse();
+    server.use(
+      http.post(UPLOAD_URL, () =>
+        HttpResponse.json({ ...response, recommendations: { provider: RULES_PROVIDER, items: [{ text: "Vouch the land purchase" }] } })
+      )
+    );
+
+    const result = await uploadCsv(csvFile(""), settings);
+
+    expect(result.recommendations.items).toEqual([
+      { text: "Vouch the land purchase", severity: "medium", category: "documentation", items: [] },
+    ]);
+  });
+
+  it("reports a network failure", async () => {
+    server.use(http.post(UPLOAD_URL, () => HttpResponse.error()));
+
+    const err = await rejection(uploadCsv(csvFile(""), settings));
+
+    expect(err.kind).toBe("network");
+  });
+
+  it("reports a cancelled request", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const err = await rejection(uploadCsv(csvFile(""), settings, { signal: controller.signal }));
+
+    expect(err.kind).toBe("aborted");
+  });
+});
+
+describe("uploadCsvStream", () => {
+  it("reports each stage and the analysis before the recommendations", async () => {
+    const stages: StageEvent["stage"][] = [];
+    const onAnalysis = vi.fn();
+
+    const result = await uploadCsvStream(await normalizedFile(FIXTURES.sageJournal), settings, {
+      onStage: event => stages.push(event.stage),
+      onAnalysis,
+    });
+
+    expect(stages).toEqual(["parsed", "balance_checked", "anomalies_detected", "recommendations_generating"]);
+    expect(onAnalysis).toHaveBeenCalledTimes(1);
+    expect(onAnalysis.mock.calls[0][0]).not.toHaveProperty("recommendations");
+    expect(result.is_balanced).toBe(true);
+    expect(result.analytics?.dates?.weekend.rows.map(row => row.date)).toContain("2026-01-25");
+    expect(result.recommendations.provider).toEqual(RULES_PROVIDER);
+  });
+
+  it("reports a 400 with the backend's detail", async () => {
+    const err = await rejection(uploadCsvStream(csvFile("account,amount\nCash,100\n"), settings));
+
+    expect(err.kind).toBe("validation");
+    expect(err.detail).toBe("CSV must have columns: items, debit, credit");
+  });
+
+  it("keeps the analysis when the recommendations fail afterwards", async () => {
+    const analysis = await fixtureAnalysis();
+    server.use(
+      http.post(STREAM_URL, () =>
+        ndjsonResponse([
+          { type: "analysis", data: analysis },
+          { type: "error", detail: "AI error: 429 Resource has been exhausted (e.g. check quota)." },
+        ])
+      )
+    );
+    const onAnalysis = vi.fn();
+
+    const err = await rejection(uploadCsvStream(csvFile(""), settings, { onAnalysis }));
+
+    expect(onAnalysis).toHaveBeenCalledWith(analysis);
+    expect(err.kind).toBe("server");
+    expect(err.detail).toBe("AI error: 429 Resource has been exhausted (e.g. check quota).");
+  });
+
+  it("passes on a rule-based fallback after an LLM failure", async () => {
+    const response = await fixtureResponse();
+    const provider = { ...RULES_PROVIDER, fallback: true, reason: "Google Gemini failed: 429 quota exceeded" };
+    server.use(http.post(STREAM_URL, () => ndjsonResponse(streamEvents({ ...response, recommendations: { ...response.recommendations, provider } }))));
+
+    const result = await uploadCsvStream(csvFile(""), settings);
+
+    expect(result.recommendations.provider).toEqual(provider);
+    expect(result.recommendations.items).toEqual(response.recommendations.items);
+  });
+
+  it("rejects a stream that ends before the recommendations", async () => {
+    const analysis = await fixtureAnalysis();
+    server.use(http.post(STREAM_URL, () => ndjsonResponse([{ type: "analysis", data: analysis }])));
+
+    const err = await rejection(uploadCsvStream(csvFile(""), settings));
+
+    expect(err.kind).toBe("invalid_response");
+    expect(err.message).toBe("The analysis stream ended before all results were sent");
+  });
+
+  it("rejects a line that is not JSON", async () => {
+    server.use(http.post(STREAM_URL, () => HttpResponse.text("<html>Gateway Timeout</html>\n")));
+
+    const err = await rejection(uploadCsvStream(csvFile(""), settings));
+
+    expect(err.kind).toBe("invalid_response");
+    expect(err.message).toBe("The server sent a progress update that is not valid JSON");
+  });
+
+  it("handles an HTML error page from the proxy", async () => {
+    server.use(http.post(STREAM_URL, () => HttpResponse.html("<html><body>504 Gateway Timeout</body></html>", { status: 504 })));
+
+    const err = await rejection(uploadCsvStream(csvFile(""), settings));
+
+    expect(err.kind).toBe("server");
+    expect(err.message).toBe("The server failed to process the file (HTTP 504)");
+  });
+
+  it("streams a very large analysis", async () => {
+    server.use(http.post(STREAM_URL, () => ndjsonResponse(streamEvents(largeResponse(20_000)))));
+
+    const result = await uploadCsvStream(csvFile(""), settings);
+
+    expect(result.anomalies).toHaveLength(20_000);
+  });
+
+  it("stops when the detail says the backend failed mid-stream", async () => {
+    server.use(http.post(STREAM_URL, () => ndjsonResponse([{ type: "error", detail: "Invalid numeric values in debit" }])));
+
+    const err = await rejection(uploadCsvStream(csvFile(""), settings));
+
+    expect(err.kind).toBe("server");
+    expect(describeApiError(err, exportText)).toBe("The analysis server hit an error. Please try again shortly. Invalid numeric values in debit");
+  });
+});
+
+describe("both endpoints", () => {
+  it.each([UPLOAD_URL, STREAM_URL])("%s gives the same 400 detail", async url => {
+    server.use(http.post(url, () => detailResponse("Invalid numeric values in credit")));
+    const call = url === UPLOAD_URL ? uploadCsv : uploadCsvStream;
+
+    const err = await rejection(call(csvFile(""), settings));
+
+    expect(err.detail).toBe("Invalid numeric values in credit");
+  });
+});
@@ -0,0 +1,287 @@
+import type { z } from "zod";
+import { ApiResponseSchema, StreamEventSchema, describeSchemaError } from "../schema";
+import type { AnalysisResult, ApiResponse, Recommendations, StreamEvent } from "../types";
+import { appendDetectionSettings, type DetectionSettings } from "./detectionSettings";
+import { LocalizedError, describeError, type I18n, type MessageValues } from "./i18n";
+import type { MessageKey } from "../locales/en";
+
+// Netlify proxies /api/* to the backend; the Vite dev server does the same locally
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || "/api").replace(/\/+$/, "");
+const DEFAULT_TIMEOUT_MS = Number(import.meta.env.VITE_API_TIMEOUT_MS) || 120_000;
+
+export type ApiErrorKind =
+  | "network"     // request never reached the backend
+  | "validation"  // 4xx, usually a FastAPI { detail } body
+  | "server"      // 5xx
+  | "timeout"     // no answer within the timeout
+  | "aborted"     // cancelled by the caller
+  | "invalid_response"; // 2xx with a body that is not JSON or does not match the schema
+
+// The message key says what went wrong in the user's words; detail is the backend's own text, when it sent one
+export class ApiError extends LocalizedError {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly detail: string | null;
+
+  constructor(
+    kind: ApiErrorKind,
+    key: MessageKey,
+    options: { values?: MessageValues; status?: number; detail?: string | null; cause?: unknown } = {}
+  ) {
+    super(key, options.values, { cause: options.cause });
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status ?? null;
+    this.detail = options.detail ?? null;
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export function apiUrl(path: string): string {
+  return `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+// FastAPI sends { detail: string } for HTTPException and { detail: [{ msg }] } for validation errors
+function extractDetail(body: string): string | null {
+  try {
+    const data = JSON.parse(body);
+    if (typeof data?.detail === "string") return data.detail;
+    if (Array.isArray(data?.detail)) {
+      return data.detail.map((d: { msg?: string }) => d.msg).filter(Boolean).join("; ") || null;
+    }
+  } catch {
+    // Not JSON, e.g. an HTML error page from the proxy
+  }
+  return null;
+}
+
+function httpError(status: number, body: string): ApiError {
+  const detail = extractDetail(body);
+
+  if (status >= 500) {
+    return new ApiError("server", "error.serverStatus", { values: { status }, status, detail });
+  }
+  return new ApiError("validation", "error.rejectedStatus", { values: { status }, status, detail });
+}
+
+// The zod issues go in the detail, so the mismatch is visible wherever the error is shown
+function schemaError(error: z.ZodError, status?: number): ApiError {
+  const detail = describeSchemaError(error);
+  return new ApiError("invalid_response", "error.unexpectedFormat", { values: { detail }, status, detail, cause: error });
+}
+
+const timeoutError = (timeoutMs: number, cause?: unknown) =>
+  new ApiError("timeout", "error.timeout", { values: { seconds: Math.round(timeoutMs / 1000) }, cause });
+
+const abortedError = (cause?: unknown) => new ApiError("aborted", "error.cancelled", { cause });
+
+const networkError = (cause?: unknown) => new ApiError("network", "error.network", { cause });
+
+// Send a request with a timeout and caller cancellation, translating every failure into an ApiError.
+// The body is checked against the schema so a changed backend contract fails loudly here.
+export async function request<T>(path: string, init: RequestInit, schema: z.ZodType<T>, options: RequestOptions = {}): Promise<T> {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onAbort);
+  if (options.signal?.aborted) controller.abort();
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(apiUrl(path), { ...init, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) throw timeoutError(timeoutMs, err);
+      if (controller.signal.aborted) throw abortedError(err);
+      throw networkError(err);
+    }
+
+    if (!response.ok) {
+      throw httpError(response.status, await response.text().catch(() => ""));
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (err) {
+      throw new ApiError("invalid_response", "error.notJson", { status: response.status, cause: err });
+    }
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      throw schemaError(parsed.error, response.status);
+    }
+    return parsed.data;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export function uploadCsv(file: File, settings: DetectionSettings, options: RequestOptions = {}): Promise<ApiResponse> {
+  const formData = new FormData();
+  formData.append("file", file);
+  appendDetectionSettings(formData, settings);
+  return request("/upload-csv", { method: "POST", body: formData }, ApiResponseSchema, options);
+}
+
+export type StageEvent = Extract<StreamEvent, { type: "stage" }>;
+
+export interface StreamCallbacks {
+  // Fraction of the file sent so far, 0 to 1
+  onUploadProgress?: (fraction: number) => void;
+  onStage?: (event: StageEvent) => void;
+  // Totals and anomalies, sent before the recommendations are ready
+  onAnalysis?: (analysis: AnalysisResult) => void;
+}
+
+// Upload to the streaming endpoint. XMLHttpRequest is used because fetch cannot report upload progress;
+// the NDJSON body is read incrementally as it arrives.
+export function uploadCsvStream(
+  file: File,
+  settings: DetectionSettings,
+  callbacks: StreamCallbacks = {},
+  options: RequestOptions = {}
+): Promise<ApiResponse> {
+  const path = "/upload-csv/stream";
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const formData = new FormData();
+  formData.append("file", file);
+  appendDetectionSettings(formData, settings);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let analysis: AnalysisResult | null = null;
+    let recommendations: Recommendations | null = null;
+    let settled = false;
+
+    const onAbort = () => xhr.abort();
+    const settle = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      options.signal?.removeEventListener("abort", onAbort);
+      action();
+    };
+    const fail = (err: ApiError) => settle(() => reject(err));
+
+    const handleLine = (line: string) => {
+      let body: unknown;
+      try {
+        body = JSON.parse(line);
+      } catch (err) {
+        throw new ApiError("invalid_response", "error.progressNotJson", { cause: err });
+      }
+      const parsed = StreamEventSchema.safeParse(body);
+      if (!parsed.success) throw schemaError(parsed.error);
+
+      const event = parsed.data;
+      switch (event.type) {
+        case "stage":
+          callbacks.onStage?.(event);
+          break;
+        case "analysis":
+          analysis = event.data;
+          callbacks.onAnalysis?.(event.data);
+          break;
+        case "recommendations":
+          recommendations = event.recommendations;
+          break;
+        case "error":
+          throw new ApiError("server", "error.streamFailed", { values: { detail: event.detail }, detail: event.detail });
+        case "done":
+          break;
+      }
+    };
+
+    // Handle every complete line received so far; on the final call also the trailing partial line
+    const processLines = (final: boolean) => {
+      const text = xhr.responseText;
+      let newline: number;
+      while ((newline = text.indexOf("\n", offset)) !== -1) {
+        const line = text.slice(offset, newline).trim();
+        offset = newline + 1;
+        if (line) handleLine(line);
+      }
+      if (final) {
+        const rest = text.slice(offset).trim();
+        offset = text.length;
+        if (rest) handleLine(rest);
+      }
+    };
+
+    const consume = (final: boolean) => {
+      try {
+        processLines(final);
+      } catch (err) {
+        const values = { detail: String(err) };
+        fail(err instanceof ApiError ? err : new ApiError("invalid_response", "error.unreadableStream", { values, cause: err }));
+        xhr.abort();
+      }
+    };
+
+    xhr.open("POST", apiUrl(path));
+    xhr.timeout = timeoutMs;
+
+    xhr.upload.onprogress = e => {
+      if (e.lengthComputable) callbacks.onUploadProgress?.(e.loaded / e.total);
+    };
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) consume(false);
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        fail(httpError(xhr.status, xhr.responseText));
+        return;
+      }
+      consume(true);
+      if (settled) return;
+      if (!analysis || recommendations === null) {
+        fail(new ApiError("invalid_response", "error.streamIncomplete"));
+        return;
+      }
+      const response: ApiResponse = { ...analysis, recommendations };
+      settle(() => resolve(response));
+    };
+    xhr.onerror = () => fail(networkError());
+    xhr.ontimeout = () => fail(timeoutError(timeoutMs));
+    xhr.onabort = () => fail(abortedError());
+
+    options.signal?.addEventListener("abort", onAbort);
+    if (options.signal?.aborted) {
+      fail(abortedError());
+      return;
+    }
+    xhr.send(formData);
+  });
+}
+
+// Short, user-facing message for each kind of failure, in the display language
+export function describeApiError(err: unknown, t: I18n["t"]): string {
+  if (!(err instanceof ApiError)) return describeError(err, t, "error.uploadFailed");
+  switch (err.kind) {
+    case "validation": {
+      // The backend's detail is shown as sent; checks made in this browser carry their own message
+      const detail = err.status === null ? t(err.key, err.values) : err.detail;
+      return detail ? t("error.rejected", { detail }) : t(err.key, err.values);
+    }
+    case "server":
+      return t("error.server", { detail: err.detail ?? "" }).trim();
+    case "timeout":
+      return t("error.timeoutAdvice", err.values);
+    case "network":
+    case "aborted":
+    case "invalid_response":
+      return t(err.key, err.values);
+  }
+}
@@ -0,0 +1,69 @@
+import type { RefObject } from "react";
+import { useOutletContext } from "react-router";
+import type { AnomalyFocus } from "./anomalies";
+import type { LedgerLine } from "./csvMapping";
+import type { DetectionSettings } from "./detectionSettings";
+import type { RunRecord } from "./history";
+import type { DisplaySettings } from "./i18n";
+import type { ReportMetrics } from "./report";
+import type { ReviewEntry, ReviewMap } from "./review";
+import type { Theme } from "./theme";
+import type { ApiResponse } from "../types";
+
+// The run on screen; its id is the history id, so /runs/:runId can be bookmarked
+export interface ActiveRun {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  result: ApiResponse;
+  // The analysed file and its normalized lines, kept so the run can be analysed again with other settings
+  upload: { file: File; rows: LedgerLine[] } | null;
+}
+
+// Shared by every page through the app layout's outlet
+export interface AppContext {
+  // The theme in effect; `theme` is the saved choice, which may be to follow the system
+  isDarkMode: boolean;
+  theme: Theme;
+  onThemeChange: (theme: Theme) => void;
+  detectionSettings: DetectionSettings;
+  onSettingsChange: (settings: DetectionSettings) => void;
+  // Analyse in this browser instead of uploading to the backend
+  localOnly: boolean;
+  onLocalOnlyChange: (localOnly: boolean) => void;
+  displaySettings: DisplaySettings;
+  onDisplayChange: (settings: DisplaySettings) => void;
+  run: ActiveRun | null;
+  hasBatch: boolean;
+  isLoading: boolean;
+  isGeneratingRecommendations: boolean;
+  startUpload: (file: File, rows: LedgerLine[]) => void;
+  startBatch: (files: File[]) => void;
+  rerun: () => void;
+  cancelUpload: () => void;
+  openRun: (record: RunRecord) => void;
+  setError: (error: string | null) => void;
+  setSuccessMessage: (message: string | null) => void;
+}
+
+// What the pages under /runs/:runId see once the run is loaded
+export interface RunContext {
+  run: ActiveRun;
+  metrics: ReportMetrics;
+  reviews: ReviewMap;
+  onReviewChange: (items: string, entry: ReviewEntry) => void;
+  isDarkMode: boolean;
+  // Only true while this run's recommendations are still streaming
+  isGeneratingRecommendations: boolean;
+  cancelUpload: () => void;
+  // Opens the anomalies page filtered to what a chart or finding points at
+  focusAnomalies: (focus: AnomalyFocus) => void;
+  // Opens the detail page for one account
+  openAccount: (items: string) => void;
+  // The overview's scatter chart, captured for the PDF report when it is mounted
+  chartRef: RefObject<HTMLDivElement | null>;
+}
+
+export const useAppContext = () => useOutletContext<AppContext>();
+
+export const useRunContext = () => useOutletContext<RunContext>();
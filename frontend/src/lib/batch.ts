@@ -0,0 +1,146 @@
+import type { ApiResponse } from "../types";
+import { ApiError, describeApiError, uploadCsv } from "./api";
+import type { DetectionSettings } from "./detectionSettings";
+import { hashFile, saveRun } from "./history";
+import type { I18n } from "./i18n";
+import { analyzeLocally } from "./localAnalysis";
+import { baseName } from "./download";
+import { buildNormalizedFile, guessMapping, normalizeRows, readLedgerFile, toTable, validateMapping, type LedgerLine } from "./csvMapping";
+import { calculateMetrics } from "./metrics";
+
+// How many files are analysed at the same time
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchStatus = "queued" | "uploading" | "done" | "failed" | "cancelled";
+
+// One entity's file in a batch upload
+export interface BatchItem {
+  id: string;
+  file: File;
+  entity: string;
+  status: BatchStatus;
+  error: string | null;
+  result: ApiResponse | null;
+  rows: LedgerLine[];
+  fileHash: string | null;
+}
+
+export interface EntitySummary {
+  id: string;
+  entity: string;
+  totalDebit: number;
+  totalCredit: number;
+  difference: number;
+  isBalanced: boolean;
+  anomalies: number;
+  riskScore: number;
+}
+
+export interface GroupSummary {
+  entities: EntitySummary[];
+  totalDebit: number;
+  totalCredit: number;
+  balancedCount: number;
+  anomalyCount: number;
+}
+
+export function createBatchItem(file: File): BatchItem {
+  return {
+    id: crypto.randomUUID(),
+    file,
+    entity: baseName(file.name),
+    status: "queued",
+    error: null,
+    result: null,
+    rows: [],
+    fileHash: null,
+  };
+}
+
+// Batches skip the mapping step, so columns must be recognisable without help; workbooks use their first sheet
+export async function prepareBatchFile(file: File, { t, locale }: I18n): Promise<{ file: File; rows: LedgerLine[] }> {
+  const [{ grid }] = await readLedgerFile(file);
+  const mapping = guessMapping(grid);
+  const table = toTable(grid, mapping.headerRow);
+  const mappingError = validateMapping(mapping, table);
+  if (mappingError) {
+    throw new Error(t("batch.unmapped", { error: t(mappingError) }));
+  }
+  const lines = normalizeRows(mapping, table, locale);
+  return { file: buildNormalizedFile(lines, file.name), rows: lines };
+}
+
+// Run the worker over every item with at most `limit` in flight; workers handle their own errors
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+}
+
+interface BatchOptions {
+  settings: DetectionSettings;
+  // Analyse each file in this browser instead of uploading it
+  localOnly: boolean;
+  i18n: I18n;
+  signal: AbortSignal;
+}
+
+// Work through the queue, reporting each item's progress; items still queued when the signal aborts are cancelled
+export function runBatch(
+  items: BatchItem[],
+  { settings, localOnly, i18n, signal }: BatchOptions,
+  update: (id: string, changes: Partial<BatchItem>) => void
+): Promise<void> {
+  return runWithConcurrency(items, BATCH_CONCURRENCY, async item => {
+    if (signal.aborted) {
+      update(item.id, { status: "cancelled" });
+      return;
+    }
+    update(item.id, { status: "uploading" });
+    try {
+      const { file, rows } = await prepareBatchFile(item.file, i18n);
+      const fileHash = await hashFile(file);
+      const result = localOnly
+        ? await analyzeLocally(file, settings, {}, { signal })
+        : await uploadCsv(file, settings, { signal });
+      update(item.id, { status: "done", result, rows, fileHash });
+      // The entity is still shown when it cannot be saved, with the reason under its name
+      await saveRun({ id: item.id, fileName: item.file.name, fileHash, result, rows }).catch(err =>
+        update(item.id, { error: i18n.t("history.saveFailed", { reason: err instanceof Error ? err.message : String(err) }) })
+      );
+    } catch (err) {
+      const cancelled = err instanceof ApiError && err.kind === "aborted";
+      update(item.id, { status: cancelled ? "cancelled" : "failed", error: cancelled ? null : describeApiError(err, i18n.t) });
+    }
+  });
+}
+
+// Totals and per-entity status across every file that finished
+export function summarizeGroup(items: BatchItem[]): GroupSummary {
+  const entities = items.flatMap(item => {
+    if (!item.result) return [];
+    const metrics = calculateMetrics(item.result, item.rows);
+    return [{
+      id: item.id,
+      entity: item.entity,
+      totalDebit: item.result.total_debit,
+      totalCredit: item.result.total_credit,
+      difference: item.result.total_debit - item.result.total_credit,
+      isBalanced: item.result.is_balanced,
+      anomalies: item.result.anomalies.length,
+      riskScore: metrics.riskScore,
+    }];
+  });
+
+  return {
+    entities,
+    totalDebit: entities.reduce((sum, e) => sum + e.totalDebit, 0),
+    totalCredit: entities.reduce((sum, e) => sum + e.totalCredit, 0),
+    balancedCount: entities.filter(e => e.isBalanced).length,
+    anomalyCount: entities.reduce((sum, e) => sum + e.anomalies, 0),
+  };
+}
@@ -0,0 +1,66 @@
+import type { Recommendation, RecommendationCategory, RecommendationSeverity } from "../types";
+import { CHECKLISTS_STORE, withStore } from "./db";
+import { baseName, downloadBlob, toCsv } from "./download";
+import { exportText as t } from "./i18n";
+import { CATEGORY_LABELS, severityLabel } from "./recommendations";
+
+// A recommendation the team has taken on as work to do
+export interface ActionItem {
+  id: string;
+  text: string;
+  severity: RecommendationSeverity;
+  category: RecommendationCategory;
+  items: string[];
+  owner: string;
+  dueDate: string;
+  done: boolean;
+  createdAt: string;
+}
+
+interface ChecklistRecord {
+  runKey: string;
+  actions: ActionItem[];
+}
+
+export const toActionItem = (rec: Recommendation): ActionItem => ({
+  id: crypto.randomUUID(),
+  text: rec.text,
+  severity: rec.severity,
+  category: rec.category,
+  items: rec.items,
+  owner: "",
+  dueDate: "",
+  done: false,
+  createdAt: new Date().toISOString(),
+});
+
+// Recommendations are regenerated on every run, so the text is what ties a card to its action
+export const isInChecklist = (actions: ActionItem[], rec: Recommendation) =>
+  actions.some(action => action.text === rec.text);
+
+// Keyed by the file hash like the reviews, so re-uploading the same file restores the checklist
+export async function loadChecklist(runKey: string): Promise<ActionItem[]> {
+  const record = await withStore(CHECKLISTS_STORE, "readonly", store => store.get(runKey) as IDBRequest<ChecklistRecord | undefined>);
+  return record?.actions ?? [];
+}
+
+export async function saveChecklist(runKey: string, actions: ActionItem[]): Promise<void> {
+  await withStore(CHECKLISTS_STORE, "readwrite", store => store.put({ runKey, actions } satisfies ChecklistRecord));
+}
+
+export function exportChecklist(actions: ActionItem[], fileName: string | null) {
+  const csv = toCsv([
+    ["status", "severity", "category", "action", "accounts", "owner", "due_date", "added_at"],
+    ...actions.map(a => [
+      a.done ? "Done" : "Open",
+      t(severityLabel(a.severity)),
+      t(CATEGORY_LABELS[a.category]),
+      a.text,
+      a.items.join("; "),
+      a.owner,
+      a.dueDate,
+      a.createdAt,
+    ]),
+  ]);
+  downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8" }), `${baseName(fileName)}-action-checklist.csv`);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { FIXTURES, normalizedLines } from "../test/fixtures";
+import { classifyAccounts, classifyByKeywords } from "./classification";
+import { groupByAccount } from "./csvMapping";
+
+describe("classifyByKeywords", () => {
+  it.each([
+    ["Bank charges", "operating_expense"],
+    ["Fuel and motor running", "operating_expense"],
+    ["Motor vehicle expenses", "operating_expense"],
+    ["Computer repairs", "operating_expense"],
+    ["Insurance - motor vehicles", "operating_expense"],
+    ["Property rates", "operating_expense"],
+    ["Rent and rates", "operating_expense"],
+    ["NSSF and SHIF contributions", "operating_expense"],
+    ["NSSF payable", "current_liability"],
+    ["Cash at bank - KCB", "current_asset"],
+    ["Prepaid insurance", "current_asset"],
+    ["Rent receivable", "current_asset"],
+    ["Motor vehicles", "non_current_asset"],
+    ["Computer equipment", "non_current_asset"],
+    ["Accrued expenses", "current_liability"],
+    ["Bank loan - Equity Bank", "non_current_liability"],
+    ["Dividend income", "revenue"],
+    ["Dividends received", "revenue"],
+    ["Investment income", "revenue"],
+    ["Cash sales", "revenue"],
+    ["Income tax payable", "current_liability"],
+    ["Dividends payable", "current_liability"],
+    ["Income tax", "operating_expense"],
+    ["Tax expense", "operating_expense"],
+    ["Loan interest", "operating_expense"],
+    ["Prepaid expenses", "current_asset"],
+    ["Interest receivable", "current_asset"],
+    ["VAT", "current_liability"],
+  ])("%s is %s", (items, category) => {
+    expect(classifyByKeywords(items)).toEqual({ category, contra: false });
+  });
+
+  it("keeps accumulated depreciation on vehicles as a contra asset", () => {
+    expect(classifyByKeywords("Accumulated depreciation - motor vehicles")).toEqual({ category: "non_current_asset", contra: true });
+  });
+
+  it.each(["Drawings", "Dividends paid", "Dividend declared"])("treats %s as contra equity", items => {
+    expect(classifyByKeywords(items)).toEqual({ category: "equity", contra: true });
+  });
+
+  it("does not flag dividend income's credit balance as the wrong sign", () => {
+    const [account] = classifyAccounts([{ items: "Dividend income", debit: 0, credit: 5_000 }], {});
+
+    expect(account).toMatchObject({ category: "revenue", wrongSign: false });
+  });
+});
+
+describe("classifyAccounts", () => {
+  it("classifies the sample trial balance's expenses as expenses", async () => {
+    const accounts = classifyAccounts(groupByAccount(await normalizedLines(FIXTURES.kenyanSme)), {});
+    const categoryOf = (items: string) => accounts.find(a => a.items === items)?.category;
+
+    expect(categoryOf("Bank charges")).toBe("operating_expense");
+    expect(categoryOf("Fuel and motor running")).toBe("operating_expense");
+    expect(accounts.filter(a => a.wrongSign).map(a => a.items)).toEqual([]);
+  });
+
+  it("prefers a saved choice over the keywords", () => {
+    const [account] = classifyAccounts([{ items: "Bank charges", debit: 100, credit: 0 }], {
+      "bank charges": { category: "cost_of_sales", contra: false },
+    });
+
+    expect(account).toMatchObject({ category: "cost_of_sales", source: "saved" });
+  });
+});
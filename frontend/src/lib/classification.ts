@@ -0,0 +1,247 @@
+import type { MessageKey } from "../locales/en";
+import type { LedgerRow } from "../types";
+import type { I18n } from "./i18n";
+
+export type AccountClass = "asset" | "liability" | "equity" | "revenue" | "expense";
+
+// Finer than the class so the ratios can tell current from non-current items
+export type AccountCategory =
+  | "current_asset"
+  | "non_current_asset"
+  | "current_liability"
+  | "non_current_liability"
+  | "equity"
+  | "revenue"
+  | "cost_of_sales"
+  | "operating_expense";
+
+export interface CategoryInfo {
+  label: MessageKey;
+  accountClass: AccountClass;
+}
+
+export const CATEGORIES: Record<AccountCategory, CategoryInfo> = {
+  current_asset: { label: "category.current_asset", accountClass: "asset" },
+  non_current_asset: { label: "category.non_current_asset", accountClass: "asset" },
+  current_liability: { label: "category.current_liability", accountClass: "liability" },
+  non_current_liability: { label: "category.non_current_liability", accountClass: "liability" },
+  equity: { label: "category.equity", accountClass: "equity" },
+  revenue: { label: "category.revenue", accountClass: "revenue" },
+  cost_of_sales: { label: "category.cost_of_sales", accountClass: "expense" },
+  operating_expense: { label: "category.operating_expense", accountClass: "expense" },
+};
+
+// Assets and expenses normally carry debit balances; the rest carry credits
+const DEBIT_NORMAL: Record<AccountClass, boolean> = {
+  asset: true,
+  expense: true,
+  liability: false,
+  equity: false,
+  revenue: false,
+};
+
+// A saved choice for one account; contra accounts sit in a class but carry the opposite balance
+export interface AccountAssignment {
+  category: AccountCategory;
+  contra: boolean;
+}
+
+export type AccountMapping = Record<string, AccountAssignment>;
+
+export interface ClassifiedAccount extends LedgerRow {
+  category: AccountCategory | null;
+  contra: boolean;
+  source: "rule" | "saved" | "none";
+  // Balance in the class's normal direction; negative when the sign is the other way round
+  balance: number;
+  wrongSign: boolean;
+}
+
+interface KeywordRule extends AccountAssignment {
+  keywords: string[];
+}
+
+// First match wins, so contra accounts and specific phrases come before the general words
+const KEYWORD_RULES: KeywordRule[] = [
+  { category: "non_current_asset", contra: true, keywords: ["accumulated depreciation", "accumulated amortisation", "accumulated amortization", "provision for depreciation"] },
+  { category: "current_asset", contra: true, keywords: ["allowance for doubtful", "provision for doubtful", "provision for bad", "bad debt provision"] },
+  // Only dividends going out reduce equity; "Dividend income" is revenue
+  { category: "equity", contra: true, keywords: ["drawings", "dividends paid", "dividend paid", "dividends declared", "dividend declared"] },
+  { category: "revenue", contra: true, keywords: ["sales returns", "returns inwards", "discount allowed"] },
+  { category: "cost_of_sales", contra: true, keywords: ["purchase returns", "purchases returns", "returns outwards", "discount received"] },
+  { category: "revenue", contra: false, keywords: ["rent received", "rental income", "interest income", "interest received", "commission received", "fees earned", "other income", "dividend income", "dividends received", "dividend received", "investment income", "cash sales", "credit sales"] },
+  // Amounts owed and owing, before the tax, interest and expense words they are often named after
+  { category: "current_liability", contra: false, keywords: ["payable", "liabilit", "accrued", "accrual"] },
+  { category: "current_asset", contra: false, keywords: ["loan receivable", "loans receivable", "staff loan", "staff advance", "receivable", "debtor", "prepaid", "prepayment"] },
+  // "Tax expense" and "Loan interest" are costs, not the tax or loan balances
+  { category: "operating_expense", contra: false, keywords: ["income tax", "tax expense", "interest", "contributions", "expense"] },
+  { category: "cost_of_sales", contra: false, keywords: ["cost of sales", "cost of goods", "cogs", "purchases", "direct labour", "direct labor", "carriage inwards"] },
+  { category: "current_liability", contra: false, keywords: ["short-term loan", "short term loan", "overdraft", "current portion"] },
+  { category: "non_current_liability", contra: false, keywords: ["long-term", "long term", "loan", "mortgage", "debenture", "bond"] },
+  { category: "current_liability", contra: false, keywords: ["creditor", "vat", "tax", "paye", "nssf", "nhif", "unearned", "deferred income", "customer deposit"] },
+  // Running costs named after an asset, such as "Bank charges" or "Fuel and motor running", before the asset words
+  { category: "operating_expense", contra: false, keywords: ["bank charge", "bank fee", "running", "fuel", "repair", "insurance", "rates"] },
+  { category: "current_asset", contra: false, keywords: ["cash", "bank", "petty", "mpesa", "m-pesa", "inventory", "stock", "deposit", "short-term investment"] },
+  { category: "non_current_asset", contra: false, keywords: ["land", "building", "property", "plant", "equipment", "machinery", "vehicle", "motor", "furniture", "fixture", "fittings", "computer", "goodwill", "intangible", "investment"] },
+  { category: "equity", contra: false, keywords: ["capital", "retained earnings", "reserve", "equity", "owner"] },
+  { category: "operating_expense", contra: false, keywords: ["rent", "salar", "wage", "utilit", "electricity", "water", "depreciation", "amortisation", "advertis", "marketing", "maintenance", "transport", "telephone", "internet", "stationery", "audit", "professional", "legal", "travel", "licen", "bad debt", "training", "cleaning", "security", "postage", "subscription", "entertainment", "commission paid"] },
+  { category: "revenue", contra: false, keywords: ["sales", "revenue", "income", "turnover", "fees", "commission"] },
+];
+
+const MAPPING_KEY = "tathmini.accountMapping";
+
+// Differences smaller than this are rounding, not a balance
+const TOLERANCE = 0.01;
+
+// Saved mappings match on a trimmed, case-insensitive account name
+export const accountKey = (items: string) => items.trim().toLowerCase();
+
+// Keywords match at the start of a word, so "payable" also catches "payables"
+const matchers = KEYWORD_RULES.map(rule => ({
+  rule,
+  pattern: new RegExp(`\\b(${rule.keywords.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`),
+}));
+
+export function classifyByKeywords(items: string): AccountAssignment | null {
+  const name = accountKey(items);
+  const match = matchers.find(m => m.pattern.test(name));
+  return match ? { category: match.rule.category, contra: match.rule.contra } : null;
+}
+
+export function loadAccountMapping(): AccountMapping {
+  try {
+    const stored = localStorage.getItem(MAPPING_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveAccountMapping(mapping: AccountMapping) {
+  localStorage.setItem(MAPPING_KEY, JSON.stringify(mapping));
+}
+
+// Saved choices take precedence over the keyword rules
+export function classifyAccounts(accounts: LedgerRow[], mapping: AccountMapping): ClassifiedAccount[] {
+  return accounts.map(account => {
+    const saved = mapping[accountKey(account.items)];
+    const assignment = saved ?? classifyByKeywords(account.items);
+    if (!assignment) {
+      return { ...account, category: null, contra: false, source: "none", balance: 0, wrongSign: false };
+    }
+    const net = account.debit - account.credit;
+    const debitNormal = DEBIT_NORMAL[CATEGORIES[assignment.category].accountClass];
+    // Contra accounts reduce their class, so they are reported as negative balances
+    const balance = debitNormal ? net : -net;
+    const expected = assignment.contra ? -1 : 1;
+    return {
+      ...account,
+      category: assignment.category,
+      contra: assignment.contra,
+      source: saved ? "saved" : "rule",
+      balance,
+      wrongSign: Math.abs(balance) >= TOLERANCE && Math.sign(balance) !== expected,
+    };
+  });
+}
+
+export interface StatementSection {
+  category: AccountCategory;
+  label: MessageKey;
+  accounts: ClassifiedAccount[];
+  total: number;
+}
+
+export interface FinancialStatements {
+  sections: Record<AccountCategory, StatementSection>;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+  revenue: number;
+  grossProfit: number;
+  netProfit: number;
+  // Assets less liabilities, equity and the period's profit; non-zero when the trial balance does not tie
+  balanceSheetDifference: number;
+  unclassified: ClassifiedAccount[];
+}
+
+export function buildStatements(accounts: ClassifiedAccount[]): FinancialStatements {
+  const sections = Object.fromEntries(
+    (Object.keys(CATEGORIES) as AccountCategory[]).map(category => {
+      const members = accounts.filter(a => a.category === category);
+      return [category, {
+        category,
+        label: CATEGORIES[category].label,
+        accounts: members,
+        total: members.reduce((sum, a) => sum + a.balance, 0),
+      }];
+    })
+  ) as Record<AccountCategory, StatementSection>;
+
+  const total = (category: AccountCategory) => sections[category].total;
+  const totalAssets = total("current_asset") + total("non_current_asset");
+  const totalLiabilities = total("current_liability") + total("non_current_liability");
+  const revenue = total("revenue");
+  const grossProfit = revenue - total("cost_of_sales");
+  const netProfit = grossProfit - total("operating_expense");
+  // An unclosed trial balance still holds the period's profit in revenue and expenses
+  const totalEquity = total("equity") + netProfit;
+
+  return {
+    sections,
+    totalAssets,
+    totalLiabilities,
+    totalEquity,
+    revenue,
+    grossProfit,
+    netProfit,
+    balanceSheetDifference: totalAssets - totalLiabilities - totalEquity,
+    unclassified: accounts.filter(a => a.category === null),
+  };
+}
+
+export interface FinancialRatio {
+  id: "current_ratio" | "gross_margin" | "debt_to_equity";
+  label: MessageKey;
+  // null when the denominator is zero or negative, so the ratio has no meaning
+  value: number | null;
+  format: "times" | "percent";
+  hint: MessageKey;
+}
+
+const safeDivide = (numerator: number, denominator: number) =>
+  denominator > TOLERANCE ? numerator / denominator : null;
+
+export function computeRatios(statements: FinancialStatements): FinancialRatio[] {
+  const { sections } = statements;
+  return [
+    {
+      id: "current_ratio",
+      label: "ratio.current_ratio",
+      value: safeDivide(sections.current_asset.total, sections.current_liability.total),
+      format: "times",
+      hint: "ratio.current_ratio.hint",
+    },
+    {
+      id: "gross_margin",
+      label: "ratio.gross_margin",
+      value: safeDivide(statements.grossProfit, statements.revenue),
+      format: "percent",
+      hint: "ratio.gross_margin.hint",
+    },
+    {
+      id: "debt_to_equity",
+      label: "ratio.debt_to_equity",
+      value: safeDivide(statements.totalLiabilities, statements.totalEquity),
+      format: "times",
+      hint: "ratio.debt_to_equity.hint",
+    },
+  ];
+}
+
+export function formatRatio(ratio: FinancialRatio, { t, formatNumber }: I18n): string {
+  if (ratio.value === null) return t("ratio.notApplicable");
+  return ratio.format === "percent"
+    ? formatNumber(ratio.value, { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 })
+    : `${formatNumber(ratio.value, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}×`;
+}
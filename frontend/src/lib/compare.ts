@@ -0,0 +1,82 @@
+import type { Anomaly, LedgerRow } from "../types";
+import type { RunRecord } from "./history";
+
+export type MovementStatus = "new" | "removed" | "changed" | "unchanged";
+
+export interface AccountMovement {
+  items: string;
+  previous: LedgerRow | null;
+  current: LedgerRow | null;
+  debitChange: number;
+  creditChange: number;
+  status: MovementStatus;
+}
+
+export interface RunComparison {
+  movements: AccountMovement[];
+  newAnomalies: Anomaly[];
+  clearedAnomalies: Anomaly[];
+  persistingAnomalies: Anomaly[];
+  previousGap: number;
+  currentGap: number;
+  gapChange: number;
+}
+
+// Accounts are matched on a trimmed, case-insensitive items label
+const accountKey = (items: string) => items.trim().toLowerCase();
+
+// Sum duplicate labels so each account appears once per run
+function byAccount(rows: LedgerRow[]): Map<string, LedgerRow> {
+  const accounts = new Map<string, LedgerRow>();
+  for (const row of rows) {
+    const key = accountKey(row.items);
+    const existing = accounts.get(key);
+    accounts.set(key, existing
+      ? { items: existing.items, debit: existing.debit + row.debit, credit: existing.credit + row.credit }
+      : { ...row });
+  }
+  return accounts;
+}
+
+// Debit minus credit as reported by the backend for that run
+const balanceGap = (run: RunRecord) => run.result.total_debit - run.result.total_credit;
+
+export function compareRuns(previous: RunRecord, current: RunRecord): RunComparison {
+  // Older runs may lack rows; their anomalies are the only accounts we know about
+  const before = byAccount(previous.rows.length > 0 ? previous.rows : previous.result.anomalies);
+  const after = byAccount(current.rows.length > 0 ? current.rows : current.result.anomalies);
+  const keys = new Set([...before.keys(), ...after.keys()]);
+
+  const movements: AccountMovement[] = [...keys].map(key => {
+    const prev = before.get(key) ?? null;
+    const curr = after.get(key) ?? null;
+    const debitChange = (curr?.debit ?? 0) - (prev?.debit ?? 0);
+    const creditChange = (curr?.credit ?? 0) - (prev?.credit ?? 0);
+    let status: MovementStatus = "unchanged";
+    if (!prev) status = "new";
+    else if (!curr) status = "removed";
+    else if (Math.abs(debitChange) >= 0.01 || Math.abs(creditChange) >= 0.01) status = "changed";
+
+    return { items: (curr ?? prev)!.items, previous: prev, current: curr, debitChange, creditChange, status };
+  });
+
+  // Largest absolute movement first
+  movements.sort((a, b) =>
+    Math.abs(b.debitChange) + Math.abs(b.creditChange) - (Math.abs(a.debitChange) + Math.abs(a.creditChange))
+  );
+
+  const previousFlags = new Set(previous.result.anomalies.map(a => accountKey(a.items)));
+  const currentFlags = new Set(current.result.anomalies.map(a => accountKey(a.items)));
+  const previousGap = balanceGap(previous);
+  const currentGap = balanceGap(current);
+
+  return {
+    movements,
+    newAnomalies: current.result.anomalies.filter(a => !previousFlags.has(accountKey(a.items))),
+    clearedAnomalies: previous.result.anomalies.filter(a => !currentFlags.has(accountKey(a.items))),
+    persistingAnomalies: current.result.anomalies.filter(a => previousFlags.has(accountKey(a.items))),
+    previousGap,
+    currentGap,
+    gapChange: currentGap - previousGap,
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { guessMapping, isLedgerFile, normalizeRows, parseAmount, parseDate, parseLocaleNumber, toTable, validateMapping } from "./csvMapping";
+
+describe("isLedgerFile", () => {
+  it.each([
+    ["trial-balance.csv", true],
+    ["TB FY2025.XLSX", true],
+    ["ledger.xls", true],
+    ["export.json", true],
+    ["statement.pdf", false],
+    ["notes.csv.txt", false],
+  ])("%s -> %s", (name, expected) => {
+    expect(isLedgerFile(name)).toBe(expected);
+  });
+});
+
+describe("parseLocaleNumber", () => {
+  it.each([
+    ["1234.56", 1234.56],
+    ["1,234.56", 1234.56],
+    ["1.234,56", 1234.56],
+    ["1 234,56", 1234.56],
+    ["1'234.56", 1234.56],
+    ["12,5", 12.5],
+    ["1,234", 1234],
+    ["KES 1,200", 1200],
+    ["KSh1,200.50", 1200.5],
+    ["1,200 KES", 1200],
+    ["$1,234.50", 1234.5],
+    ["(1,200)", -1200],
+    ["(KES 1,200.00)", -1200],
+    ["-1,200", -1200],
+    ["1,200-", -1200],
+    ["1.2e3", 1200],
+  ])("%j -> %d", (text, expected) => {
+    expect(parseLocaleNumber(text)).toBe(expected);
+  });
+
+  it.each(["abc", "1.2.3,4,5", "N/A", "--", "1,234,5", "12,34,567", "1,23,456", "1.234.5", "1,234.567,8"])("%j is not a number", text => {
+    expect(parseLocaleNumber(text)).toBeNaN();
+  });
+
+  it.each([
+    ["1.234", "en-US", 1.234],
+    ["1.234", "de-DE", 1234],
+    ["1,234", "de-DE", 1.234],
+    ["12.5", "de-DE", 12.5],
+    ["1.234.567", "de-DE", 1234567],
+    ["1.234,56", "en-US", 1234.56],
+  ])("%j in %s -> %d", (text, locale, expected) => {
+    expect(parseLocaleNumber(text, locale)).toBe(expected);
+  });
+});
+
+describe("parseAmount", () => {
+  it("counts blank cells as zero", () => {
+    expect(parseAmount(undefined)).toBe(0);
+    expect(parseAmount("  ")).toBe(0);
+  });
+
+  it("names the cell it cannot read", () => {
+    expect(() => parseAmount("twelve")).toThrow('"twelve" is not a valid amount');
+  });
+});
+
+describe("parseDate", () => {
+  it.each([
+    ["2026-01-31", "2026-01-31"],
+    ["2026/1/5", "2026-01-05"],
+    ["31/01/2026", "2026-01-31"],
+    ["05.02.26", "2026-02-05"],
+    ["5-2-2026", "2026-02-05"],
+  ])("%s -> %s", (text, expected) => {
+    expect(parseDate(text)).toBe(expected);
+  });
+
+  it("rejects a day the month does not have", () => {
+    expect(() => parseDate("31/02/2026")).toThrow('"31/02/2026" is not a valid date');
+  });
+
+  it.each(["01/31/2024", "12/25/2024", "2024-13-01", "2024-02-30", "15/00/2024"])(
+    "rejects %s instead of rolling it into another month",
+    text => {
+      expect(() => parseDate(text)).toThrow(`"${text}" is not a valid date`);
+    }
+  );
+
+  it("rejects a blank date", () => {
+    expect(() => parseDate("")).toThrow("is not a valid date");
+  });
+});
+
+describe("guessMapping", () => {
+  it("reads a single signed amount column", () => {
+    const grid = [["Account Name", "Closing Balance"], ["Cash", "1,500"], ["Sales", "(1,500)"]];
+    const mapping = guessMapping(grid);
+
+    expect(mapping).toMatchObject({ mode: "signed", items: "Account Name", amount: "Closing Balance", debit: "", credit: "" });
+    expect(normalizeRows(mapping, toTable(grid, mapping.headerRow))).toEqual([
+      { items: "Cash", debit: 1500, credit: 0 },
+      { items: "Sales", debit: 0, credit: 1500 },
+    ]);
+  });
+
+  it("posts negative split amounts to the other side", () => {
+    const grid = [["Account", "Debit", "Credit"], ["Sales returns", "(500)", ""], ["Accrual reversal", "", "-1,200"], ["Cash", "300", "0"]];
+    const mapping = guessMapping(grid);
+
+    expect(normalizeRows(mapping, toTable(grid, mapping.headerRow))).toEqual([
+      { items: "Sales returns", debit: 0, credit: 500 },
+      { items: "Accrual reversal", debit: 1200, credit: 0 },
+      { items: "Cash", debit: 300, credit: 0 },
+    ]);
+  });
+
+  it("flags the same column chosen for debit and credit", () => {
+    const grid = [["Account", "Dr", "Cr"], ["Cash", "1", "0"]];
+    const mapping = { ...guessMapping(grid), credit: "Dr" };
+
+    expect(validateMapping(mapping, toTable(grid, 0))).toBe("mapper.sameDebitCredit");
+  });
+});
@@ -0,0 +1,398 @@
+import Papa from "papaparse";
+import type { MessageKey } from "../locales/en";
+import type { LedgerRow } from "../types";
+import { toCsv } from "./download";
+import { DEFAULT_DISPLAY_SETTINGS, LocalizedError } from "./i18n";
+
+// Raw cells as parsed from the uploaded file, before any header is chosen
+export type CsvGrid = string[][];
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// One worksheet of an uploaded file; CSV and JSON files have a single sheet
+export interface SheetGrid {
+  name: string;
+  grid: CsvGrid;
+}
+
+export type MappingMode = "split" | "signed";
+
+// How source columns map onto the items/debit/credit shape the backend expects
+export interface ColumnMapping {
+  headerRow: number;
+  mode: MappingMode;
+  items: string;
+  debit: string;
+  credit: string;
+  amount: string;
+  positiveIs: "debit" | "credit";
+  // A date column makes this a journal; "" means none
+  date: string;
+  reference: string;
+}
+
+// A normalized line; journal lines also carry their posting date (YYYY-MM-DD) and reference
+export interface LedgerLine extends LedgerRow {
+  date?: string;
+  reference?: string;
+}
+
+export interface MappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+const PRESETS_KEY = "tathmini.mappingPresets";
+
+export const LEDGER_FILE_TYPES = [".csv", ".xlsx", ".xls", ".json"];
+
+export const isLedgerFile = (fileName: string) =>
+  LEDGER_FILE_TYPES.some(ext => fileName.toLowerCase().endsWith(ext));
+
+// Common header spellings from QuickBooks, Sage, Xero and hand-made sheets
+const ITEM_HEADERS = ["items", "item", "account", "account name", "accountname", "name", "description", "ledger"];
+const DEBIT_HEADERS = ["debit", "debits", "dr", "debit amount", "debit balance"];
+const CREDIT_HEADERS = ["credit", "credits", "cr", "credit amount", "credit balance"];
+const AMOUNT_HEADERS = ["amount", "balance", "net", "net amount", "value", "closing balance"];
+const DATE_HEADERS = ["date", "posting date", "transaction date", "txn date", "entry date", "value date", "gl date"];
+const REFERENCE_HEADERS = ["reference", "ref", "ref no", "journal", "journal no", "entry no", "voucher", "voucher no", "document no", "doc no"];
+
+export function parseCsvFile(file: File): Promise<CsvGrid> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: "greedy",
+      complete: results => {
+        if (results.data.length === 0) {
+          reject(new LocalizedError("file.csvEmpty"));
+        } else {
+          resolve(results.data.map(row => row.map(cell => (cell ?? "").trim())));
+        }
+      },
+      error: err => reject(new LocalizedError("file.csvUnreadable", { reason: err.message })),
+    });
+  });
+}
+
+// Spreadsheet cells become text the way the CSV path sees them; dates as YYYY-MM-DD
+function cellText(cell: unknown): string {
+  if (cell instanceof Date) return formatDate(cell);
+  return cell === null || cell === undefined ? "" : String(cell).trim();
+}
+
+async function readWorkbook(file: File): Promise<SheetGrid[]> {
+  const XLSX = await import("xlsx");
+  // Uploads are untrusted; only the cell values are needed, so formulas and rich text are not parsed
+  const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true, cellFormula: false, cellHTML: false });
+  const sheets = workbook.SheetNames.map(name => ({
+    name,
+    grid: XLSX.utils
+      .sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, blankrows: false, defval: "" })
+      .map(row => row.map(cellText)),
+  })).filter(sheet => sheet.grid.length > 0);
+  if (sheets.length === 0) {
+    throw new LocalizedError("file.workbookEmpty");
+  }
+  return sheets;
+}
+
+// A JSON export is an array of objects; the union of their keys becomes the header row
+async function readJson(file: File): Promise<CsvGrid> {
+  let records: unknown;
+  try {
+    records = JSON.parse(await file.text());
+  } catch {
+    throw new LocalizedError("file.jsonInvalid");
+  }
+  if (!Array.isArray(records) || !records.every(r => r && typeof r === "object" && !Array.isArray(r))) {
+    throw new LocalizedError("file.jsonNotArray");
+  }
+  if (records.length === 0) {
+    throw new LocalizedError("file.jsonEmpty");
+  }
+  const headers = [...new Set(records.flatMap(r => Object.keys(r)))];
+  return [headers, ...records.map(r => headers.map(h => cellText((r as Record<string, unknown>)[h])))];
+}
+
+export async function readLedgerFile(file: File): Promise<SheetGrid[]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx") || name.endsWith(".xls")) return readWorkbook(file);
+  if (name.endsWith(".json")) return [{ name: file.name, grid: await readJson(file) }];
+  return [{ name: file.name, grid: await parseCsvFile(file) }];
+}
+
+// Use the chosen row as headers and everything below it as data
+export function toTable(grid: CsvGrid, headerRow: number): CsvTable {
+  const raw = grid[headerRow] ?? [];
+  const seen = new Map<string, number>();
+  // Keep headers unique so each one can be used as a select value
+  const headers = raw.map((header, idx) => {
+    const name = header || `Column ${idx + 1}`;
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    return count ? `${name} (${count + 1})` : name;
+  });
+  return { headers, rows: grid.slice(headerRow + 1) };
+}
+
+const findHeader = (headers: string[], candidates: string[]) =>
+  headers.find(h => candidates.includes(h.toLowerCase().replace(/[^a-z ]/g, "").trim())) ?? "";
+
+// The first row whose cells match known item/amount headers is probably the header row
+export function detectHeaderRow(grid: CsvGrid): number {
+  const limit = Math.min(grid.length, 10);
+  for (let i = 0; i < limit; i++) {
+    const headers = grid[i];
+    if (findHeader(headers, ITEM_HEADERS) && (
+      findHeader(headers, DEBIT_HEADERS) || findHeader(headers, AMOUNT_HEADERS)
+    )) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+export function guessMapping(grid: CsvGrid): ColumnMapping {
+  const headerRow = detectHeaderRow(grid);
+  const { headers } = toTable(grid, headerRow);
+  const debit = findHeader(headers, DEBIT_HEADERS);
+  const credit = findHeader(headers, CREDIT_HEADERS);
+  const amount = findHeader(headers, AMOUNT_HEADERS);
+
+  return {
+    headerRow,
+    mode: !debit && !credit && amount ? "signed" : "split",
+    items: findHeader(headers, ITEM_HEADERS) || headers[0] || "",
+    debit,
+    credit,
+    amount,
+    positiveIs: "debit",
+    date: findHeader(headers, DATE_HEADERS),
+    reference: findHeader(headers, REFERENCE_HEADERS),
+  };
+}
+
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+// A currency code or symbol written before or after the figure, e.g. "KES", "KSh", "$" or "€"
+const CURRENCY_PREFIX = /^(?:[a-z]{1,3}\.?|[$€£])\s*/i;
+const CURRENCY_SUFFIX = /\s*(?:[a-z]{1,3}\.?|[$€£])$/i;
+
+type DecimalSeparator = "." | ",";
+
+const decimalSeparators = new Map<string, DecimalSeparator>();
+
+// "." for en-US, "," for de-DE; locales that use neither read like en-US
+function decimalSeparatorOf(locale: string): DecimalSeparator {
+  let decimal = decimalSeparators.get(locale);
+  if (!decimal) {
+    const part = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === "decimal");
+    decimal = part?.value === "," ? "," : ".";
+    decimalSeparators.set(locale, decimal);
+  }
+  return decimal;
+}
+
+// Digits with one kind of thousands separator, in groups of three after the first 1 to 3 digits,
+// and an optional fraction after the decimal separator. NaN for "1,234,5" or "12,34".
+function readDigits(text: string, decimal: DecimalSeparator | null): number {
+  const [integer, fraction = "", ...rest] = decimal ? text.split(decimal) : [text];
+  if (rest.length > 0 || !/^\d*$/.test(fraction)) return NaN;
+  const separators = new Set(integer.match(/[^\d]/g));
+  const groups = integer.split(/[^\d]/);
+  if (separators.size > 1) return NaN;
+  if (groups.length > 1 && !(/^\d{1,3}$/.test(groups[0]) && groups.slice(1).every(g => /^\d{3}$/.test(g)))) return NaN;
+  return Number(`${groups.join("")}.${fraction}`);
+}
+
+// Read an amount in either number convention: "1,234.56", "1.234,56", "1 234,56", "KES 1,200" or
+// "(1,200)" for a negative. A single "," or "." is read the locale's way first, so "1.234" is 1234
+// where the decimal separator is a comma. NaN when the text is not an amount. The backend's
+// parse_amount follows the same rules for en-US.
+export function parseLocaleNumber(value: string, locale = DEFAULT_DISPLAY_SETTINGS.locale): number {
+  let text = value.trim();
+  if (PLAIN_NUMBER.test(text) && (decimalSeparatorOf(locale) === "." || !text.includes("."))) return Number(text);
+
+  let negative = false;
+  text = text.replace(CURRENCY_PREFIX, "").replace(CURRENCY_SUFFIX, "");
+  const bracketed = text.match(/^\((.*)\)$/);
+  if (bracketed) {
+    negative = true;
+    text = bracketed[1].trim().replace(CURRENCY_PREFIX, "").replace(CURRENCY_SUFFIX, "");
+  }
+  const sign = text.match(/^[-−+]\s*|\s*-$/);
+  if (sign) {
+    if (sign[0].trim() !== "+") negative = !negative;
+    text = text.replace(sign[0], "").replace(CURRENCY_PREFIX, "");
+  }
+  // Spaces and apostrophes only ever group thousands
+  text = text.replace(/[\s\u00a0\u202f]/g, " ");
+  if (!/^[\d.,' ]*\d[\d.,' ]*$/.test(text)) return NaN;
+
+  const separators = text.match(/[.,]/g) ?? [];
+  let readings: (DecimalSeparator | null)[] = [null];
+  if (new Set(separators).size === 2) {
+    // Both used: whichever comes last is the decimal separator
+    readings = [text.lastIndexOf(",") > text.lastIndexOf(".") ? "," : "."];
+  } else if (separators.length === 1) {
+    // "1,234" groups thousands and "12,5" has a decimal comma; when both readings work the locale decides
+    const separator = separators[0] as DecimalSeparator;
+    readings = separator === decimalSeparatorOf(locale) ? [separator, null] : [null, separator];
+  }
+  for (const decimal of readings) {
+    const number = readDigits(text, decimal);
+    if (!Number.isNaN(number)) return negative ? -number : number;
+  }
+  return NaN;
+}
+
+// Parse "1,234.50", "$1,234.50", "1.234,50" or "(1,234.50)" into a number; blank cells count as zero
+export function parseAmount(value: string | undefined, locale?: string): number {
+  if (!value || !value.trim()) return 0;
+  const number = parseLocaleNumber(value, locale);
+  if (Number.isNaN(number)) {
+    throw new LocalizedError("file.invalidAmount", { value });
+  }
+  return number;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// A calendar date, or null when the day or month is out of range. Date would roll 31/02 over
+// into March and month 13 into the next year, so both are checked after building it.
+function calendarDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12) return null;
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// Accept ISO dates, day-first "31/01/2024" as used across East Africa, and anything Date can parse.
+// US month-first dates such as "12/25/2024" are rejected rather than read with the wrong month.
+export function parseDate(value: string | undefined): string {
+  const text = (value ?? "").trim();
+  const iso = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  let date: Date | null = null;
+  if (iso) {
+    date = calendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  } else if (dayFirst) {
+    const year = Number(dayFirst[3]) + (dayFirst[3].length === 2 ? 2000 : 0);
+    date = calendarDate(year, Number(dayFirst[2]), Number(dayFirst[1]));
+  } else if (text) {
+    const parsed = new Date(text);
+    if (!Number.isNaN(parsed.getTime())) date = parsed;
+  }
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new LocalizedError("file.invalidDate", { value: text });
+  }
+  return formatDate(date);
+}
+
+// The problem as a message key, or null when the mapping can be used
+export function validateMapping(mapping: ColumnMapping, table: CsvTable): MessageKey | null {
+  const required = mapping.mode === "split"
+    ? [mapping.items, mapping.debit, mapping.credit]
+    : [mapping.items, mapping.amount];
+  if (required.some(col => !col)) {
+    return mapping.mode === "split"
+      ? "mapper.chooseSplitColumns"
+      : "mapper.chooseAmountColumns";
+  }
+  if (required.some(col => !table.headers.includes(col))) {
+    return "mapper.missingColumns";
+  }
+  if (mapping.mode === "split" && mapping.debit === mapping.credit) {
+    return "mapper.sameDebitCredit";
+  }
+  if ([mapping.date, mapping.reference].some(col => col && !table.headers.includes(col))) {
+    return "mapper.missingColumns";
+  }
+  return null;
+}
+
+// Apply the mapping and return rows in the backend's items/debit/credit shape; amounts are read
+// in the display locale's number convention
+export function normalizeRows(mapping: ColumnMapping, table: CsvTable, locale?: string): LedgerLine[] {
+  const col = (name: string) => table.headers.indexOf(name);
+  const itemsIdx = col(mapping.items);
+
+  return table.rows
+    .filter(row => (row[itemsIdx] ?? "").trim() !== "")
+    .map(row => {
+      const items = row[itemsIdx].trim();
+      let line: LedgerLine;
+      if (mapping.mode === "split") {
+        // A negative debit, such as a reversal, is posted as a credit and a negative credit as a debit
+        const debit = parseAmount(row[col(mapping.debit)], locale);
+        const credit = parseAmount(row[col(mapping.credit)], locale);
+        line = {
+          items,
+          debit: Math.max(debit, 0) + Math.max(-credit, 0),
+          credit: Math.max(credit, 0) + Math.max(-debit, 0),
+        };
+      } else {
+        const amount = parseAmount(row[col(mapping.amount)], locale);
+        const signed = mapping.positiveIs === "debit" ? amount : -amount;
+        line = {
+          items,
+          debit: signed > 0 ? signed : 0,
+          credit: signed < 0 ? -signed : 0,
+        };
+      }
+      if (mapping.date) {
+        line.date = parseDate(row[col(mapping.date)]);
+        line.reference = mapping.reference ? (row[col(mapping.reference)] ?? "").trim() : "";
+      }
+      return line;
+    });
+}
+
+// Journal lines summed per account, in order of first appearance, as a trial balance
+export function groupByAccount(lines: LedgerLine[]): LedgerRow[] {
+  const accounts = new Map<string, LedgerRow>();
+  for (const line of lines) {
+    const account = accounts.get(line.items) ?? { items: line.items, debit: 0, credit: 0 };
+    account.debit += line.debit;
+    account.credit += line.credit;
+    accounts.set(line.items, account);
+  }
+  return [...accounts.values()];
+}
+
+// Build the normalized CSV file that is sent to /upload-csv; journals keep their date and reference columns.
+// Only the backend reads it, so account names are sent unchanged rather than guarded against formulas.
+export function buildNormalizedFile(rows: LedgerLine[], fileName: string): File {
+  const isJournal = rows.length > 0 && rows.every(r => r.date);
+  const csv = isJournal
+    ? toCsv([["items", "debit", "credit", "date", "reference"], ...rows.map(r => [r.items, r.debit, r.credit, r.date, r.reference])], { guardFormulas: false })
+    : toCsv([["items", "debit", "credit"], ...rows.map(r => [r.items, r.debit, r.credit])], { guardFormulas: false });
+  const name = `${fileName.replace(/\.(csv|xlsx|xls|json)$/i, "")}.csv`;
+  return new File([csv], name, { type: "text/csv" });
+}
+
+export function loadPresets(): MappingPreset[] {
+  try {
+    const stored: MappingPreset[] = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? "[]");
+    // Presets saved before journal support have no date or reference column
+    return stored.map(p => ({ ...p, mapping: { ...p.mapping, date: p.mapping.date ?? "", reference: p.mapping.reference ?? "" } }));
+  } catch {
+    return [];
+  }
+}
+
+export function savePreset(preset: MappingPreset): MappingPreset[] {
+  const presets = [...loadPresets().filter(p => p.name !== preset.name), preset];
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+export function deletePreset(name: string): MappingPreset[] {
+  const presets = loadPresets().filter(p => p.name !== name);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
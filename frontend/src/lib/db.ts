@@ -0,0 +1,53 @@
+// Local IndexedDB database shared by the history, review and checklist stores
+const DB_NAME = "tathmini";
+const DB_VERSION = 3;
+
+export const RUNS_STORE = "runs";
+export const REVIEWS_STORE = "reviews";
+export const CHECKLISTS_STORE = "checklists";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          const store = db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+          store.createIndex("fileHash", "fileHash");
+        }
+        if (!db.objectStoreNames.contains(REVIEWS_STORE)) {
+          db.createObjectStore(REVIEWS_STORE, { keyPath: "runKey" });
+        }
+        if (!db.objectStoreNames.contains(CHECKLISTS_STORE)) {
+          db.createObjectStore(CHECKLISTS_STORE, { keyPath: "runKey" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Could not open local database"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request against one store and resolve with its result
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error("Local database error"));
+    tx.onabort = () => reject(tx.error ?? new Error("Local database transaction aborted"));
+  });
+}
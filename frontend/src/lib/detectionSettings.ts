@@ -0,0 +1,93 @@
+import type { MessageKey } from "../locales/en";
+
+// Detection parameters sent with each upload; they mirror the optional /upload-csv form fields
+export interface DetectionSettings {
+  amountFloor: number;
+  amountPercentile: number;
+  imbalanceThreshold: number;
+  // null lets the backend pick min(5%, 10 rows)
+  contamination: number | null;
+  // Journal lines dated after this (YYYY-MM-DD) are flagged; null skips the check
+  closeDate: string | null;
+}
+
+export interface DetectionPreset {
+  id: string;
+  label: string;
+  description: string;
+  settings: DetectionSettings;
+}
+
+export const DETECTION_PRESETS: DetectionPreset[] = [
+  {
+    id: "small",
+    label: "Small entity",
+    description: "Charities, SMEs and sole traders",
+    settings: { amountFloor: 1000, amountPercentile: 90, imbalanceThreshold: 500, contamination: null, closeDate: null },
+  },
+  {
+    id: "mid",
+    label: "Mid-market",
+    description: "The backend defaults",
+    settings: { amountFloor: 10000, amountPercentile: 95, imbalanceThreshold: 5000, contamination: null, closeDate: null },
+  },
+  {
+    id: "enterprise",
+    label: "Enterprise",
+    description: "Listed companies and large groups",
+    settings: { amountFloor: 250000, amountPercentile: 99, imbalanceThreshold: 100000, contamination: 0.02, closeDate: null },
+  },
+];
+
+export const DEFAULT_DETECTION_SETTINGS = DETECTION_PRESETS[1].settings;
+
+const SETTINGS_KEY = "tathmini.detectionSettings";
+
+export function loadDetectionSettings(): DetectionSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_DETECTION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_DETECTION_SETTINGS;
+  } catch {
+    return DEFAULT_DETECTION_SETTINGS;
+  }
+}
+
+export function saveDetectionSettings(settings: DetectionSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function matchPreset(settings: DetectionSettings): DetectionPreset | undefined {
+  return DETECTION_PRESETS.find(p =>
+    p.settings.amountFloor === settings.amountFloor &&
+    p.settings.amountPercentile === settings.amountPercentile &&
+    p.settings.imbalanceThreshold === settings.imbalanceThreshold &&
+    p.settings.contamination === settings.contamination
+  );
+}
+
+// Presets only cover the thresholds, so choosing one keeps the close date
+export const applyPreset = (settings: DetectionSettings, preset: DetectionPreset): DetectionSettings =>
+  ({ ...preset.settings, closeDate: settings.closeDate });
+
+// Same checks as the backend, so bad values are caught before the upload; returns the message key
+export function validateDetectionSettings(settings: DetectionSettings): MessageKey | null {
+  if (settings.amountFloor < 0 || settings.imbalanceThreshold < 0) return "settings.negativeThreshold";
+  if (settings.amountPercentile < 50 || settings.amountPercentile > 100) return "settings.percentileRange";
+  if (settings.contamination !== null && (settings.contamination <= 0 || settings.contamination > 0.5)) {
+    return "settings.contaminationRange";
+  }
+  if (settings.closeDate !== null && Number.isNaN(Date.parse(settings.closeDate))) return "settings.invalidCloseDate";
+  return null;
+}
+
+export function appendDetectionSettings(formData: FormData, settings: DetectionSettings) {
+  formData.append("amount_floor", String(settings.amountFloor));
+  formData.append("amount_percentile", String(settings.amountPercentile));
+  formData.append("imbalance_threshold", String(settings.imbalanceThreshold));
+  if (settings.contamination !== null) {
+    formData.append("contamination", String(settings.contamination));
+  }
+  if (settings.closeDate !== null) {
+    formData.append("close_date", settings.closeDate);
+  }
+}
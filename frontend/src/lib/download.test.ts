@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./download";
+
+describe("toCsv", () => {
+  it("quotes separators, quotes and newlines", () => {
+    expect(toCsv([["items", "note"], ["Rent, office", 'He said "paid"'], ["Line\nbreak", null]]))
+      .toBe('items,note\r\n"Rent, office","He said ""paid"""\r\n"Line\nbreak",');
+  });
+
+  it.each([
+    ["=HYPERLINK(\"http://example.com\")", "\"'=HYPERLINK(\"\"http://example.com\"\")\""],
+    ["+254 700 000000", "'+254 700 000000"],
+    ["-Suspense", "'-Suspense"],
+    ["@SUM(A1:A2)", "'@SUM(A1:A2)"],
+    ["\tCash", "'\tCash"],
+  ])("guards %j against running as a formula", (text, expected) => {
+    expect(toCsv([[text]])).toBe(expected);
+  });
+
+  it("leaves numbers, including negative ones, as numbers", () => {
+    expect(toCsv([[-1200, 0.5]])).toBe("-1200,0.5");
+  });
+
+  it("writes text unchanged when the guard is off", () => {
+    expect(toCsv([["=1+1", "-Suspense"]], { guardFormulas: false })).toBe("=1+1,-Suspense");
+  });
+});
@@ -0,0 +1,127 @@
+// Trigger a browser download for an in-memory file
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Strip the extension so exports can reuse the uploaded file's name
+export function baseName(fileName: string | null, fallback = "audit"): string {
+  if (!fileName) return fallback;
+  return fileName.replace(/\.[^.]+$/, "") || fallback;
+}
+
+// Text a spreadsheet would run as a formula when the CSV is opened, e.g. "=HYPERLINK(...)"
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quote a value for CSV output when it contains separators, quotes or newlines. Text that starts like
+// a formula gets a leading apostrophe unless guardFormulas is off; numbers are written as they are.
+export function csvCell(value: string | number | null | undefined, guardFormulas = true): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (guardFormulas && typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][], { guardFormulas = true } = {}): string {
+  return rows.map(row => row.map(cell => csvCell(cell, guardFormulas)).join(",")).join("\r\n");
+}
+
+interface ScatterPoint {
+  debit: number;
+  credit: number;
+  is_anomaly: boolean;
+}
+
+// Draw the debit-against-credit scatter straight from the data, in the overview chart's colours, for
+// exports made while that chart is not on screen. Null when the browser cannot draw on a canvas.
+export function scatterToPng(points: ScatterPoint[], background = "#ffffff", width = 800, height = 400): string | null {
+  const scale = 2;
+  const canvas = document.createElement("canvas");
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.scale(scale, scale);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+
+  const pad = 48;
+  const maxDebit = points.reduce((max, p) => Math.max(max, p.debit), 1);
+  const maxCredit = points.reduce((max, p) => Math.max(max, p.credit), 1);
+  const x = (debit: number) => pad + (debit / maxDebit) * (width - 2 * pad);
+  const y = (credit: number) => height - pad - (credit / maxCredit) * (height - 2 * pad);
+
+  ctx.strokeStyle = "#9ca3af";
+  ctx.beginPath();
+  ctx.moveTo(pad, pad);
+  ctx.lineTo(pad, height - pad);
+  ctx.lineTo(width - pad, height - pad);
+  ctx.stroke();
+  ctx.fillStyle = "#9ca3af";
+  ctx.font = "12px sans-serif";
+  const compact = (value: number) => value.toLocaleString("en-US", { notation: "compact", maximumFractionDigits: 1 });
+  ctx.fillText(`Debit (max ${compact(maxDebit)})`, width / 2 - 40, height - pad / 3);
+  ctx.save();
+  ctx.translate(pad / 3, height / 2 + 40);
+  ctx.rotate(-Math.PI / 2);
+  ctx.fillText(`Credit (max ${compact(maxCredit)})`, 0, 0);
+  ctx.restore();
+
+  // Anomalies last so they sit on top of the ordinary rows
+  for (const anomaly of [false, true]) {
+    ctx.fillStyle = anomaly ? "#ef4444" : "rgba(156, 163, 175, 0.6)";
+    for (const p of points.filter(point => point.is_anomaly === anomaly)) {
+      ctx.beginPath();
+      ctx.arc(x(p.debit), y(p.credit), 3, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  }
+  return canvas.toDataURL("image/png");
+}
+
+// Render the first SVG inside a container (e.g. a recharts chart) to a PNG data URL
+export async function svgToPng(container: HTMLElement | null, background = "#ffffff"): Promise<string | null> {
+  const svg = container?.querySelector("svg");
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  if (!width || !height) return null;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  const markup = new XMLSerializer().serializeToString(clone);
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }));
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Could not render chart image"));
+      img.src = url;
+    });
+
+    // Render at 2x so the chart stays sharp when printed
+    const scale = 2;
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL("image/png");
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
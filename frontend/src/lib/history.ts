@@ -0,0 +1,52 @@
+import type { ApiResponse } from "../types";
+import type { LedgerLine } from "./csvMapping";
+import { RUNS_STORE, withStore } from "./db";
+import { upgradeResult } from "./recommendations";
+
+// A saved analysis, kept in the browser so past periods can be reopened and compared
+export interface RunRecord {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  createdAt: string;
+  result: ApiResponse;
+  // Normalized lines as uploaded; journals keep their dates, older runs saved per-account totals
+  rows: LedgerLine[];
+}
+
+export type RunSummary = Omit<RunRecord, "rows">;
+
+// SHA-256 of the uploaded file, used to recognise re-uploads of the same data
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Callers may choose the id up front so the run's URL is known before it is saved
+export async function saveRun(run: Omit<RunRecord, "id" | "createdAt"> & { id?: string }): Promise<RunRecord> {
+  const record: RunRecord = {
+    ...run,
+    id: run.id ?? crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  await withStore(RUNS_STORE, "readwrite", store => store.put(record));
+  return record;
+}
+
+export async function getRun(id: string): Promise<RunRecord | undefined> {
+  const run = await withStore(RUNS_STORE, "readonly", store => store.get(id) as IDBRequest<RunRecord | undefined>);
+  return run && { ...run, result: upgradeResult(run.result) };
+}
+
+// Newest first. IndexedDB reads each record whole, rows included; they are dropped
+// here so the list held in memory stays light.
+export async function listRuns(): Promise<RunSummary[]> {
+  const runs = await withStore(RUNS_STORE, "readonly", store => store.getAll() as IDBRequest<RunRecord[]>);
+  return runs
+    .map(({ id, fileName, fileHash, createdAt, result }) => ({ id, fileName, fileHash, createdAt, result: upgradeResult(result) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  await withStore(RUNS_STORE, "readwrite", store => store.delete(id));
+}
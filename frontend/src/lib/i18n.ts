@@ -0,0 +1,123 @@
+import { createContext, useContext } from "react";
+import { en, type MessageKey } from "../locales/en";
+import { sw } from "../locales/sw";
+
+export type Language = "en" | "sw";
+
+export type Currency = "KES" | "USD" | "EUR" | "TZS" | "UGX";
+
+// How numbers, dates and money are shown; the locale also picks the UI language
+export interface DisplaySettings {
+  locale: string;
+  currency: Currency;
+}
+
+export const LOCALES: { value: string; label: string }[] = [
+  { value: "en-US", label: "English (United States)" },
+  { value: "en-GB", label: "English (United Kingdom)" },
+  { value: "en-KE", label: "English (Kenya)" },
+  { value: "sw-KE", label: "Kiswahili (Kenya)" },
+  { value: "sw-TZ", label: "Kiswahili (Tanzania)" },
+  { value: "sw-UG", label: "Kiswahili (Uganda)" },
+];
+
+export const CURRENCIES: { value: Currency; label: string }[] = [
+  { value: "KES", label: "KES · Kenyan shilling" },
+  { value: "TZS", label: "TZS · Tanzanian shilling" },
+  { value: "UGX", label: "UGX · Ugandan shilling" },
+  { value: "USD", label: "USD · US dollar" },
+  { value: "EUR", label: "EUR · Euro" },
+];
+
+// The dashboard showed US dollars before the setting existed
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = { locale: "en-US", currency: "USD" };
+
+const STORAGE_KEY = "tathmini.display";
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en, sw };
+
+export function loadDisplaySettings(): DisplaySettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (
+      stored &&
+      LOCALES.some(l => l.value === stored.locale) &&
+      CURRENCIES.some(c => c.value === stored.currency)
+    ) {
+      return { locale: stored.locale, currency: stored.currency };
+    }
+  } catch {
+    // Ignore corrupted storage and fall back to the defaults
+  }
+  return DEFAULT_DISPLAY_SETTINGS;
+}
+
+export function saveDisplaySettings(settings: DisplaySettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export const languageOf = (locale: string): Language => (locale.startsWith("sw") ? "sw" : "en");
+
+// Money in the chosen currency, e.g. "KES 1,234.50" or "Ksh 1,234.50" depending on the locale
+export const moneyFormatter = (settings: DisplaySettings, options: Intl.NumberFormatOptions = {}) =>
+  new Intl.NumberFormat(settings.locale, { style: "currency", currency: settings.currency, ...options });
+
+export type MessageValues = Record<string, string | number>;
+
+export interface I18n extends DisplaySettings {
+  language: Language;
+  // Message for the key with {name} placeholders filled in; English when a key is missing
+  t: (key: MessageKey, values?: MessageValues) => string;
+  formatMoney: (value: number) => string;
+  // Short money for chart axes, e.g. "KES 1.2M"
+  formatMoneyCompact: (value: number) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDateTime: (value: string | Date) => string;
+}
+
+export function createI18n(settings: DisplaySettings): I18n {
+  const language = languageOf(settings.locale);
+  const messages = MESSAGES[language];
+  const money = moneyFormatter(settings);
+  const compact = moneyFormatter(settings, { notation: "compact", maximumFractionDigits: 1 });
+  const dateTime = new Intl.DateTimeFormat(settings.locale, { dateStyle: "medium", timeStyle: "short" });
+
+  return {
+    ...settings,
+    language,
+    t: (key, values) => {
+      const template = messages[key] ?? en[key] ?? key;
+      return values ? template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match)) : template;
+    },
+    formatMoney: value => money.format(value),
+    formatMoneyCompact: value => compact.format(value),
+    formatNumber: (value, options) => value.toLocaleString(settings.locale, options),
+    formatDateTime: value => dateTime.format(typeof value === "string" ? new Date(value) : value),
+  };
+}
+
+// Exported working papers and checklists are written in English whatever the display language
+export const exportText = createI18n(DEFAULT_DISPLAY_SETTINGS).t;
+
+
+// An error that can be shown in the display language; the message itself is the English text
+export class LocalizedError extends Error {
+  readonly key: MessageKey;
+  readonly values: MessageValues;
+
+  constructor(key: MessageKey, values: MessageValues = {}, options?: ErrorOptions) {
+    super(exportText(key, values), options);
+    this.name = "LocalizedError";
+    this.key = key;
+    this.values = values;
+  }
+}
+
+// The error in the display language; other errors keep their own message
+export const describeError = (err: unknown, t: I18n["t"], fallback: MessageKey) =>
+  err instanceof LocalizedError ? t(err.key, err.values) : err instanceof Error ? err.message : t(fallback);
+
+// Provided by the app layout; the default keeps components usable outside it
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_DISPLAY_SETTINGS));
+
+export const useI18n = () => useContext(I18nContext);
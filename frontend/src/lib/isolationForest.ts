@@ -0,0 +1,98 @@
+// A small isolation forest after Liu et al. (2008), close to scikit-learn's IsolationForest:
+// 100 trees on sub-samples of up to 256 rows, random axis-aligned splits, and the same
+// contamination-based offset, so scores keep the backend's sign (positive means outlier).
+const TREES = 100;
+const MAX_SAMPLES = 256;
+const EULER_GAMMA = 0.5772156649;
+
+type Node =
+  | { size: number }
+  | { feature: number; threshold: number; left: Node; right: Node };
+
+// Seeded PRNG (mulberry32) so the same file always gets the same scores
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Average path length of an unsuccessful search in a binary tree of n points
+function averagePathLength(n: number): number {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  return 2 * (Math.log(n - 1) + EULER_GAMMA) - (2 * (n - 1)) / n;
+}
+
+function buildTree(points: number[][], depth: number, maxDepth: number, random: () => number): Node {
+  if (depth >= maxDepth || points.length <= 1) return { size: points.length };
+
+  // Start at a random feature and split on the first one that is not constant
+  const dimensions = points[0].length;
+  const start = Math.floor(random() * dimensions);
+  for (let k = 0; k < dimensions; k++) {
+    const feature = (start + k) % dimensions;
+    let min = Infinity;
+    let max = -Infinity;
+    for (const point of points) {
+      min = Math.min(min, point[feature]);
+      max = Math.max(max, point[feature]);
+    }
+    if (min === max) continue;
+    const threshold = min + random() * (max - min);
+    return {
+      feature,
+      threshold,
+      left: buildTree(points.filter(p => p[feature] < threshold), depth + 1, maxDepth, random),
+      right: buildTree(points.filter(p => p[feature] >= threshold), depth + 1, maxDepth, random),
+    };
+  }
+  return { size: points.length };
+}
+
+function pathLength(node: Node, point: number[], depth = 0): number {
+  if ("size" in node) return depth + averagePathLength(node.size);
+  return pathLength(point[node.feature] < node.threshold ? node.left : node.right, point, depth + 1);
+}
+
+// Linear-interpolated percentile (fraction 0 to 1), as numpy.percentile and pandas' quantile
+export function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Outlier score per point; the contamination share of points ends up above zero
+export function isolationScores(points: number[][], contamination: number, seed = 42): number[] {
+  if (points.length === 0) return [];
+  const random = seededRandom(seed);
+  const sampleSize = Math.min(MAX_SAMPLES, points.length);
+  const maxDepth = Math.ceil(Math.log2(Math.max(sampleSize, 2)));
+
+  const trees: Node[] = [];
+  for (let t = 0; t < TREES; t++) {
+    // Partial Fisher-Yates shuffle to sample without replacement
+    const indices = points.map((_, i) => i);
+    for (let i = 0; i < sampleSize; i++) {
+      const j = i + Math.floor(random() * (indices.length - i));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    trees.push(buildTree(indices.slice(0, sampleSize).map(i => points[i]), 0, maxDepth, random));
+  }
+
+  const norm = averagePathLength(sampleSize) || 1;
+  // Anomaly score in (0, 1]; higher is more isolated
+  const scores = points.map(point => {
+    const mean = trees.reduce((sum, tree) => sum + pathLength(tree, point), 0) / trees.length;
+    return 2 ** (-mean / norm);
+  });
+  // scikit-learn's offset: the contamination percentile of the negated scores
+  const offset = percentile(scores.map(s => -s), contamination);
+  return scores.map(s => s + offset);
+}
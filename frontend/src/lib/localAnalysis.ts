@@ -0,0 +1,88 @@
+import type { ApiResponse, AnalysisResult, Recommendations, StreamEvent } from "../types";
+import type { MessageKey } from "../locales/en";
+import { ApiError, type RequestOptions, type StreamCallbacks } from "./api";
+import type { DetectionSettings } from "./detectionSettings";
+import { LocalizedError, type MessageValues } from "./i18n";
+
+const LOCAL_ONLY_KEY = "tathmini.localOnly";
+
+// What the analysis worker posts back: the stream events, with errors split into bad files and crashes.
+// Errors lose their class crossing to the page, so they carry the message key instead.
+export type LocalAnalysisEvent =
+  | Exclude<StreamEvent, { type: "error" }>
+  | { type: "error"; kind: "validation" | "failed"; key: MessageKey; values: MessageValues };
+
+// Local-only mode keeps ledgers on this machine: no upload and no LLM
+export function loadLocalOnly(): boolean {
+  return localStorage.getItem(LOCAL_ONLY_KEY) === "true";
+}
+
+export function saveLocalOnly(localOnly: boolean) {
+  localStorage.setItem(LOCAL_ONLY_KEY, String(localOnly));
+}
+
+// Same contract as uploadCsvStream, but the analysis runs in a Web Worker in this browser
+export function analyzeLocally(
+  file: File,
+  settings: DetectionSettings,
+  callbacks: StreamCallbacks = {},
+  options: Pick<RequestOptions, "signal"> = {}
+): Promise<ApiResponse> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" });
+    let analysis: AnalysisResult | null = null;
+    let recommendations: Recommendations | null = null;
+
+    const onAbort = () => finish(() => reject(new ApiError("aborted", "error.localCancelled")));
+    const finish = (action: () => void) => {
+      worker.terminate();
+      options.signal?.removeEventListener("abort", onAbort);
+      action();
+    };
+
+    worker.onmessage = (e: MessageEvent<LocalAnalysisEvent>) => {
+      const event = e.data;
+      switch (event.type) {
+        case "stage":
+          callbacks.onStage?.(event);
+          break;
+        case "analysis":
+          analysis = event.data;
+          callbacks.onAnalysis?.(event.data);
+          break;
+        case "recommendations":
+          recommendations = event.recommendations;
+          break;
+        case "error":
+          finish(() =>
+            reject(event.kind === "validation"
+              ? new ApiError("validation", event.key, { values: event.values })
+              : new LocalizedError(event.key, event.values))
+          );
+          break;
+        case "done":
+          finish(() => {
+            if (analysis && recommendations) {
+              resolve({ ...analysis, recommendations });
+            } else {
+              reject(new LocalizedError("error.localIncomplete"));
+            }
+          });
+          break;
+      }
+    };
+    worker.onerror = e => {
+      e.preventDefault();
+      finish(() => reject(e.message ? new LocalizedError("error.localFailed", { detail: e.message }) : new LocalizedError("error.workerStart")));
+    };
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener("abort", onAbort);
+    // Nothing is uploaded, so the transfer step is complete straight away
+    callbacks.onUploadProgress?.(1);
+    worker.postMessage({ file, settings });
+  });
+}
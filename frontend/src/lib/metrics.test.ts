@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { FIXTURES, normalizedFile, normalizedLines, type LedgerFixture } from "../test/fixtures";
+import { analyzeCsv } from "../test/mockBackend";
+import type { AnalysisResult } from "../types";
+import { groupByAccount } from "./csvMapping";
+import { createI18n, DEFAULT_DISPLAY_SETTINGS } from "./i18n";
+import { calculateMetrics } from "./metrics";
+import { describeFactor } from "./risk";
+
+async function analyzeFixture(fixture: LedgerFixture): Promise<AnalysisResult> {
+  const file = await normalizedFile(fixture);
+  return analyzeCsv(file.name, await file.text());
+}
+
+const factor = (result: AnalysisResult, id: string) =>
+  calculateMetrics(result).riskFactors.find(f => f.id === id);
+
+const detail = (result: AnalysisResult, id: string, display = DEFAULT_DISPLAY_SETTINGS) =>
+  describeFactor(factor(result, id)!, createI18n(display));
+
+describe("calculateMetrics", () => {
+  it("returns zeros before there is a run", () => {
+    expect(calculateMetrics(null)).toEqual({ totalDebit: 0, totalCredit: 0, variance: "0", riskScore: 0, riskFactors: [] });
+  });
+
+  it("shows no variance for a balanced trial balance", async () => {
+    const metrics = calculateMetrics(await analyzeFixture(FIXTURES.kenyanSme));
+
+    expect(metrics.totalDebit).toBe(FIXTURES.kenyanSme.totalDebit);
+    expect(metrics.totalCredit).toBe(FIXTURES.kenyanSme.totalCredit);
+    expect(metrics.variance).toBe("0.0");
+  });
+
+  it("shows the variance of an unbalanced trial balance as a share of debits", async () => {
+    const result = await analyzeFixture(FIXTURES.unbalanced);
+
+    expect(calculateMetrics(result).variance).toBe("-0.1");
+    expect(factor(result, "imbalance")).toMatchObject({ weight: 30, points: 1 });
+    expect(detail(result, "imbalance")).toBe("The gap is 0.1% of total activity");
+    expect(detail(result, "imbalance", { locale: "sw-KE", currency: "KES" })).toBe("Tofauti ni 0.1% ya shughuli zote");
+  });
+
+  it("does not count an imbalance for a balanced run", async () => {
+    const result = await analyzeFixture(FIXTURES.kenyanSme);
+
+    expect(factor(result, "imbalance")?.points).toBe(0);
+    expect(detail(result, "imbalance")).toBe("Debits and credits agree");
+  });
+
+  it("gives no exposure when nothing was flagged", async () => {
+    const result = { ...(await analyzeFixture(FIXTURES.kenyanSme)), anomalies: [] };
+
+    expect(factor(result, "anomaly_exposure")?.points).toBe(0);
+    expect(detail(result, "anomaly_exposure")).toBe("0.0% of total activity is in 0 flagged lines");
+    expect(factor(result, "one_sided")?.points).toBe(0);
+  });
+
+  it("scores out of 100 from the weighted factors", async () => {
+    const metrics = calculateMetrics(await analyzeFixture(FIXTURES.unbalanced));
+
+    expect(metrics.riskFactors.map(f => f.weight)).toEqual([35, 30, 15, 20]);
+    expect(metrics.riskScore).toBe(metrics.riskFactors.reduce((sum, f) => sum + f.points, 0));
+    expect(metrics.riskScore).toBeLessThanOrEqual(100);
+  });
+
+  it("measures concentration over journal accounts, not single postings", async () => {
+    const result = await analyzeFixture(FIXTURES.sageJournal);
+    const lines = await normalizedLines(FIXTURES.sageJournal);
+    const byAccount = groupByAccount(lines).map(row => ({ ...row }));
+
+    expect(calculateMetrics(result, lines)).toEqual(calculateMetrics(result, byAccount));
+  });
+});
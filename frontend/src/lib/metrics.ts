@@ -0,0 +1,16 @@
+import type { AnalysisResult } from "../types";
+import type { LedgerLine } from "./csvMapping";
+import type { ReportMetrics } from "./report";
+import { assessRisk } from "./risk";
+
+// Headline figures shown on the dashboard and in exported reports
+export function calculateMetrics(result: AnalysisResult | null, rows: LedgerLine[] = []): ReportMetrics {
+  if (!result) return { totalDebit: 0, totalCredit: 0, variance: "0", riskScore: 0, riskFactors: [] };
+
+  const totalDebit = result.total_debit;
+  const totalCredit = result.total_credit;
+  const variance = totalDebit > 0 ? ((totalDebit - totalCredit) / totalDebit * 100).toFixed(1) : "0";
+  const risk = assessRisk(result, rows);
+
+  return { totalDebit, totalCredit, variance, riskScore: risk.score, riskFactors: risk.factors };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import type { LedgerRow } from "../types";
+import { DEFAULT_DETECTION_SETTINGS } from "./detectionSettings";
+import { detectAnomalies, summarizeAccounts, summarizeDataset } from "./pipeline";
+
+describe("large ledgers", () => {
+  // Big enough that spreading the amounts or scores into Math.min/Math.max overflows the stack
+  const ROWS = 200_000;
+
+  it("summarizes a general ledger with hundreds of thousands of lines", () => {
+    const rows: LedgerRow[] = Array.from({ length: ROWS }, (_, i) => ({
+      items: i % 10 === 0 ? `Customer ${i % 500}` : "Sales",
+      debit: i % 2 === 0 ? 100 + (i % 9_973) : 0,
+      credit: i % 2 === 0 ? 0 : 100 + (i % 9_973),
+    }));
+
+    const { scored } = detectAnomalies(rows, DEFAULT_DETECTION_SETTINGS);
+    const dataset = summarizeDataset(scored);
+    const accounts = summarizeAccounts(scored);
+
+    expect(dataset.histogram.reduce((total, bin) => total + bin.count, 0)).toBe(ROWS);
+    const salesScores = scored.filter(row => row.items === "Sales").map(row => row.score);
+    expect(accounts.find(a => a.items === "Sales")?.score).toBeCloseTo(salesScores.reduce((a, b) => Math.max(a, b)), 4);
+    // Scoring this many rows takes a few seconds on a slow machine
+  }, 30_000);
+});
@@ -0,0 +1,497 @@
+import Papa from "papaparse";
+import type { MessageKey } from "../locales/en";
+import type {
+  AccountSummary,
+  Analytics,
+  Anomaly,
+  AnomalyReason,
+  BenfordTest,
+  Dataset,
+  DateChecks,
+  Detection,
+  LedgerRow,
+} from "../types";
+import { parseDate, parseLocaleNumber } from "./csvMapping";
+import type { DetectionSettings } from "./detectionSettings";
+import { LocalizedError, type MessageValues } from "./i18n";
+import { isolationScores, percentile, seededRandom } from "./isolationForest";
+
+// A TypeScript port of the /upload-csv analysis in backend/api.py, for local-only mode.
+// The constants and rules match the backend so both modes flag the same kind of rows.
+const ANOMALY_RULES: AnomalyReason[] = ["above_amount_threshold", "one_sided_debit", "one_sided_credit"];
+
+const CHART_MAX_POINTS = 2000;
+const CHART_TOP_ACCOUNTS = 15;
+const HISTOGRAM_BINS_PER_DECADE = 4;
+
+const BENFORD_MIN_AMOUNT = 10;
+// Nigrini's mean absolute deviation cut-offs: close, acceptable, marginal conformity
+const BENFORD_MAD_LIMITS = {
+  first_digit: [0.006, 0.012, 0.015],
+  first_two_digits: [0.0012, 0.0018, 0.0022],
+} as const;
+const NEAR_DUPLICATE_TOLERANCE = 0.01;
+const DUPLICATE_MIN_AMOUNT = 100;
+const ROUND_NUMBER_UNIT = 1000;
+const JUST_BELOW_BAND = 0.1;
+const PERIOD_END_DAYS = 3;
+const PERIOD_END_SPIKE_FACTOR = 2;
+const FINDINGS_LIMIT = 50;
+
+// The file itself is unusable; the same cases the backend answers with a 400
+export class LedgerError extends LocalizedError {
+  constructor(key: MessageKey, values?: MessageValues) {
+    super(key, values);
+    this.name = "LedgerError";
+  }
+}
+
+type JournalRow = DateChecks["weekend"]["rows"][number];
+
+// A cleaned ledger line with the rule flags and outlier score added by detectAnomalies
+interface ScoredRow extends LedgerRow {
+  score: number;
+  reasons: AnomalyReason[];
+  isAnomaly: boolean;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Math.min(...values) passes every value as an argument and overflows the stack on large ledgers
+const minOf = (values: number[]) => values.reduce((low, value) => Math.min(low, value), Infinity);
+const maxOf = (values: number[]) => values.reduce((high, value) => Math.max(high, value), -Infinity);
+
+const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+const lineAmount = (row: LedgerRow) => Math.max(row.debit, row.credit);
+
+// Largest amount first; the sort is stable, so ties keep the file order
+const largestFirst = <T extends LedgerRow>(rows: T[]) => [...rows].sort((a, b) => lineAmount(b) - lineAmount(a));
+
+const ledgerRows = (rows: LedgerRow[]): LedgerRow[] => rows.map(({ items, debit, credit }) => ({ items, debit, credit }));
+
+function groupBy<T, K>(values: T[], key: (value: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const value of values) {
+    const k = key(value);
+    const group = groups.get(k);
+    if (group) {
+      group.push(value);
+    } else {
+      groups.set(k, [value]);
+    }
+  }
+  return groups;
+}
+
+function readRecords(fileName: string, text: string): Record<string, unknown>[] {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".csv")) {
+    return Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true }).data;
+  }
+  if (name.endsWith(".json")) {
+    let records: unknown;
+    try {
+      records = JSON.parse(text);
+    } catch (err) {
+      throw new LedgerError("ledger.unreadable", { fileName, reason: err instanceof Error ? err.message : String(err) });
+    }
+    if (!Array.isArray(records) || !records.every(r => r !== null && typeof r === "object" && !Array.isArray(r))) {
+      throw new LedgerError("ledger.notArray", { fileName });
+    }
+    return records;
+  }
+  throw new LedgerError("ledger.unsupported");
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === "";
+
+function parseAmount(value: unknown, column: string): number {
+  const text = isBlank(value) ? "" : String(value).trim();
+  if (text === "" || text === "nan") return 0;
+  const amount = parseLocaleNumber(text);
+  if (!Number.isFinite(amount)) throw new LedgerError("ledger.invalidNumbers", { column });
+  return amount;
+}
+
+// Read an items/debit/credit ledger into cleaned rows, as parse_ledger does. Files with a
+// date column are journal lines; they are returned too, grouped by account for the analysis.
+export function parseLedger(fileName: string, text: string): { rows: LedgerRow[]; journal: JournalRow[] | null } {
+  const records = readRecords(fileName, text).map(record =>
+    Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase().trim(), value]))
+  );
+  const columns = new Set(records.flatMap(record => Object.keys(record)));
+  if (!["items", "debit", "credit"].every(col => columns.has(col))) {
+    throw new LedgerError("ledger.missingColumns");
+  }
+
+  // Filter out invalid rows (footer or blank items)
+  const kept = records.filter(record => !isBlank(record.items) && !/Accrual Basis|Total/i.test(String(record.items)));
+  const rows: LedgerRow[] = kept.map(record => ({
+    items: String(record.items),
+    debit: parseAmount(record.debit, "debit"),
+    credit: parseAmount(record.credit, "credit"),
+  }));
+  if (rows.length === 0) throw new LedgerError("ledger.noRows");
+  if (!columns.has("date")) return { rows, journal: null };
+
+  const journal = rows.map((row, i): JournalRow => {
+    let date: string;
+    try {
+      date = parseDate(String(kept[i].date ?? ""));
+    } catch {
+      throw new LedgerError("ledger.invalidDates");
+    }
+    const reference = kept[i].reference;
+    return { ...row, date, reference: isBlank(reference) ? null : String(reference) };
+  });
+  const accounts = groupBy(journal, line => line.items);
+  const trialBalance = [...accounts].map(([items, lines]) => ({
+    items,
+    debit: sum(lines.map(l => l.debit)),
+    credit: sum(lines.map(l => l.credit)),
+  }));
+  return { rows: trialBalance, journal };
+}
+
+export function checkBalance(rows: LedgerRow[]) {
+  const totalDebit = sum(rows.map(r => r.debit));
+  const totalCredit = sum(rows.map(r => r.credit));
+  const isBalanced = Math.abs(totalDebit - totalCredit) < 0.01;
+  const totals = `Total Debit = ${totalDebit.toFixed(2)}, Total Credit = ${totalCredit.toFixed(2)}`;
+  return {
+    balance_status: isBalanced ? `Balanced: ${totals}` : `Unbalanced: ${totals}`,
+    total_debit: round(totalDebit),
+    total_credit: round(totalCredit),
+    is_balanced: isBalanced,
+  };
+}
+
+// Outlier model plus the threshold rules; a row is significant when both agree
+export function detectAnomalies(rows: LedgerRow[], settings: DetectionSettings): { scored: ScoredRow[]; anomalies: Anomaly[]; detection: Detection } {
+  const contamination = settings.contamination ?? Math.min(0.05, 10 / rows.length);
+  const scores = isolationScores(rows.map(r => [r.debit, r.credit]), contamination);
+
+  // Percentile of each column, or the floor when that is higher
+  const amountThreshold = Math.max(
+    settings.amountFloor,
+    percentile(rows.map(r => r.debit), settings.amountPercentile / 100),
+    percentile(rows.map(r => r.credit), settings.amountPercentile / 100)
+  );
+  const rules: Record<AnomalyReason, (row: LedgerRow) => boolean> = {
+    above_amount_threshold: row => row.debit > amountThreshold || row.credit > amountThreshold,
+    one_sided_debit: row => row.debit > settings.imbalanceThreshold && row.credit === 0,
+    one_sided_credit: row => row.credit > settings.imbalanceThreshold && row.debit === 0,
+  };
+
+  const scored = rows.map((row, i): ScoredRow => {
+    const reasons = ANOMALY_RULES.filter(rule => rules[rule](row));
+    return { ...row, score: scores[i], reasons, isAnomaly: scores[i] > 0 && reasons.length > 0 };
+  });
+  const anomalies = scored
+    .filter(row => row.isAnomaly)
+    .map(row => ({ items: row.items, debit: row.debit, credit: row.credit, score: round(row.score, 4), reasons: row.reasons }));
+
+  const detection: Detection = {
+    amount_threshold: round(amountThreshold),
+    amount_floor: settings.amountFloor,
+    amount_percentile: settings.amountPercentile,
+    imbalance_threshold: settings.imbalanceThreshold,
+    contamination: round(contamination, 4),
+    rows_analyzed: rows.length,
+  };
+  return { scored, anomalies, detection };
+}
+
+// Chart data for the whole cleaned ledger
+export function summarizeDataset(rows: ScoredRow[]): Dataset {
+  // Log-scale histogram of line amounts; zero lines have no place on a log axis
+  const histogram: Dataset["histogram"] = [];
+  const positive = rows.filter(row => lineAmount(row) > 0);
+  if (positive.length > 0) {
+    const step = 1 / HISTOGRAM_BINS_PER_DECADE;
+    const logs = positive.map(row => Math.log10(lineAmount(row)));
+    const low = Math.floor(minOf(logs) / step) * step;
+    const high = Math.max(Math.ceil(maxOf(logs) / step) * step, low + step);
+    const bins = Math.round((high - low) / step);
+    for (let i = 0; i < bins; i++) {
+      const start = low + i * step;
+      const end = start + step;
+      // The last bin includes its upper edge, as numpy.histogram does
+      const inBin = positive.filter((_, j) => logs[j] >= start && (logs[j] < end || (i === bins - 1 && logs[j] <= end)));
+      histogram.push({
+        start: round(10 ** start),
+        end: round(10 ** end),
+        count: inBin.length,
+        anomalies: inBin.filter(row => row.isAnomaly).length,
+      });
+    }
+  }
+
+  // Pareto of accounts by absolute net balance
+  const accounts = [...groupBy(rows, row => row.items)]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([items, lines]) => {
+      const debit = sum(lines.map(l => l.debit));
+      const credit = sum(lines.map(l => l.credit));
+      return { items, debit, credit, value: Math.abs(debit - credit), flagged: lines.some(l => l.isAnomaly) };
+    })
+    .sort((a, b) => b.value - a.value);
+  const totalValue = sum(accounts.map(a => a.value));
+  let running = 0;
+  const topAccounts = accounts.slice(0, CHART_TOP_ACCOUNTS).map(account => {
+    running += account.value;
+    return {
+      items: account.items,
+      debit: round(account.debit),
+      credit: round(account.credit),
+      value: round(account.value),
+      cumulative_share: totalValue > 0 ? round(running / totalValue, 4) : 0,
+      is_anomaly: account.flagged,
+    };
+  });
+
+  // Where the debits and credits sit, by kind of line
+  const kinds = {
+    debit_only: (row: LedgerRow) => row.debit > 0 && row.credit === 0,
+    credit_only: (row: LedgerRow) => row.credit > 0 && row.debit === 0,
+    mixed: (row: LedgerRow) => row.debit > 0 && row.credit > 0,
+  };
+  const composition = (Object.keys(kinds) as (keyof typeof kinds)[]).map(kind => {
+    const lines = rows.filter(kinds[kind]);
+    return {
+      kind,
+      lines: lines.length,
+      debit: round(sum(lines.map(l => l.debit))),
+      credit: round(sum(lines.map(l => l.credit))),
+    };
+  });
+
+  // Every anomaly plus a fixed sample of the other rows, to keep the payload small
+  const flagged = rows.filter(row => row.isAnomaly);
+  let normal = rows.filter(row => !row.isAnomaly);
+  const room = Math.max(CHART_MAX_POINTS - flagged.length, 0);
+  const sampled = normal.length > room;
+  if (sampled) {
+    const random = seededRandom(42);
+    normal = [...normal];
+    for (let i = 0; i < room; i++) {
+      const j = i + Math.floor(random() * (normal.length - i));
+      [normal[i], normal[j]] = [normal[j], normal[i]];
+    }
+    normal = normal.slice(0, room);
+  }
+  const points = [...flagged, ...normal].map(row => ({
+    items: row.items,
+    debit: row.debit,
+    credit: row.credit,
+    is_anomaly: row.isAnomaly,
+  }));
+
+  return { histogram, top_accounts: topAccounts, composition, points, points_sampled: sampled };
+}
+
+// Debit and credit totals per account, in file order, with the account's highest row outlier score
+export function summarizeAccounts(rows: ScoredRow[]): AccountSummary[] {
+  return [...groupBy(rows, row => row.items)].map(([items, lines]) => ({
+    items,
+    debit: round(sum(lines.map(l => l.debit))),
+    credit: round(sum(lines.map(l => l.credit))),
+    score: round(maxOf(lines.map(l => l.score)), 4),
+  }));
+}
+
+// Every non-zero debit and credit, with the index of its row
+function lineAmounts(rows: LedgerRow[]) {
+  const sides = ["debit", "credit"] as const;
+  return sides.flatMap(side =>
+    rows.flatMap((row, index) => (row[side] > 0 ? [{ index, side, amount: row[side] }] : []))
+  );
+}
+
+// Observed vs expected leading-digit frequencies, with MAD and chi-square
+function benfordTest(allAmounts: number[], test: keyof typeof BENFORD_MAD_LIMITS): BenfordTest {
+  const amounts = allAmounts.filter(amount => amount >= BENFORD_MIN_AMOUNT);
+  const width = test === "first_digit" ? 1 : 2;
+  const digits = width === 1 ? range(1, 10) : range(10, 100);
+  const counts = new Map<number, number>();
+  for (const amount of amounts) {
+    // The small offset keeps exact powers of ten such as 1000 from rounding down a digit
+    const magnitude = Math.floor(Math.log10(amount) + 1e-9);
+    const leading = Math.floor(amount / 10 ** (magnitude - (width - 1)) + 1e-9);
+    counts.set(leading, (counts.get(leading) ?? 0) + 1);
+  }
+  const n = amounts.length;
+  const expected = (d: number) => Math.log10(1 + 1 / d);
+  const observed = (d: number) => (n ? (counts.get(d) ?? 0) / n : 0);
+  const mad = n ? sum(digits.map(d => Math.abs(observed(d) - expected(d)))) / digits.length : 0;
+  const chiSquare = n ? sum(digits.map(d => ((counts.get(d) ?? 0) - n * expected(d)) ** 2 / (n * expected(d)))) : 0;
+
+  const [close, acceptable, marginal] = BENFORD_MAD_LIMITS[test];
+  const conformity = mad <= close ? "close" : mad <= acceptable ? "acceptable" : mad <= marginal ? "marginal" : "nonconformity";
+
+  return {
+    sample_size: n,
+    mad: round(mad, 5),
+    chi_square: round(chiSquare),
+    degrees_of_freedom: digits.length - 1,
+    conformity,
+    digits: digits.map(d => ({
+      digit: d,
+      count: counts.get(d) ?? 0,
+      observed: round(observed(d), 5),
+      expected: round(expected(d), 5),
+    })),
+  };
+}
+
+// Exact duplicate lines, and lines on the same side with amounts within the tolerance
+function findDuplicates(rows: LedgerRow[]): Analytics["duplicates"] {
+  const keyOf = (row: LedgerRow) => JSON.stringify([row.items.trim().toLowerCase(), row.debit, row.credit]);
+  const repeatedGroups = [...groupBy(rows.map((row, index) => ({ row, index })), ({ row }) => keyOf(row))]
+    .filter(([, group]) => group.length > 1 && group[0].row.debit + group[0].row.credit > 0)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([, group]) => group);
+  const exact = repeatedGroups
+    .map(group => ({ amount: lineAmount(group[0].row), rows: ledgerRows(group.map(g => g.row)) }))
+    .sort((a, b) => b.amount - a.amount);
+  const exactRows = new Set(repeatedGroups.flat().map(g => g.index));
+
+  // Walk each side in amount order and cluster neighbours within the tolerance
+  const near: Analytics["duplicates"]["near"] = [];
+  const amounts = lineAmounts(rows).filter(line => line.amount >= DUPLICATE_MIN_AMOUNT && !exactRows.has(line.index));
+  for (const side of ["credit", "debit"] as const) {
+    const lines = amounts.filter(line => line.side === side).sort((a, b) => a.amount - b.amount);
+    let cluster: typeof lines = [];
+    const flush = () => {
+      if (cluster.length > 1) {
+        near.push({
+          side,
+          amount: cluster[0].amount,
+          spread: round(cluster[cluster.length - 1].amount - cluster[0].amount),
+          rows: ledgerRows(cluster.map(line => rows[line.index])),
+        });
+      }
+    };
+    for (const line of lines) {
+      if (cluster.length > 0 && line.amount > cluster[0].amount * (1 + NEAR_DUPLICATE_TOLERANCE)) {
+        flush();
+        cluster = [];
+      }
+      cluster.push(line);
+    }
+    flush();
+  }
+  near.sort((a, b) => b.amount - a.amount);
+
+  return {
+    exact: exact.slice(0, FINDINGS_LIMIT),
+    exact_groups: exact.length,
+    near: near.slice(0, FINDINGS_LIMIT),
+    near_groups: near.length,
+    tolerance: NEAR_DUPLICATE_TOLERANCE,
+  };
+}
+
+// Lines whose debit or credit is an exact multiple of the round-number unit
+function findRoundNumbers(rows: LedgerRow[]): Analytics["round_numbers"] {
+  const isRound = (amount: number) => amount >= ROUND_NUMBER_UNIT && amount % ROUND_NUMBER_UNIT === 0;
+  const matches = rows.filter(row => isRound(row.debit) || isRound(row.credit));
+  const lines = rows.filter(row => row.debit >= ROUND_NUMBER_UNIT || row.credit >= ROUND_NUMBER_UNIT).length;
+  return {
+    unit: ROUND_NUMBER_UNIT,
+    count: matches.length,
+    // Share among the lines big enough to be a round number at all
+    share: lines ? round(matches.length / lines, 4) : 0,
+    rows: ledgerRows(largestFirst(matches).slice(0, FINDINGS_LIMIT)),
+  };
+}
+
+// Lines sitting just under a threshold, a common sign of splitting to avoid review
+function findJustBelow(rows: LedgerRow[], detection: Detection): Analytics["just_below_threshold"] {
+  const thresholds = {
+    amount_threshold: detection.amount_threshold,
+    imbalance_threshold: detection.imbalance_threshold,
+  };
+  return (Object.keys(thresholds) as (keyof typeof thresholds)[])
+    .filter(name => thresholds[name] > 0)
+    .map(name => {
+      const threshold = thresholds[name];
+      const lower = threshold * (1 - JUST_BELOW_BAND);
+      const matches = rows.filter(row => lineAmount(row) >= lower && lineAmount(row) < threshold);
+      return {
+        threshold: name,
+        value: round(threshold),
+        lower: round(lower),
+        count: matches.length,
+        rows: ledgerRows(largestFirst(matches).slice(0, FINDINGS_LIMIT)),
+      };
+    });
+}
+
+const daysInMonth = (year: number, month: number) => new Date(year, month, 0).getDate();
+
+// Weekend postings, month-end spikes and entries dated after the close
+export function runDateChecks(journal: JournalRow[], closeDate: string | null): DateChecks {
+  const parts = (date: string) => date.split("-").map(Number);
+  const isWeekend = (date: string) => {
+    const [year, month, day] = parts(date);
+    const weekday = new Date(year, month - 1, day).getDay();
+    return weekday === 0 || weekday === 6;
+  };
+  const atPeriodEnd = (date: string) => {
+    const [year, month, day] = parts(date);
+    return daysInMonth(year, month) - day < PERIOD_END_DAYS;
+  };
+
+  const weekend = journal.filter(line => isWeekend(line.date));
+
+  // Share of each month's value posted in its last few days, against an even spread
+  const byMonth = [...groupBy(journal, line => line.date.slice(0, 7))].sort(([a], [b]) => (a < b ? -1 : 1));
+  const months = byMonth.map(([month, lines]) => {
+    const total = sum(lines.map(lineAmount));
+    const endAmount = sum(lines.filter(line => atPeriodEnd(line.date)).map(lineAmount));
+    const share = total > 0 ? endAmount / total : 0;
+    const [year, monthNumber] = parts(month);
+    const expected = PERIOD_END_DAYS / daysInMonth(year, monthNumber);
+    return {
+      month,
+      total: round(total),
+      period_end_amount: round(endAmount),
+      share: round(share, 4),
+      expected_share: round(expected, 4),
+      spike: total > 0 && share >= expected * PERIOD_END_SPIKE_FACTOR,
+    };
+  });
+
+  const top = (lines: JournalRow[]) => largestFirst(lines).slice(0, FINDINGS_LIMIT);
+  // ISO dates compare correctly as strings
+  const late = closeDate ? journal.filter(line => line.date > closeDate) : [];
+  const dates = journal.map(line => line.date).sort();
+
+  return {
+    lines: journal.length,
+    start: dates[0],
+    end: dates[dates.length - 1],
+    weekend: { count: weekend.length, rows: top(weekend) },
+    period_end: { days: PERIOD_END_DAYS, months },
+    after_close: closeDate ? { close_date: closeDate, count: late.length, rows: top(late) } : null,
+  };
+}
+
+// Benford, duplicate, round-number and just-below-threshold tests over the cleaned ledger
+export function runAuditAnalytics(rows: LedgerRow[], detection: Detection): Analytics {
+  const amounts = lineAmounts(rows).map(line => line.amount);
+  return {
+    benford: {
+      first_digit: benfordTest(amounts, "first_digit"),
+      first_two_digits: benfordTest(amounts, "first_two_digits"),
+    },
+    duplicates: findDuplicates(rows),
+    round_numbers: findRoundNumbers(rows),
+    just_below_threshold: findJustBelow(rows, detection),
+  };
+}
+
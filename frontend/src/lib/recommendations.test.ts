@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { RULES_PROVIDER } from "../test/mockBackend";
+import type { Anomaly, Recommendations } from "../types";
+import { exportText } from "./i18n";
+import { describeProvider, groupBySeverity, parseRecommendations, ruleBasedRecommendations, upgradeRecommendations } from "./recommendations";
+
+const anomaly = (items: string, debit: number, credit: number, reasons: Anomaly["reasons"]): Anomaly =>
+  ({ items, debit, credit, score: 0.5, reasons });
+
+describe("parseRecommendations", () => {
+  it("keeps only the list items of an old Markdown answer", () => {
+    const text = "Here is what to check:\n- Vouch the land purchase\n  - Confirm the loan balance  \n-\n* Not a dash item\n";
+
+    expect(parseRecommendations(text)).toEqual(["Vouch the land purchase", "Confirm the loan balance"]);
+  });
+});
+
+describe("upgradeRecommendations", () => {
+  it.each(["AI error: 429 Resource has been exhausted", "Error: Gemini API key is not configured"])(
+    "treats %j from an old run as a failure",
+    text => {
+      expect(upgradeRecommendations(text)).toEqual({ provider: null, items: [], error: text });
+    }
+  );
+
+  it("turns an old Markdown list into medium documentation items", () => {
+    expect(upgradeRecommendations("- Vouch the land purchase\n- Confirm the loan balance")).toEqual({
+      provider: null,
+      items: [
+        { text: "Vouch the land purchase", severity: "medium", category: "documentation", items: [] },
+        { text: "Confirm the loan balance", severity: "medium", category: "documentation", items: [] },
+      ],
+    });
+  });
+
+  it("keeps the fields a current run already has", () => {
+    const current: Recommendations = {
+      provider: RULES_PROVIDER,
+      items: [{ text: "Reconcile the suspense account", severity: "high", category: "cut-off", items: ["Suspense account"] }],
+    };
+
+    expect(upgradeRecommendations(current)).toEqual(current);
+  });
+});
+
+describe("ruleBasedRecommendations", () => {
+  const balanced = { total_debit: 1000, total_credit: 1000, is_balanced: true };
+
+  it("asks for a reconciliation first when the trial balance does not balance", () => {
+    const { items } = ruleBasedRecommendations([], { total_debit: 81_234_801, total_credit: 81_324_801, is_balanced: false });
+
+    expect(items[0]).toMatchObject({ severity: "high", category: "cut-off" });
+    expect(items[0].text).toMatch(/^Reconcile the trial balance: debits and credits differ by 90,000\.00\./);
+  });
+
+  it("suggests standard testing when nothing was flagged", () => {
+    const { items } = ruleBasedRecommendations([], balanced);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ severity: "low", text: expect.stringMatching(/^No significant anomalies were flagged/) });
+  });
+
+  it("orders flagged accounts by amount and links each one to its account", () => {
+    const { items } = ruleBasedRecommendations(
+      [
+        anomaly("Directors' loan", 0, 900_000, ["one_sided_credit"]),
+        anomaly("Land and buildings", 12_500_000, 0, ["above_amount_threshold", "one_sided_debit"]),
+      ],
+      balanced
+    );
+
+    expect(items.map(item => [item.items, item.severity, item.category])).toEqual([
+      [["Land and buildings"], "high", "documentation"],
+      [["Directors' loan"], "medium", "classification"],
+      [["Directors' loan", "Land and buildings"], "low", "authorization"],
+    ]);
+    expect(items[0].text).toContain("12,500,000.00 debit on Land and buildings");
+  });
+
+  it("keeps at most eight items", () => {
+    const many = Array.from({ length: 12 }, (_, i) => anomaly(`Account ${i}`, 20_000 + i, 0, ["above_amount_threshold"]));
+
+    expect(ruleBasedRecommendations(many, balanced).items).toHaveLength(8);
+  });
+});
+
+describe("describeProvider", () => {
+  it("names the model and why a fallback was used", () => {
+    expect(describeProvider({ provider: { ...RULES_PROVIDER, fallback: true, reason: "Google Gemini failed: 429" }, items: [] }, exportText))
+      .toBe("Rule-based, used as a fallback: Google Gemini failed: 429");
+    expect(describeProvider({ provider: { id: "gemini", label: "Google Gemini", model: "gemini-2.5-flash", fallback: false, reason: null }, items: [] }, exportText))
+      .toBe("Google Gemini (gemini-2.5-flash)");
+    expect(describeProvider({ provider: null, items: [] }, exportText)).toBe("Not recorded");
+  });
+});
+
+describe("groupBySeverity", () => {
+  it("drops empty groups and puts the most severe first", () => {
+    const groups = groupBySeverity([
+      { text: "a", severity: "low", category: "cut-off", items: [] },
+      { text: "b", severity: "high", category: "cut-off", items: [] },
+    ]);
+
+    expect(groups.map(group => group.value)).toEqual(["high", "low"]);
+  });
+});
@@ -0,0 +1,159 @@
+import type {
+  Anomaly,
+  ApiResponse,
+  Recommendation,
+  RecommendationCategory,
+  RecommendationProvider,
+  RecommendationSeverity,
+  Recommendations,
+} from "../types";
+import type { I18n } from "./i18n";
+import type { MessageKey } from "../locales/en";
+
+export const SEVERITIES: { value: RecommendationSeverity; label: MessageKey; className: string }[] = [
+  { value: "high", label: "severity.high", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" },
+  { value: "medium", label: "severity.medium", className: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300" },
+  { value: "low", label: "severity.low", className: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300" },
+];
+
+export const CATEGORY_LABELS: Record<RecommendationCategory, MessageKey> = {
+  documentation: "recCategory.documentation",
+  valuation: "recCategory.valuation",
+  "cut-off": "recCategory.cut-off",
+  authorization: "recCategory.authorization",
+  classification: "recCategory.classification",
+};
+
+export const severityLabel = (severity: RecommendationSeverity) => `severity.${severity}` as const;
+
+// Cards for each severity, most severe first; empty groups are dropped
+export function groupBySeverity(items: Recommendation[]) {
+  return SEVERITIES
+    .map(severity => ({ ...severity, items: items.filter(item => item.severity === severity.value) }))
+    .filter(group => group.items.length > 0);
+}
+
+// Recommendations saved with only their text get the same defaults the schema applies
+const legacyRecommendation = (text: string): Recommendation =>
+  ({ text, severity: "medium", category: "documentation", items: [] });
+
+// Shown while the recommendations are still being generated
+export const PENDING_RECOMMENDATIONS: Recommendations = { provider: null, items: [] };
+
+export const failedRecommendations = (error: string): Recommendations => ({ provider: null, items: [], error });
+
+// Runs saved before providers were added hold a Markdown list; each "- " line is one recommendation
+export function parseRecommendations(text: string): string[] {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line.startsWith("- ") && line.length > 2)
+    .map(line => line.replace(/^- /, ""));
+}
+
+// Older runs stored failures as "AI error: ..." or "Error: ..." in place of the list
+export function upgradeRecommendations(value: Recommendations | string): Recommendations {
+  if (typeof value !== "string") {
+    return { ...value, items: value.items.map(item => ({ ...legacyRecommendation(item.text), ...item })) };
+  }
+  if (/^(AI error|Error):/.test(value)) return failedRecommendations(value);
+  return { provider: null, items: parseRecommendations(value).map(legacyRecommendation) };
+}
+
+// Saved runs are read back as stored, so bring their recommendations up to the current shape
+export function upgradeResult<T extends Pick<ApiResponse, "recommendations">>(result: T): T {
+  return { ...result, recommendations: upgradeRecommendations(result.recommendations as Recommendations | string) };
+}
+
+// The rule-based providers are named in the display language; LLMs keep the name the backend sent
+const PROVIDER_LABELS: Record<string, MessageKey> = {
+  rules: "provider.rules",
+  local_rules: "provider.localRules",
+};
+
+export function providerLabel(provider: RecommendationProvider, t: I18n["t"]): string {
+  const key = PROVIDER_LABELS[provider.id];
+  return key ? t(key) : provider.label;
+}
+
+// One line describing where the recommendations came from, for the report
+export function describeProvider(recommendations: Recommendations, t: I18n["t"]): string {
+  const { provider } = recommendations;
+  if (!provider) return t("provider.notRecorded");
+  const label = providerLabel(provider, t);
+  const name = provider.model ? `${label} (${provider.model})` : label;
+  return provider.fallback ? t("provider.fallback", { name, reason: provider.reason ?? "" }) : name;
+}
+
+const MAX_RULE_RECOMMENDATIONS = 8;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// The backend's rule-based provider, for local-only mode where nothing is sent to an LLM
+export function ruleBasedRecommendations(
+  anomalies: Anomaly[],
+  balance: Pick<ApiResponse, "total_debit" | "total_credit" | "is_balanced">
+): Recommendations {
+  const items: Recommendation[] = [];
+  if (!balance.is_balanced) {
+    const difference = Math.abs(balance.total_debit - balance.total_credit);
+    items.push({
+      text: `Reconcile the trial balance: debits and credits differ by ${formatAmount(difference)}. Trace unposted or one-sided journals before further testing.`,
+      severity: "high",
+      category: "cut-off",
+      items: [],
+    });
+  }
+
+  // Largest first, so the limit keeps the most material items
+  const byAmount = [...anomalies].sort((a, b) => Math.max(b.debit, b.credit) - Math.max(a.debit, a.credit));
+  for (const anomaly of byAmount) {
+    const amount = formatAmount(Math.max(anomaly.debit, anomaly.credit));
+    // Tripping more than one rule (large and one-sided) needs attention first
+    const severity = anomaly.reasons.length > 1 ? "high" : "medium";
+    if (anomaly.reasons.includes("one_sided_debit")) {
+      items.push({
+        text: `Vouch the ${amount} debit on ${anomaly.items} to invoices and approvals; confirm why no credit offsets it.`,
+        severity,
+        category: "documentation",
+        items: [anomaly.items],
+      });
+    } else if (anomaly.reasons.includes("one_sided_credit")) {
+      items.push({
+        text: `Confirm the ${amount} credit on ${anomaly.items} is supported and correctly classified; check for unrecorded debits.`,
+        severity,
+        category: "classification",
+        items: [anomaly.items],
+      });
+    } else {
+      items.push({
+        text: `Inspect supporting documents and authorisation for ${anomaly.items} (${amount}), which is above the materiality threshold.`,
+        severity,
+        category: "authorization",
+        items: [anomaly.items],
+      });
+    }
+  }
+
+  if (anomalies.length === 0) {
+    items.push({
+      text: "No significant anomalies were flagged. Complete standard substantive sampling and cut-off tests for the period.",
+      severity: "low",
+      category: "cut-off",
+      items: [],
+    });
+  } else {
+    items.push({
+      text: "Review authorisation controls for high-value and one-sided postings, and document the results for each flagged account.",
+      severity: "low",
+      category: "authorization",
+      items: [...new Set(anomalies.map(a => a.items))],
+    });
+  }
+
+  return {
+    provider: { id: "local_rules", label: "Rule-based (in this browser)", model: null, fallback: false, reason: null },
+    items: items.slice(0, MAX_RULE_RECOMMENDATIONS),
+  };
+}
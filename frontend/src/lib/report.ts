@@ -0,0 +1,246 @@
+import type { Anomaly, Recommendation } from "../types";
+import { baseName, downloadBlob, toCsv } from "./download";
+import { exportText as t, type DisplaySettings } from "./i18n";
+import { CATEGORY_LABELS, severityLabel } from "./recommendations";
+import type { RiskFactor } from "./risk";
+import { reviewFor, reviewProgress, statusLabel, type ReviewMap } from "./review";
+
+export type ReportFormat = "pdf" | "xlsx" | "csv";
+
+export interface ReportMetrics {
+  totalDebit: number;
+  totalCredit: number;
+  variance: string;
+  riskScore: number;
+  riskFactors: RiskFactor[];
+}
+
+// Everything that goes into an exported audit working paper
+export interface AuditReport {
+  fileName: string | null;
+  generatedAt: Date;
+  balanceStatus: string;
+  metrics: ReportMetrics;
+  anomalies: Anomaly[];
+  recommendations: Recommendation[];
+  recommendationSource: string;
+  chartImage: string | null;
+  reviews: ReviewMap;
+  // Locale and currency chosen in the settings; the paper's text stays in English
+  display: DisplaySettings;
+}
+
+const formatAmount = (report: AuditReport, value: number) =>
+  value.toLocaleString(report.display.locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const metricRows = (report: AuditReport): [string, string | number][] => [
+  [`Total Debits (${report.display.currency})`, report.metrics.totalDebit],
+  [`Total Credits (${report.display.currency})`, report.metrics.totalCredit],
+  ["Variance (%)", report.metrics.variance],
+  ["Anomalies Found", report.anomalies.length],
+  ["Risk Score (/100)", report.metrics.riskScore],
+  ...report.metrics.riskFactors.map((f): [string, string] => [`  ${t(`risk.${f.id}`)}`, `${f.points}/${f.weight}`]),
+  ["Anomalies Reviewed (%)", reviewProgress(report.anomalies, report.reviews).percent],
+];
+
+// Plain items/debit/credit CSV that the upload endpoint accepts again
+export function buildAnomaliesCsv(anomalies: Anomaly[]): string {
+  return toCsv([
+    ["items", "debit", "credit"],
+    ...anomalies.map(a => [a.items, a.debit, a.credit]),
+  ]);
+}
+
+async function buildPdf(report: AuditReport): Promise<Blob> {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+  ]);
+
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 40;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  // Start a new page when the next block would run off the bottom
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(30);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(13);
+    doc.text(text, margin, y);
+    y += 16;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+  };
+
+  const paragraph = (text: string, indent = 0) => {
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - indent);
+    for (const line of lines) {
+      ensureSpace(14);
+      doc.text(line, margin + indent, y);
+      y += 14;
+    }
+  };
+
+  // Track where each table ends so the next section follows it
+  const table = (head: string[], body: (string | number)[][]) => {
+    autoTable(doc, {
+      head: [head],
+      body,
+      startY: y,
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [37, 99, 235] },
+      didDrawPage: data => {
+        if (data.cursor) y = data.cursor.y;
+      },
+    });
+    y += 20;
+  };
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Audit Working Paper", margin, y);
+  y += 20;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  paragraph(`Source file: ${report.fileName ?? "Unknown"}`);
+  paragraph(`Generated: ${report.generatedAt.toLocaleString(report.display.locale)}`);
+  paragraph(`Amounts in ${report.display.currency}`);
+  y += 10;
+
+  heading("Balance Status");
+  paragraph(report.balanceStatus);
+  y += 10;
+
+  heading("Key Metrics");
+  table(
+    ["Metric", "Value"],
+    metricRows(report).map(([label, value]) => [label, typeof value === "number" ? value.toLocaleString(report.display.locale) : value])
+  );
+
+  heading("Significant Anomalies");
+  if (report.anomalies.length > 0) {
+    table(
+      ["Item", `Debit (${report.display.currency})`, `Credit (${report.display.currency})`, "Score", "Rules", "Review"],
+      report.anomalies.map(a => {
+        const review = reviewFor(report.reviews, a.items);
+        return [
+          a.items,
+          formatAmount(report, a.debit),
+          formatAmount(report, a.credit),
+          a.score.toFixed(3),
+          a.reasons.join(", "),
+          `${statusLabel(review.status)}${review.initials ? ` (${review.initials})` : ""}`,
+        ];
+      })
+    );
+
+    const notes = report.anomalies.filter(a => reviewFor(report.reviews, a.items).note);
+    if (notes.length > 0) {
+      heading("Reviewer Notes");
+      notes.forEach(a => {
+        const review = reviewFor(report.reviews, a.items);
+        paragraph(`${a.items} (${review.initials}): ${review.note}`, 8);
+      });
+      y += 10;
+    }
+  } else {
+    paragraph("No significant anomalies detected");
+    y += 10;
+  }
+
+  heading("Anomaly Visualization");
+  if (!report.chartImage) {
+    paragraph("The chart could not be drawn for this run.");
+    y += 10;
+  } else {
+    const imageProps = doc.getImageProperties(report.chartImage);
+    const imageHeight = (imageProps.height / imageProps.width) * contentWidth;
+    ensureSpace(imageHeight);
+    doc.addImage(report.chartImage, "PNG", margin, y, contentWidth, imageHeight);
+    y += imageHeight + 20;
+  }
+
+  heading("Audit Recommendations");
+  paragraph(`Source: ${report.recommendationSource}`);
+  if (report.recommendations.length > 0) {
+    report.recommendations.forEach((rec, idx) =>
+      paragraph(`${idx + 1}. [${t(severityLabel(rec.severity))} · ${t(CATEGORY_LABELS[rec.category])}] ${rec.text}`, 8)
+    );
+  } else {
+    paragraph("No recommendations available");
+  }
+
+  return doc.output("blob");
+}
+
+async function buildXlsx(report: AuditReport): Promise<Blob> {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+
+  const summary = XLSX.utils.aoa_to_sheet([
+    ["Audit Working Paper"],
+    ["Source file", report.fileName ?? "Unknown"],
+    ["Generated", report.generatedAt.toISOString()],
+    ["Currency", report.display.currency],
+    ["Balance status", report.balanceStatus],
+    ["Recommendations by", report.recommendationSource],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, summary, "Summary");
+
+  const metrics = XLSX.utils.aoa_to_sheet([["Metric", "Value"], ...metricRows(report)]);
+  XLSX.utils.book_append_sheet(workbook, metrics, "Metrics");
+
+  const anomalies = XLSX.utils.aoa_to_sheet([
+    ["items", "debit", "credit", "score", "reasons", "review_status", "reviewer", "review_note", "reviewed_at"],
+    ...report.anomalies.map(a => {
+      const review = reviewFor(report.reviews, a.items);
+      return [
+        a.items, a.debit, a.credit, a.score, a.reasons.join(", "),
+        statusLabel(review.status), review.initials, review.note, review.updatedAt,
+      ];
+    }),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, anomalies, "Anomalies");
+
+  const recommendations = XLSX.utils.aoa_to_sheet([
+    ["#", "Severity", "Category", "Recommendation", "Accounts"],
+    ...report.recommendations.map((rec, idx) => [
+      idx + 1, t(severityLabel(rec.severity)), t(CATEGORY_LABELS[rec.category]), rec.text, rec.items.join("; "),
+    ]),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, recommendations, "Recommendations");
+
+  const buffer: ArrayBuffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  return new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
+
+// Build the requested format in the browser and hand it to the user as a download
+export async function exportReport(report: AuditReport, format: ReportFormat) {
+  const name = `${baseName(report.fileName)}-audit-report`;
+
+  switch (format) {
+    case "pdf":
+      downloadBlob(await buildPdf(report), `${name}.pdf`);
+      break;
+    case "xlsx":
+      downloadBlob(await buildXlsx(report), `${name}.xlsx`);
+      break;
+    case "csv":
+      downloadBlob(
+        new Blob([buildAnomaliesCsv(report.anomalies)], { type: "text/csv;charset=utf-8" }),
+        `${baseName(report.fileName)}-anomalies.csv`
+      );
+      break;
+  }
+}
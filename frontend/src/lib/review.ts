@@ -0,0 +1,63 @@
+import type { Anomaly } from "../types";
+import { REVIEWS_STORE, withStore } from "./db";
+
+export type ReviewStatus = "open" | "cleared" | "escalated" | "awaiting_support";
+
+export interface ReviewEntry {
+  status: ReviewStatus;
+  note: string;
+  initials: string;
+  updatedAt: string;
+}
+
+// Review entries for one run, keyed by the anomaly's items label
+export type ReviewMap = Record<string, ReviewEntry>;
+
+interface ReviewRecord {
+  runKey: string;
+  entries: ReviewMap;
+}
+
+export const REVIEW_STATUSES: { value: ReviewStatus; label: string; className: string }[] = [
+  { value: "open", label: "Open", className: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300" },
+  { value: "cleared", label: "Cleared", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300" },
+  { value: "escalated", label: "Escalated", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" },
+  { value: "awaiting_support", label: "Awaiting support", className: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300" },
+];
+
+export const statusLabel = (status: ReviewStatus) =>
+  REVIEW_STATUSES.find(s => s.value === status)?.label ?? status;
+
+const INITIALS_KEY = "tathmini.reviewerInitials";
+
+export const reviewFor = (reviews: ReviewMap, items: string): ReviewEntry =>
+  reviews[items] ?? { status: "open", note: "", initials: "", updatedAt: "" };
+
+// Reviews are keyed by the file hash, so re-uploading the same file restores them
+export async function loadReviews(runKey: string): Promise<ReviewMap> {
+  const record = await withStore(REVIEWS_STORE, "readonly", store => store.get(runKey) as IDBRequest<ReviewRecord | undefined>);
+  return record?.entries ?? {};
+}
+
+export async function saveReviews(runKey: string, entries: ReviewMap): Promise<void> {
+  await withStore(REVIEWS_STORE, "readwrite", store => store.put({ runKey, entries } satisfies ReviewRecord));
+}
+
+// Anything no longer "open" counts towards the run's review progress
+export function reviewProgress(anomalies: Anomaly[], reviews: ReviewMap) {
+  const counts: Record<ReviewStatus, number> = { open: 0, cleared: 0, escalated: 0, awaiting_support: 0 };
+  for (const a of anomalies) {
+    counts[reviewFor(reviews, a.items).status]++;
+  }
+  const total = anomalies.length;
+  const reviewed = total - counts.open;
+  return { counts, total, reviewed, percent: total ? Math.round((reviewed / total) * 100) : 100 };
+}
+
+export function loadInitials(): string {
+  return localStorage.getItem(INITIALS_KEY) ?? "";
+}
+
+export function rememberInitials(initials: string) {
+  localStorage.setItem(INITIALS_KEY, initials);
+}
@@ -0,0 +1,128 @@
+import type { AnalysisResult, LedgerRow } from "../types";
+import { groupByAccount, type LedgerLine } from "./csvMapping";
+import type { I18n } from "./i18n";
+import type { MessageKey } from "../locales/en";
+
+export type RiskFactorId = "anomaly_exposure" | "imbalance" | "concentration" | "one_sided";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+// What the factor measured, turned into a sentence by describeFactor
+export interface RiskDetail {
+  key: MessageKey;
+  // Share of total activity the sentence quotes, 0 to 1
+  share: number;
+  count: number;
+}
+
+export interface RiskFactor {
+  id: RiskFactorId;
+  // Most points this factor can add to the score
+  weight: number;
+  // How strongly the factor applies, 0 to 1
+  intensity: number;
+  points: number;
+  detail: RiskDetail;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+// Weights add up to 100 so the score reads as points out of 100
+const WEIGHTS: Record<RiskFactorId, number> = {
+  anomaly_exposure: 35,
+  imbalance: 30,
+  concentration: 15,
+  one_sided: 20,
+};
+
+// Ratios at which each factor counts in full
+const FULL_EXPOSURE = 0.25;
+const FULL_IMBALANCE = 0.05;
+const FULL_ONE_SIDED = 0.1;
+// Share of activity in the largest accounts that starts to count, and where it counts in full
+const CONCENTRATION_START = 0.25;
+const CONCENTRATION_FULL = 0.75;
+const TOP_ACCOUNTS = 3;
+// Below this many accounts the top three always dominate, so concentration says nothing
+const MIN_ACCOUNTS_FOR_CONCENTRATION = 6;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const lineAmount = (row: LedgerRow) => Math.max(row.debit, row.credit);
+
+function factor(id: RiskFactorId, intensity: number, detail: RiskDetail): RiskFactor {
+  const weight = WEIGHTS[id];
+  const clamped = clamp(intensity);
+  return { id, weight, intensity: clamped, points: Math.round(clamped * weight), detail };
+}
+
+export function describeFactor({ detail }: RiskFactor, { t, formatNumber }: I18n): string {
+  const percent = formatNumber(detail.share, { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  return t(detail.key, { percent, count: detail.count });
+}
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 60) return "high";
+  if (score >= 30) return "medium";
+  return "low";
+}
+
+// Score a run from how much of its activity is flagged, how far it is out of balance,
+// how concentrated it is and how much sits in one-sided entries. Pass the ledger lines
+// when available; otherwise concentration is measured over the flagged lines only.
+export function assessRisk(result: AnalysisResult, rows: LedgerLine[] = []): RiskAssessment {
+  const activity = Math.max(result.total_debit, result.total_credit);
+  const share = (amount: number) => (activity > 0 ? amount / activity : 0);
+
+  const flaggedAmount = result.anomalies.reduce((sum, a) => sum + lineAmount(a), 0);
+  const exposure = share(flaggedAmount);
+
+  const gap = Math.abs(result.total_debit - result.total_credit);
+  const imbalance = result.is_balanced ? 0 : share(gap);
+
+  const oneSidedAmount = result.anomalies
+    .filter(a => a.reasons.includes("one_sided_debit") || a.reasons.includes("one_sided_credit"))
+    .reduce((sum, a) => sum + lineAmount(a), 0);
+  const oneSided = share(oneSidedAmount);
+
+  // Journal lines are summed per account first
+  const accounts = rows.length > 0 ? groupByAccount(rows) : result.anomalies;
+  const amounts = accounts.map(lineAmount).sort((a, b) => b - a);
+  const topShare = share(amounts.slice(0, TOP_ACCOUNTS).reduce((sum, amount) => sum + amount, 0));
+  const canMeasureConcentration = amounts.length >= MIN_ACCOUNTS_FOR_CONCENTRATION;
+
+  const factors = [
+    factor(
+      "anomaly_exposure",
+      exposure / FULL_EXPOSURE,
+      { key: "risk.anomaly_exposure.detail", share: exposure, count: result.anomalies.length }
+    ),
+    factor(
+      "imbalance",
+      imbalance / FULL_IMBALANCE,
+      { key: result.is_balanced ? "risk.imbalance.balanced" : "risk.imbalance.detail", share: imbalance, count: 0 }
+    ),
+    factor(
+      "concentration",
+      canMeasureConcentration ? (topShare - CONCENTRATION_START) / (CONCENTRATION_FULL - CONCENTRATION_START) : 0,
+      {
+        key: !canMeasureConcentration
+          ? "risk.concentration.tooFew"
+          : rows.length > 0 ? "risk.concentration.accounts" : "risk.concentration.flaggedLines",
+        share: topShare,
+        count: TOP_ACCOUNTS,
+      }
+    ),
+    factor(
+      "one_sided",
+      oneSided / FULL_ONE_SIDED,
+      { key: "risk.one_sided.detail", share: oneSided, count: 0 }
+    ),
+  ];
+
+  const score = Math.min(100, factors.reduce((sum, f) => sum + f.points, 0));
+  return { score, level: riskLevel(score), factors };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest";
+import { applyTheme, isDarkTheme, loadTheme, saveTheme } from "./theme";
+
+describe("theme", () => {
+  it("follows the system until a theme is saved", () => {
+    expect(loadTheme()).toBe("system");
+
+    saveTheme("dark");
+    expect(loadTheme()).toBe("dark");
+  });
+
+  it("ignores an unknown stored value", () => {
+    localStorage.setItem("tathmini.theme", "sepia");
+
+    expect(loadTheme()).toBe("system");
+  });
+
+  it.each([
+    ["system", false, false],
+    ["system", true, true],
+    ["light", true, false],
+    ["dark", false, true],
+  ] as const)("%s with a dark system setting of %s is dark: %s", (theme, systemDark, expected) => {
+    expect(isDarkTheme(theme, systemDark)).toBe(expected);
+  });
+
+  it("reads the system setting from prefers-color-scheme", () => {
+    const matchMedia = vi.spyOn(window, "matchMedia").mockReturnValue({ matches: true } as MediaQueryList);
+
+    expect(isDarkTheme("system")).toBe(true);
+    expect(matchMedia).toHaveBeenCalledWith("(prefers-color-scheme: dark)");
+    matchMedia.mockRestore();
+  });
+
+  it("sets the dark class and color scheme on the page", () => {
+    applyTheme(true);
+    expect(document.documentElement).toHaveClass("dark");
+    expect(document.documentElement.style.colorScheme).toBe("dark");
+
+    applyTheme(false);
+    expect(document.documentElement).not.toHaveClass("dark");
+  });
+});
@@ -0,0 +1,35 @@
+export type Theme = "system" | "light" | "dark";
+
+export const THEMES: Theme[] = ["system", "light", "dark"];
+
+const THEME_KEY = "tathmini.theme";
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+// Follows the operating system until the user picks a theme
+export function loadTheme(): Theme {
+  const stored = localStorage.getItem(THEME_KEY);
+  return THEMES.find(theme => theme === stored) ?? "system";
+}
+
+export function saveTheme(theme: Theme) {
+  localStorage.setItem(THEME_KEY, theme);
+}
+
+export const systemPrefersDark = () => window.matchMedia(DARK_QUERY).matches;
+
+export const isDarkTheme = (theme: Theme, systemDark = systemPrefersDark()) =>
+  theme === "dark" || (theme === "system" && systemDark);
+
+// The `dark` class drives Tailwind's dark: variant; color-scheme styles the browser's own controls
+export function applyTheme(dark: boolean) {
+  document.documentElement.classList.toggle("dark", dark);
+  document.documentElement.style.colorScheme = dark ? "dark" : "light";
+}
+
+// Calls back when the operating system switches between light and dark; returns the unsubscribe
+export function watchSystemTheme(onChange: (dark: boolean) => void): () => void {
+  const query = window.matchMedia(DARK_QUERY);
+  const listener = (e: MediaQueryListEvent) => onChange(e.matches);
+  query.addEventListener("change", listener);
+  return () => query.removeEventListener("change", listener);
+}
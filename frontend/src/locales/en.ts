@@ -0,0 +1,476 @@
+// English UI text. Keys are grouped by screen; every key must also exist in sw.ts.
+export const en = {
+  "app.title": "Financial Audit Dashboard",
+  "app.tagline": "AI-Powered Analysis & Insights",
+  "nav.upload": "Upload",
+  "nav.batch": "Batch",
+  "nav.results": "Results",
+  "nav.history": "History",
+  "nav.settings": "Settings",
+  "nav.lightMode": "Light Mode",
+  "nav.darkMode": "Dark Mode",
+  "common.success": "Success",
+  "common.error": "Error",
+  "settings.invalid": "Detection settings: {error}",
+  "upload.success": "Upload successful!",
+  "localOnly.title": "Local only",
+  "localOnly.badgeTitle": "Files are analysed in this browser and never uploaded",
+  "display.title": "Language, currency and theme",
+  "display.locale": "Language and number format",
+  "display.currency": "Currency",
+  "display.help": "Applies to every amount on screen and in exported reports. Amounts are shown as recorded; nothing is converted between currencies.",
+  "localOnly.help": "Analyse ledgers in this browser instead of uploading them to the analysis server. Recommendations come from the built-in rules rather than an LLM, so nothing leaves this machine. Use this when an engagement letter forbids sharing client data with third parties.",
+  "common.change": "Change",
+  "upload.readFailed": "Could not read the file",
+  "upload.wrongType": "Please upload a CSV, Excel or JSON file",
+  "upload.skipped": "Skipped {count} file(s) that are not CSV, Excel or JSON",
+  "upload.title": "Upload Trial Balance or General Ledger",
+  "upload.dropHere": "Drop your ledger files here...",
+  "upload.dragOrBrowse": "Drag & drop one or more ledger files or click to browse",
+  "upload.choose": "Choose Files",
+  "upload.formats": "Supports CSV, Excel (.xlsx, .xls) and JSON files up to 10MB, as trial balances or dated journal lines. Drop several to analyse a group of entities together.",
+  "upload.detectionSettings": "Detection settings: {preset}",
+  "upload.localOnly": "Local only: files are analysed in this browser and never uploaded",
+  "preset.small": "Small entity",
+  "preset.mid": "Mid-market",
+  "preset.enterprise": "Enterprise",
+  "preset.custom": "Custom",
+  "features.anomalies": "Anomaly Detection",
+  "features.anomaliesText": "Automatically identifies suspicious trends and variances",
+  "features.insights": "Financial Insights",
+  "features.insightsText": "Clear summaries with actionable recommendations",
+  "features.balance": "Balance Verification",
+  "features.balanceText": "Instant validation of trial balance accuracy",
+  "common.cancel": "Cancel",
+  "progress.parsing": "Parsing ledger",
+  "progress.balance": "Checking balance",
+  "progress.anomalies": "Detecting anomalies",
+  "progress.recommendations": "Generating recommendations",
+  "progress.local": "Analysing in this browser. Nothing leaves this machine.",
+  "progress.uploaded": "Uploaded",
+  "progress.uploading": "Uploading file",
+  "common.save": "Save",
+  "common.debit": "Debit",
+  "common.credit": "Credit",
+  "common.amount": "Amount",
+  "common.reference": "Reference",
+  "common.none": "None",
+  "mapper.invalidAmounts": "Invalid amounts",
+  "mapper.selectColumn": "Select column...",
+  "mapper.title": "Map Columns",
+  "mapper.intro": "{rows} rows. Match your export's columns to items, debit and credit; map a date column to analyse journal lines by posting date.",
+  "mapper.savedPresets": "Saved presets",
+  "mapper.applyPreset": "Apply preset...",
+  "mapper.saveAsPreset": "Save as preset",
+  "mapper.presetPlaceholder": "e.g. QuickBooks, Sage, Xero",
+  "mapper.sheet": "Sheet",
+  "mapper.headerRow": "Header row",
+  "mapper.row": "Row {row}",
+  "mapper.amountLayout": "Amount layout",
+  "mapper.split": "Separate debit and credit columns",
+  "mapper.signed": "Single signed amount column",
+  "mapper.items": "Items (account)",
+  "mapper.positiveIs": "Positive amounts are",
+  "mapper.debits": "Debits",
+  "mapper.credits": "Credits",
+  "mapper.date": "Date (journal lines)",
+  "mapper.noDate": "None: trial balance",
+  "mapper.sourcePreview": "Source preview",
+  "mapper.normalizedPreview": "Normalized preview",
+  "mapper.journalSummary": "{lines} journal lines across {accounts} accounts",
+  "mapper.analyze": "Analyze {rows} rows",
+  "preset.small.description": "Charities, SMEs and sole traders",
+  "preset.mid.description": "The backend defaults",
+  "preset.enterprise.description": "Listed companies and large groups",
+  "detection.title": "Detection settings",
+  "detection.amountFloor": "Amount floor ({currency})",
+  "detection.amountFloorHint": "Lines above this (or the percentile, whichever is higher) are large",
+  "detection.amountPercentile": "Amount percentile",
+  "detection.amountPercentileHint": "Percentile of debits/credits used as the large-amount cut-off",
+  "detection.imbalance": "Imbalance threshold ({currency})",
+  "detection.imbalanceHint": "One-sided debits or credits above this are flagged",
+  "detection.contamination": "Contamination",
+  "detection.contaminationHint": "Expected share of outliers (0–0.5); leave blank for automatic",
+  "detection.automatic": "Automatic",
+  "detection.closeDate": "Period close date",
+  "detection.closeDateHint": "Journal lines dated after this are flagged; leave blank to skip",
+  "detection.rerun": "Re-run analysis with these settings",
+  "run.loadFailed": "Could not load the run",
+  "run.missing": "This run is not in this browser's history. It may have been deleted or saved on another device.",
+  "run.openHistory": "Open the history",
+  "run.loading": "Loading run...",
+  "run.summary": "{count} anomalies",
+  "run.rerunTitle": "Analyse this file again with the current detection settings",
+  "run.rerun": "Re-run",
+  "run.uploadNew": "Upload New File",
+  "review.saveFailed": "Could not save review",
+  "export.done": "Report exported!",
+  "export.failed": "Export failed",
+  "export.exporting": "Exporting...",
+  "export.button": "Export Report",
+  "export.pdf": "PDF working paper",
+  "export.xlsx": "Excel workbook",
+  "export.csv": "Anomalies CSV",
+  "tabs.overview": "Dashboard",
+  "tabs.anomalies": "Anomalies ({count})",
+  "tabs.statements": "Financial Statements",
+  "tabs.recommendations": "Recommendations",
+  "overview.totalDebits": "Total Debits",
+  "overview.totalCredits": "Total Credits",
+  "overview.variance": "Variance",
+  "overview.anomaliesFound": "Anomalies Found",
+  "overview.balanceStatus": "Balance Status",
+  "overview.difference": "difference {amount}",
+  "overview.reviewLink": "Review the anomalies",
+  "overview.noCharts": "Charts are not available for this saved run. Re-run the analysis to see them.",
+  "severity.high": "High",
+  "severity.medium": "Medium",
+  "severity.low": "Low",
+  "risk.title": "Risk Score",
+  "risk.points": "{points} of {weight} points",
+  "risk.anomaly_exposure": "Flagged amounts",
+  "risk.imbalance": "Out-of-balance gap",
+  "risk.concentration": "Concentration",
+  "risk.one_sided": "One-sided entries",
+  "review.progress": "Review progress",
+  "review.progressCount": "{reviewed} of {total} reviewed ({percent}%)",
+  "review.status.open": "Open",
+  "review.status.cleared": "Cleared",
+  "review.status.escalated": "Escalated",
+  "review.status.awaiting_support": "Awaiting support",
+  "review.notePlaceholder": "Work performed, evidence seen, follow-up needed...",
+  "review.initials": "Initials",
+  "review.save": "Save review",
+  "review.lastUpdated": "Last updated by {initials} on {date}",
+  "reason.above_amount_threshold": "Above amount threshold",
+  "reason.one_sided_debit": "One-sided debit",
+  "reason.one_sided_credit": "One-sided credit",
+  "reason.above_amount_threshold.detail": "Debit or credit exceeds {amount}, the larger of {floor} and the ledger's {percentile}th percentile.",
+  "reason.one_sided_debit.detail": "Debit above {amount} with no offsetting credit on the same line.",
+  "reason.one_sided_credit.detail": "Credit above {amount} with no offsetting debit on the same line.",
+  "explorer.search": "Search accounts...",
+  "explorer.minAmount": "Min amount",
+  "explorer.maxAmount": "Max amount",
+  "explorer.allRules": "All rules",
+  "explorer.allStatuses": "All review statuses",
+  "explorer.account": "Account",
+  "explorer.score": "Outlier Score",
+  "explorer.rules": "Rules",
+  "explorer.review": "Review",
+  "explorer.noMatches": "No anomalies match these filters",
+  "explorer.showing": "Showing {from}–{to} of {total}",
+  "explorer.filteredFrom": "(filtered from {count})",
+  "explorer.perPage": "{size} per page",
+  "explorer.page": "Page {page} of {count}",
+  "explorer.flaggedAccount": "Flagged account",
+  "explorer.net": "Net (Dr − Cr)",
+  "explorer.why": "Why it was flagged",
+  "explorer.outlier": "Isolation Forest outlier",
+  "explorer.outlierDetail": "The model isolated this line from the rest of the ledger (score above 0 means more isolated than a typical row; contamination {contamination}).",
+  "explorer.footnote": "A row is only reported when the model and at least one rule agree. {rows} rows were analysed.",
+  "anomalies.title": "Significant Anomalies Detected",
+  "anomalies.none": "No significant anomalies detected",
+  "statements.unavailable": "Financial statements are not available for this saved run. Re-run the analysis to build them.",
+  "category.current_asset": "Current assets",
+  "category.non_current_asset": "Non-current assets",
+  "category.current_liability": "Current liabilities",
+  "category.non_current_liability": "Non-current liabilities",
+  "category.equity": "Equity",
+  "category.revenue": "Revenue",
+  "category.cost_of_sales": "Cost of sales",
+  "category.operating_expense": "Operating expenses",
+  "ratio.current_ratio": "Current ratio",
+  "ratio.current_ratio.hint": "Current assets ÷ current liabilities",
+  "ratio.gross_margin": "Gross margin",
+  "ratio.gross_margin.hint": "Gross profit ÷ revenue",
+  "ratio.debt_to_equity": "Debt-to-equity",
+  "ratio.debt_to_equity.hint": "Total liabilities ÷ equity including the period's profit",
+  "statements.total": "Total {label}",
+  "statements.wrongSign": "Wrong-sign accounts",
+  "statements.wrongSignHint": "Balances opposite to their class",
+  "statements.unexpectedBalance": "Accounts with an unexpected balance",
+  "statements.debitBalance": "has a debit balance of {amount}",
+  "statements.creditBalance": "has a credit balance of {amount}",
+  "statements.unclassified": "{count} accounts could not be classified and are left out of the statements. Assign them in the account mapping below.",
+  "statements.balanceSheet": "Draft Balance Sheet",
+  "statements.incomeStatement": "Draft Income Statement",
+  "statements.totalAssets": "Total assets",
+  "statements.totalLiabilities": "Total liabilities",
+  "statements.periodProfit": "Profit for the period",
+  "statements.totalEquity": "Total equity",
+  "statements.totalLiabilitiesEquity": "Total liabilities and equity",
+  "statements.outOfBalance": "Out of balance by {amount}. Check the trial balance and any unclassified accounts.",
+  "statements.grossProfit": "Gross profit",
+  "statements.netProfit": "Net profit",
+  "statements.mapping": "Account mapping",
+  "statements.mappingHelp": "Accounts are classified by keyword. Your changes are saved in this browser and reused for future uploads.",
+  "statements.classification": "Classification",
+  "statements.contra": "Contra",
+  "statements.automatic": "Automatic: {label}",
+  "statements.unclassifiedLabel": "Unclassified",
+  "statements.contraLabel": "{account} is a contra account",
+  "statements.resetLabel": "Reset {account} to the keyword rules",
+  "recCategory.documentation": "Documentation",
+  "recCategory.valuation": "Valuation",
+  "recCategory.cut-off": "Cut-off",
+  "recCategory.authorization": "Authorization",
+  "recCategory.classification": "Classification",
+  "recs.noProvider": "The provider was not recorded for this saved run.",
+  "recs.fallback": "Fallback: {name} recommendations",
+  "recs.generatedBy": "Generated by {name}",
+  "recs.showAnomaly": "Show this anomaly",
+  "recs.title": "Audit Recommendations",
+  "recs.riskScore": "Risk score: {score}/100 ({level} risk, breakdown on the dashboard)",
+  "recs.generating": "Generating recommendations...",
+  "recs.failed": "Recommendations could not be loaded: {error}",
+  "recs.countOne": "{count} recommendation",
+  "recs.count": "{count} recommendations",
+  "recs.immediate": "Immediate Action Required",
+  "recs.immediateBody": "Review all flagged anomalies and verify supporting documentation. Implement stricter authorization controls for high-value transactions.",
+  "checklist.added": "In checklist",
+  "checklist.add": "Add to checklist",
+  "checklist.title": "Action Checklist ({done}/{total} done)",
+  "checklist.export": "Export CSV",
+  "checklist.empty": "Add recommendations to track them as action items with an owner and a due date.",
+  "checklist.done": "Done",
+  "checklist.owner": "Owner",
+  "checklist.dueDate": "Due date",
+  "checklist.remove": "Remove from checklist",
+  "checklist.saveFailed": "Could not save the checklist",
+  "charts.debitOnly": "Debit only",
+  "charts.creditOnly": "Credit only",
+  "charts.mixed": "Debit and credit",
+  "charts.title": "Ledger Charts",
+  "charts.help": "Click a highlighted distribution bar to open the matching anomalies, or an account's bar or point to open its detail.",
+  "charts.distribution": "Distribution of line amounts",
+  "charts.distributionHint": "Log-scale bins; the red line marks the {amount} amount threshold",
+  "charts.lines": "Lines",
+  "charts.anomalies": "Anomalies",
+  "charts.threshold": "Threshold",
+  "charts.pareto": "Top {count} accounts by absolute balance",
+  "charts.paretoHint": "Bars show each account; the line shows their running share of the total",
+  "charts.absoluteBalance": "Absolute balance",
+  "charts.cumulativeShare": "Cumulative share",
+  "charts.composition": "Debit vs credit composition",
+  "charts.compositionHint": "Totals by kind of line; hover for the number of lines",
+  "charts.lineCount": "{count} lines",
+  "charts.scatter": "Debit vs credit, all rows",
+  "charts.scatterSampled": "Every anomaly plus a sample of the other rows",
+  "charts.scatterHint": "Anomalies are shown in red",
+  "charts.zoomIn": "Zoom in",
+  "charts.zoomOut": "Zoom out",
+  "charts.resetZoom": "Reset zoom",
+  "charts.rows": "Rows",
+  "benford.first_digit": "First digit",
+  "benford.first_two_digits": "First two digits",
+  "benford.close": "Close conformity",
+  "benford.acceptable": "Acceptable conformity",
+  "benford.marginal": "Marginal conformity",
+  "benford.nonconformity": "Nonconformity",
+  "benford.tested": "Amounts tested",
+  "benford.mad": "Mean absolute deviation",
+  "benford.chiSquare": "Chi-square",
+  "benford.largest": "Largest deviations",
+  "benford.smallSample": "Only {count} amounts of 10 or more were found. Benford results are unreliable below about {min}.",
+  "benford.leadingDigit": "Leading digit {digits}",
+  "benford.leadingDigits": "Leading digits {digits}",
+  "benford.observed": "Observed",
+  "benford.expected": "Expected (Benford)",
+  "analytics.amountThreshold": "Amount threshold",
+  "analytics.imbalanceThreshold": "Imbalance threshold",
+  "analytics.date": "Date",
+  "analytics.alsoFlagged": "Also flagged as an anomaly",
+  "analytics.showingLargest": "Showing the largest {count}.",
+  "analytics.weekend": "Weekend postings",
+  "analytics.weekendSummary": "{count} lines dated on a Saturday or Sunday.",
+  "analytics.periodEnd": "Period-end spikes",
+  "analytics.periodEndSummary": "Share of each month's value posted in its last {days} days. {spikes} of {months} months are at least twice an even spread.",
+  "analytics.month": "Month",
+  "analytics.total": "Total",
+  "analytics.periodEndColumn": "Period end",
+  "analytics.share": "Share",
+  "analytics.evenSpread": "Even spread",
+  "analytics.afterClose": "Entries after the close",
+  "analytics.afterCloseSummary": "{count} lines dated after {date}.",
+  "analytics.noCloseDate": "Set a period close date in the detection settings to flag entries posted after it.",
+  "analytics.benford": "Benford's Law",
+  "analytics.benfordSummary": "Leading digits of naturally occurring amounts follow a known distribution; invented or manipulated figures often do not.",
+  "analytics.duplicates": "Duplicate Entries",
+  "analytics.duplicatesSummary": "{exact} exact duplicate groups and {near} near-duplicate groups (same side, amounts within {tolerance}%).",
+  "analytics.noDuplicates": "No duplicate entries found",
+  "analytics.exact": "Exact duplicates",
+  "analytics.exactHelp": "The same account and amounts on more than one line.",
+  "analytics.near": "Near duplicates",
+  "analytics.nearHelp": "Similar amounts on the same side, possibly split or re-keyed.",
+  "analytics.nearDebits": "{count} debits from {amount} (spread {spread})",
+  "analytics.nearCredits": "{count} credits from {amount} (spread {spread})",
+  "analytics.round": "Round Numbers",
+  "analytics.roundSummary": "{count} lines are exact multiples of {unit} ({share} of lines that large). Estimates and invented entries tend to be round.",
+  "analytics.noRound": "No round-number lines found",
+  "analytics.justBelow": "Just Below Threshold",
+  "analytics.justBelowSummary": "Lines sitting just under a detection threshold, a common sign of amounts kept small to avoid review.",
+  "analytics.between": "{count} lines between {lower} and {upper}.",
+  "analytics.dates": "Posting Dates",
+  "analytics.datesSummary": "{lines} journal lines dated {start} to {end}. Weekend, month-end and post-close entries deserve a closer look.",
+  "history.loadFailed": "Could not load history",
+  "history.missingRun": "One of the selected runs no longer exists",
+  "history.compareFailed": "Could not compare runs",
+  "history.title": "Analysis History",
+  "history.help": "Saved in this browser only. Select two runs to compare periods.",
+  "history.compare": "Compare",
+  "history.loading": "Loading history...",
+  "history.empty": "No saved analyses yet. Upload a file to start your history.",
+  "history.select": "Select {name} for comparison",
+  "history.open": "Open",
+  "history.delete": "Delete {name}",
+  "compare.sides": "Dr {debit} / Cr {credit}",
+  "compare.back": "Back to history",
+  "compare.title": "Period Comparison",
+  "compare.previousGap": "Previous Balance Gap",
+  "compare.currentGap": "Current Balance Gap",
+  "compare.newAnomalies": "New Anomalies",
+  "compare.clearedAnomalies": "Cleared Anomalies",
+  "compare.newThisPeriod": "New This Period",
+  "compare.noLongerFlagged": "No Longer Flagged",
+  "compare.noNew": "No new anomalies",
+  "compare.noneCleared": "No anomalies disappeared",
+  "compare.movements": "Account Movements",
+  "compare.showUnchanged": "Show unchanged",
+  "compare.status": "Status",
+  "compare.debitRange": "Debit (prev → curr)",
+  "compare.creditRange": "Credit (prev → curr)",
+  "compare.status.new": "new",
+  "compare.status.removed": "removed",
+  "compare.status.changed": "changed",
+  "compare.status.unchanged": "unchanged",
+  "compare.noMovements": "No account movements between these runs",
+  "batch.queued": "Queued",
+  "batch.analysing": "Analysing",
+  "batch.done": "Done",
+  "batch.failed": "Failed",
+  "batch.cancelled": "Cancelled",
+  "batch.title": "Batch analysis",
+  "batch.progress": "{finished} of {total} files processed · up to {concurrency} at a time",
+  "batch.cancelRemaining": "Cancel remaining",
+  "batch.uploadNew": "Upload New Files",
+  "batch.groupSummary": "Group summary",
+  "batch.groupDebits": "Group Debits",
+  "batch.groupCredits": "Group Credits",
+  "batch.balancedEntities": "Balanced Entities",
+  "batch.entity": "Entity",
+  "batch.debits": "Debits",
+  "batch.credits": "Credits",
+  "batch.difference": "Difference",
+  "batch.balance": "Balance",
+  "batch.balanced": "Balanced",
+  "batch.unbalanced": "Unbalanced",
+  "batch.entitySummary": "Variance {variance}% · Risk {risk}/100",
+  "batch.openDashboard": "Open full dashboard",
+  "explorer.openAccount": "Open account detail",
+  "account.back": "Back",
+  "account.notFound": "\"{items}\" is not an account in this run.",
+  "account.debitShare": "{share} of total debits",
+  "account.creditShare": "{share} of total credits",
+  "account.lineCount": "From {count} lines",
+  "account.rank": "#{rank} of {count} accounts",
+  "account.percentile": "above {share} of peers",
+  "account.noScore": "Re-run the analysis to score this account against its peers.",
+  "account.anomalyStatus": "Anomaly Status",
+  "account.review": "Review in the anomalies table",
+  "account.flaggedLine": "Flagged line: debit {debit}, credit {credit}, outlier score {score}",
+  "account.notFlagged": "No line in this account was flagged as a significant anomaly.",
+  "account.postings": "Journal Postings",
+  "account.postingsHint": "Every posting to this account in the uploaded journal",
+  "account.normalizedLines": "Normalized Lines",
+  "account.normalizedLinesHint": "The lines this balance is built from, as read after column mapping: amounts are split into debit and credit and blank rows are left out",
+  "account.flag": "Flag",
+  "account.flagged": "Flagged",
+  "account.linesCut": "Showing the first {shown} of {count} lines.",
+  "account.noRows": "The source rows were not saved with this run. Upload the file again to see them.",
+  "nav.skipToContent": "Skip to main content",
+  "nav.main": "Main",
+  "display.theme": "Theme",
+  "theme.system": "Match the system",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "tabs.label": "Run sections",
+  "common.close": "Close",
+  "explorer.reviewAccount": "Review {items}",
+  "explorer.previousPage": "Previous page",
+  "explorer.nextPage": "Next page",
+  "explorer.pageSize": "Rows per page",
+  "charts.showTable": "Show the data as a table",
+  "charts.range": "Amount range",
+  "charts.kind": "Kind of line",
+  "charts.showAnomalies": "Show the {count} anomalies in {range}",
+  "benford.digits": "Leading digits",
+  "benford.count": "Amounts",
+  "progress.label": "Upload progress",
+  "review.progressLabel": "Share of flagged accounts reviewed",
+  "provider.notRecorded": "Not recorded",
+  "provider.fallback": "{name}, used as a fallback: {reason}",
+  "risk.anomaly_exposure.detail": "{percent} of total activity is in {count} flagged lines",
+  "risk.imbalance.balanced": "Debits and credits agree",
+  "risk.imbalance.detail": "The gap is {percent} of total activity",
+  "risk.concentration.accounts": "The {count} largest accounts hold {percent} of activity",
+  "risk.concentration.flaggedLines": "The {count} largest flagged lines hold {percent} of activity",
+  "risk.concentration.tooFew": "Too few accounts to measure concentration",
+  "risk.one_sided.detail": "{percent} of activity is in flagged one-sided lines",
+  "mapper.chooseSplitColumns": "Choose the items, debit and credit columns",
+  "mapper.chooseAmountColumns": "Choose the items and amount columns",
+  "mapper.missingColumns": "The selected columns are not in this file",
+  "mapper.sameDebitCredit": "Debit and credit must be different columns",
+  "settings.negativeThreshold": "Thresholds must not be negative",
+  "settings.percentileRange": "Percentile must be between 50 and 100",
+  "settings.contaminationRange": "Contamination must be greater than 0 and at most 0.5",
+  "settings.invalidCloseDate": "Close date must be a valid date",
+  "batch.unmapped": "Columns could not be matched automatically ({error}). Upload this file on its own to map them.",
+  "ratio.notApplicable": "n/a",
+  "explorer.accountFilter": "Account: {account}",
+  "explorer.clearAccount": "Stop filtering by {account}",
+  "export.doneWithoutChart": "Report exported, but the anomaly chart could not be drawn for this run.",
+  "error.serverStatus": "The server failed to process the file (HTTP {status})",
+  "error.rejectedStatus": "The request was rejected (HTTP {status})",
+  "error.unexpectedFormat": "The server returned data in an unexpected format ({detail})",
+  "error.timeout": "The server did not respond within {seconds} seconds",
+  "error.cancelled": "The request was cancelled",
+  "error.network": "Could not reach the analysis server. Check your connection and try again.",
+  "error.notJson": "The server returned a response that is not valid JSON",
+  "error.progressNotJson": "The server sent a progress update that is not valid JSON",
+  "error.streamFailed": "The analysis failed on the server: {detail}",
+  "error.unreadableStream": "The analysis stream could not be read ({detail})",
+  "error.streamIncomplete": "The analysis stream ended before all results were sent",
+  "error.rejected": "The file was rejected: {detail}",
+  "error.server": "The analysis server hit an error. Please try again shortly. {detail}",
+  "error.timeoutAdvice": "The server did not respond within {seconds} seconds. Large ledgers can take a while; try again or split the file.",
+  "error.uploadFailed": "Upload failed",
+  "error.localCancelled": "The analysis was cancelled",
+  "error.localFailed": "Local analysis failed: {detail}",
+  "error.workerStart": "Local analysis failed: the worker could not start",
+  "error.localIncomplete": "Local analysis ended before all results were ready",
+  "ledger.unreadable": "Could not read {fileName}: {reason}",
+  "ledger.notArray": "Could not read {fileName}: expected an array of objects",
+  "ledger.unsupported": "Local analysis reads CSV or JSON files",
+  "ledger.invalidNumbers": "Invalid numeric values in {column}",
+  "ledger.missingColumns": "CSV must have columns: items, debit, credit",
+  "ledger.noRows": "CSV has no ledger rows to analyze",
+  "ledger.invalidDates": "Invalid dates in date column",
+  "file.csvEmpty": "The CSV file is empty",
+  "file.csvUnreadable": "Could not read CSV: {reason}",
+  "file.workbookEmpty": "The workbook has no data",
+  "file.jsonInvalid": "Could not read JSON: the file is not valid JSON",
+  "file.jsonNotArray": "JSON files must contain an array of objects, one per ledger line",
+  "file.jsonEmpty": "The JSON file is empty",
+  "file.invalidAmount": "\"{value}\" is not a valid amount",
+  "file.invalidDate": "\"{value}\" is not a valid date",
+  "provider.rules": "Rule-based",
+  "provider.localRules": "Rule-based (in this browser)",
+  "history.saveFailed": "This analysis could not be saved to the history: {reason}",
+  "review.loadFailed": "Could not load the saved reviews",
+  "checklist.loadFailed": "Could not load the saved checklist",
+  "history.openFailed": "Could not open the run",
+  "history.deleteFailed": "Could not delete the run",
+  "account.postingsFlagged": "Journals are scored on each account's totals, so this whole account is flagged rather than single postings.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,476 @@
+import type { MessageKey } from "./en";
+
+// Kiswahili UI text; typed against en.ts so a missing translation fails the build
+export const sw: Record<MessageKey, string> = {
+  "app.title": "Dashibodi ya Ukaguzi wa Fedha",
+  "app.tagline": "Uchambuzi na Maarifa kwa Akili Bandia",
+  "nav.upload": "Pakia",
+  "nav.batch": "Kundi",
+  "nav.results": "Matokeo",
+  "nav.history": "Historia",
+  "nav.settings": "Mipangilio",
+  "nav.lightMode": "Hali ya Mwanga",
+  "nav.darkMode": "Hali ya Giza",
+  "common.success": "Imefaulu",
+  "common.error": "Hitilafu",
+  "settings.invalid": "Mipangilio ya ugunduzi: {error}",
+  "upload.success": "Faili limepakiwa!",
+  "localOnly.title": "Ndani tu",
+  "localOnly.badgeTitle": "Faili huchambuliwa ndani ya kivinjari hiki na hazipakiwi popote",
+  "display.title": "Lugha, sarafu na mandhari",
+  "display.locale": "Lugha na muundo wa namba",
+  "display.currency": "Sarafu",
+  "display.help": "Inatumika kwa kila kiasi kwenye skrini na katika ripoti zinazohamishwa. Kiasi huonyeshwa kama kilivyorekodiwa; hakuna ubadilishaji wa sarafu.",
+  "localOnly.help": "Chambua leja ndani ya kivinjari hiki badala ya kuzipakia kwenye seva ya uchambuzi. Mapendekezo yanatoka kwa kanuni zilizojengwa ndani badala ya LLM, hivyo hakuna kinachotoka kwenye kompyuta hii. Tumia hali hii barua ya makubaliano inapokataza kushiriki data ya mteja na watu wengine.",
+  "common.change": "Badilisha",
+  "upload.readFailed": "Imeshindwa kusoma faili",
+  "upload.wrongType": "Tafadhali pakia faili la CSV, Excel au JSON",
+  "upload.skipped": "Faili {count} zimerukwa kwa sababu si CSV, Excel wala JSON",
+  "upload.title": "Pakia Mizania ya Majaribio au Leja Kuu",
+  "upload.dropHere": "Dondosha faili zako za leja hapa...",
+  "upload.dragOrBrowse": "Buruta na udondoshe faili moja au zaidi za leja au bofya kuvinjari",
+  "upload.choose": "Chagua Faili",
+  "upload.formats": "Inakubali faili za CSV, Excel (.xlsx, .xls) na JSON hadi 10MB, kama mizania ya majaribio au mistari ya jarida yenye tarehe. Dondosha kadhaa kuchambua kundi la taasisi pamoja.",
+  "upload.detectionSettings": "Mipangilio ya ugunduzi: {preset}",
+  "upload.localOnly": "Ndani tu: faili huchambuliwa ndani ya kivinjari hiki na hazipakiwi",
+  "preset.small": "Taasisi ndogo",
+  "preset.mid": "Soko la kati",
+  "preset.enterprise": "Kampuni kubwa",
+  "preset.custom": "Maalum",
+  "features.anomalies": "Ugunduzi wa Kasoro",
+  "features.anomaliesText": "Hutambua kiotomatiki mienendo na tofauti zenye shaka",
+  "features.insights": "Maarifa ya Kifedha",
+  "features.insightsText": "Muhtasari wazi pamoja na mapendekezo yanayotekelezeka",
+  "features.balance": "Uhakiki wa Mizania",
+  "features.balanceText": "Uthibitisho wa papo hapo wa usahihi wa mizania ya majaribio",
+  "common.cancel": "Ghairi",
+  "progress.parsing": "Inasoma leja",
+  "progress.balance": "Inakagua mizania",
+  "progress.anomalies": "Inagundua kasoro",
+  "progress.recommendations": "Inaandaa mapendekezo",
+  "progress.local": "Inachambua ndani ya kivinjari hiki. Hakuna kinachotoka kwenye kompyuta hii.",
+  "progress.uploaded": "Imepakiwa",
+  "progress.uploading": "Inapakia faili",
+  "common.save": "Hifadhi",
+  "common.debit": "Debiti",
+  "common.credit": "Krediti",
+  "common.amount": "Kiasi",
+  "common.reference": "Kumbukumbu",
+  "common.none": "Hakuna",
+  "mapper.invalidAmounts": "Kiasi si sahihi",
+  "mapper.selectColumn": "Chagua safu...",
+  "mapper.title": "Linganisha Safu",
+  "mapper.intro": "Mistari {rows}. Linganisha safu za faili lako na akaunti, debiti na krediti; chagua safu ya tarehe kuchambua mistari ya jarida kwa tarehe ya kuingizwa.",
+  "mapper.savedPresets": "Mipangilio iliyohifadhiwa",
+  "mapper.applyPreset": "Tumia mpangilio...",
+  "mapper.saveAsPreset": "Hifadhi kama mpangilio",
+  "mapper.presetPlaceholder": "mf. QuickBooks, Sage, Xero",
+  "mapper.sheet": "Karatasi",
+  "mapper.headerRow": "Mstari wa vichwa",
+  "mapper.row": "Mstari {row}",
+  "mapper.amountLayout": "Mpangilio wa kiasi",
+  "mapper.split": "Safu tofauti za debiti na krediti",
+  "mapper.signed": "Safu moja ya kiasi chenye alama",
+  "mapper.items": "Akaunti",
+  "mapper.positiveIs": "Kiasi chanya ni",
+  "mapper.debits": "Debiti",
+  "mapper.credits": "Krediti",
+  "mapper.date": "Tarehe (mistari ya jarida)",
+  "mapper.noDate": "Hakuna: mizania ya majaribio",
+  "mapper.sourcePreview": "Muhtasari wa chanzo",
+  "mapper.normalizedPreview": "Muhtasari uliosanifishwa",
+  "mapper.journalSummary": "Mistari {lines} ya jarida katika akaunti {accounts}",
+  "mapper.analyze": "Chambua mistari {rows}",
+  "preset.small.description": "Mashirika ya hisani, biashara ndogo na za kati, na wafanyabiashara binafsi",
+  "preset.mid.description": "Chaguo-msingi za seva",
+  "preset.enterprise.description": "Kampuni zilizoorodheshwa na makundi makubwa",
+  "detection.title": "Mipangilio ya ugunduzi",
+  "detection.amountFloor": "Kiwango cha chini cha kiasi ({currency})",
+  "detection.amountFloorHint": "Mistari iliyo juu ya hiki (au asilimia, kilicho kikubwa) ni mikubwa",
+  "detection.amountPercentile": "Asilimia ya kiasi",
+  "detection.amountPercentileHint": "Asilimia ya debiti/krediti inayotumika kama kikomo cha kiasi kikubwa",
+  "detection.imbalance": "Kikomo cha kutokuwiana ({currency})",
+  "detection.imbalanceHint": "Debiti au krediti za upande mmoja zilizo juu ya hiki huwekwa alama",
+  "detection.contamination": "Uchafuzi",
+  "detection.contaminationHint": "Sehemu inayotarajiwa ya visivyo vya kawaida (0–0.5); acha wazi kwa hali ya kiotomatiki",
+  "detection.automatic": "Kiotomatiki",
+  "detection.closeDate": "Tarehe ya kufunga kipindi",
+  "detection.closeDateHint": "Mistari ya jarida yenye tarehe baada ya hii huwekwa alama; acha wazi kuruka",
+  "detection.rerun": "Rudia uchambuzi kwa mipangilio hii",
+  "run.loadFailed": "Imeshindwa kufungua uchambuzi",
+  "run.missing": "Uchambuzi huu haupo kwenye historia ya kivinjari hiki. Huenda umefutwa au ulihifadhiwa kwenye kifaa kingine.",
+  "run.openHistory": "Fungua historia",
+  "run.loading": "Inafungua uchambuzi...",
+  "run.summary": "Kasoro {count}",
+  "run.rerunTitle": "Chambua faili hili tena kwa mipangilio ya sasa ya ugunduzi",
+  "run.rerun": "Rudia",
+  "run.uploadNew": "Pakia Faili Jipya",
+  "review.saveFailed": "Imeshindwa kuhifadhi ukaguzi",
+  "export.done": "Ripoti imehamishwa!",
+  "export.failed": "Uhamishaji umeshindwa",
+  "export.exporting": "Inahamisha...",
+  "export.button": "Hamisha Ripoti",
+  "export.pdf": "Karatasi ya kazi (PDF)",
+  "export.xlsx": "Kitabu cha Excel",
+  "export.csv": "Kasoro (CSV)",
+  "tabs.overview": "Dashibodi",
+  "tabs.anomalies": "Kasoro ({count})",
+  "tabs.statements": "Taarifa za Fedha",
+  "tabs.recommendations": "Mapendekezo",
+  "overview.totalDebits": "Jumla ya Debiti",
+  "overview.totalCredits": "Jumla ya Krediti",
+  "overview.variance": "Tofauti",
+  "overview.anomaliesFound": "Kasoro Zilizopatikana",
+  "overview.balanceStatus": "Hali ya Mizania",
+  "overview.difference": "tofauti ya {amount}",
+  "overview.reviewLink": "Kagua kasoro",
+  "overview.noCharts": "Chati hazipatikani kwa uchambuzi huu uliohifadhiwa. Rudia uchambuzi ili kuziona.",
+  "severity.high": "Juu",
+  "severity.medium": "Wastani",
+  "severity.low": "Chini",
+  "risk.title": "Alama ya Hatari",
+  "risk.points": "Alama {points} kati ya {weight}",
+  "risk.anomaly_exposure": "Kiasi kilichoalamishwa",
+  "risk.imbalance": "Pengo la kutolingana",
+  "risk.concentration": "Mkusanyiko",
+  "risk.one_sided": "Maingizo ya upande mmoja",
+  "review.progress": "Maendeleo ya ukaguzi",
+  "review.progressCount": "{reviewed} kati ya {total} zimekaguliwa ({percent}%)",
+  "review.status.open": "Wazi",
+  "review.status.cleared": "Imethibitishwa",
+  "review.status.escalated": "Imepandishwa",
+  "review.status.awaiting_support": "Inasubiri ushahidi",
+  "review.notePlaceholder": "Kazi iliyofanywa, ushahidi ulioonekana, ufuatiliaji unaohitajika...",
+  "review.initials": "Herufi za mwanzo",
+  "review.save": "Hifadhi ukaguzi",
+  "review.lastUpdated": "Ilisasishwa mwisho na {initials} tarehe {date}",
+  "reason.above_amount_threshold": "Juu ya kiwango cha kiasi",
+  "reason.one_sided_debit": "Debiti ya upande mmoja",
+  "reason.one_sided_credit": "Krediti ya upande mmoja",
+  "reason.above_amount_threshold.detail": "Debiti au krediti inazidi {amount}, kubwa kati ya {floor} na asilimia ya {percentile} ya leja.",
+  "reason.one_sided_debit.detail": "Debiti juu ya {amount} bila krediti ya kufidia kwenye mstari huo huo.",
+  "reason.one_sided_credit.detail": "Krediti juu ya {amount} bila debiti ya kufidia kwenye mstari huo huo.",
+  "explorer.search": "Tafuta akaunti...",
+  "explorer.minAmount": "Kiasi cha chini",
+  "explorer.maxAmount": "Kiasi cha juu",
+  "explorer.allRules": "Kanuni zote",
+  "explorer.allStatuses": "Hali zote za ukaguzi",
+  "explorer.account": "Akaunti",
+  "explorer.score": "Alama ya Upekee",
+  "explorer.rules": "Kanuni",
+  "explorer.review": "Ukaguzi",
+  "explorer.noMatches": "Hakuna kasoro zinazolingana na vichujio hivi",
+  "explorer.showing": "Inaonyesha {from}–{to} kati ya {total}",
+  "explorer.filteredFrom": "(zimechujwa kutoka {count})",
+  "explorer.perPage": "{size} kwa ukurasa",
+  "explorer.page": "Ukurasa {page} kati ya {count}",
+  "explorer.flaggedAccount": "Akaunti iliyoalamishwa",
+  "explorer.net": "Halisi (Dr − Cr)",
+  "explorer.why": "Kwa nini iliwekwa alama",
+  "explorer.outlier": "Upekee wa Isolation Forest",
+  "explorer.outlierDetail": "Modeli ilitenga mstari huu na sehemu nyingine ya leja (alama juu ya 0 inamaanisha umetengwa zaidi kuliko mstari wa kawaida; uchafuzi {contamination}).",
+  "explorer.footnote": "Mstari huripotiwa tu pale modeli na angalau kanuni moja zinapokubaliana. Mistari {rows} ilichambuliwa.",
+  "anomalies.title": "Kasoro Kubwa Zilizogunduliwa",
+  "anomalies.none": "Hakuna kasoro kubwa zilizogunduliwa",
+  "statements.unavailable": "Taarifa za fedha hazipatikani kwa uchambuzi huu uliohifadhiwa. Rudia uchambuzi ili kuziunda.",
+  "category.current_asset": "Mali za muda mfupi",
+  "category.non_current_asset": "Mali za muda mrefu",
+  "category.current_liability": "Madeni ya muda mfupi",
+  "category.non_current_liability": "Madeni ya muda mrefu",
+  "category.equity": "Mtaji",
+  "category.revenue": "Mapato",
+  "category.cost_of_sales": "Gharama za mauzo",
+  "category.operating_expense": "Gharama za uendeshaji",
+  "ratio.current_ratio": "Uwiano wa sasa",
+  "ratio.current_ratio.hint": "Mali za muda mfupi ÷ madeni ya muda mfupi",
+  "ratio.gross_margin": "Faida ghafi (%)",
+  "ratio.gross_margin.hint": "Faida ghafi ÷ mapato",
+  "ratio.debt_to_equity": "Deni kwa mtaji",
+  "ratio.debt_to_equity.hint": "Jumla ya madeni ÷ mtaji pamoja na faida ya kipindi",
+  "statements.total": "Jumla ya {label}",
+  "statements.wrongSign": "Akaunti zenye alama potofu",
+  "statements.wrongSignHint": "Salio kinyume na kundi lake",
+  "statements.unexpectedBalance": "Akaunti zenye salio lisilotarajiwa",
+  "statements.debitBalance": "ina salio la debiti la {amount}",
+  "statements.creditBalance": "ina salio la krediti la {amount}",
+  "statements.unclassified": "Akaunti {count} hazikuweza kupangwa na zimeachwa nje ya taarifa. Zipange kwenye upangaji wa akaunti hapa chini.",
+  "statements.balanceSheet": "Rasimu ya Mizania",
+  "statements.incomeStatement": "Rasimu ya Taarifa ya Mapato",
+  "statements.totalAssets": "Jumla ya mali",
+  "statements.totalLiabilities": "Jumla ya madeni",
+  "statements.periodProfit": "Faida ya kipindi",
+  "statements.totalEquity": "Jumla ya mtaji",
+  "statements.totalLiabilitiesEquity": "Jumla ya madeni na mtaji",
+  "statements.outOfBalance": "Haijalingana kwa {amount}. Kagua mizania ya majaribio na akaunti zisizopangwa.",
+  "statements.grossProfit": "Faida ghafi",
+  "statements.netProfit": "Faida halisi",
+  "statements.mapping": "Upangaji wa akaunti",
+  "statements.mappingHelp": "Akaunti hupangwa kwa maneno muhimu. Mabadiliko yako huhifadhiwa kwenye kivinjari hiki na kutumika kwa upakiaji ujao.",
+  "statements.classification": "Kundi",
+  "statements.contra": "Kinzani",
+  "statements.automatic": "Otomatiki: {label}",
+  "statements.unclassifiedLabel": "Haijapangwa",
+  "statements.contraLabel": "{account} ni akaunti kinzani",
+  "statements.resetLabel": "Rudisha {account} kwenye kanuni za maneno muhimu",
+  "recCategory.documentation": "Nyaraka",
+  "recCategory.valuation": "Uthamini",
+  "recCategory.cut-off": "Ukomo wa kipindi",
+  "recCategory.authorization": "Uidhinishaji",
+  "recCategory.classification": "Upangaji",
+  "recs.noProvider": "Mtoa huduma hakurekodiwa kwa uchambuzi huu uliohifadhiwa.",
+  "recs.fallback": "Mbadala: mapendekezo ya {name}",
+  "recs.generatedBy": "Yametolewa na {name}",
+  "recs.showAnomaly": "Onyesha kasoro hii",
+  "recs.title": "Mapendekezo ya Ukaguzi",
+  "recs.riskScore": "Alama ya hatari: {score}/100 (hatari {level}, uchanganuzi kwenye dashibodi)",
+  "recs.generating": "Inatoa mapendekezo...",
+  "recs.failed": "Mapendekezo hayakuweza kupakiwa: {error}",
+  "recs.countOne": "Pendekezo {count}",
+  "recs.count": "Mapendekezo {count}",
+  "recs.immediate": "Hatua ya Haraka Inahitajika",
+  "recs.immediateBody": "Kagua kasoro zote zilizoalamishwa na uthibitishe nyaraka za ushahidi. Weka udhibiti mkali zaidi wa uidhinishaji kwa miamala ya thamani kubwa.",
+  "checklist.added": "Kwenye orodha",
+  "checklist.add": "Ongeza kwenye orodha",
+  "checklist.title": "Orodha ya Hatua ({done}/{total} zimekamilika)",
+  "checklist.export": "Hamisha CSV",
+  "checklist.empty": "Ongeza mapendekezo ili kuyafuatilia kama hatua zenye mhusika na tarehe ya mwisho.",
+  "checklist.done": "Imekamilika",
+  "checklist.owner": "Mhusika",
+  "checklist.dueDate": "Tarehe ya mwisho",
+  "checklist.remove": "Ondoa kwenye orodha",
+  "checklist.saveFailed": "Imeshindwa kuhifadhi orodha",
+  "charts.debitOnly": "Debiti pekee",
+  "charts.creditOnly": "Krediti pekee",
+  "charts.mixed": "Debiti na krediti",
+  "charts.title": "Chati za Leja",
+  "charts.help": "Bofya upau ulioangaziwa wa mgawanyo kufungua kasoro zinazolingana, au upau au nukta ya akaunti kufungua maelezo yake.",
+  "charts.distribution": "Mgawanyo wa kiasi cha mistari",
+  "charts.distributionHint": "Vipindi vya kipimo cha logi; mstari mwekundu unaonyesha kiwango cha kiasi cha {amount}",
+  "charts.lines": "Mistari",
+  "charts.anomalies": "Kasoro",
+  "charts.threshold": "Kiwango",
+  "charts.pareto": "Akaunti {count} za juu kwa salio kamili",
+  "charts.paretoHint": "Pau zinaonyesha kila akaunti; mstari unaonyesha sehemu yao limbikizi ya jumla",
+  "charts.absoluteBalance": "Salio kamili",
+  "charts.cumulativeShare": "Sehemu limbikizi",
+  "charts.composition": "Muundo wa debiti dhidi ya krediti",
+  "charts.compositionHint": "Jumla kwa aina ya mstari; elekeza kipanya kuona idadi ya mistari",
+  "charts.lineCount": "mistari {count}",
+  "charts.scatter": "Debiti dhidi ya krediti, mistari yote",
+  "charts.scatterSampled": "Kila kasoro pamoja na sampuli ya mistari mingine",
+  "charts.scatterHint": "Kasoro zinaonyeshwa kwa rangi nyekundu",
+  "charts.zoomIn": "Kuza",
+  "charts.zoomOut": "Punguza",
+  "charts.resetZoom": "Rudisha ukubwa",
+  "charts.rows": "Mistari",
+  "benford.first_digit": "Tarakimu ya kwanza",
+  "benford.first_two_digits": "Tarakimu mbili za kwanza",
+  "benford.close": "Ulinganifu wa karibu",
+  "benford.acceptable": "Ulinganifu unaokubalika",
+  "benford.marginal": "Ulinganifu wa mpakani",
+  "benford.nonconformity": "Hakuna ulinganifu",
+  "benford.tested": "Kiasi kilichojaribiwa",
+  "benford.mad": "Wastani wa mkengeuko kamili",
+  "benford.chiSquare": "Chi-mraba",
+  "benford.largest": "Mikengeuko mikubwa zaidi",
+  "benford.smallSample": "Ni kiasi {count} tu cha 10 au zaidi kilichopatikana. Matokeo ya Benford si ya kuaminika chini ya takriban {min}.",
+  "benford.leadingDigit": "Tarakimu ya mwanzo {digits}",
+  "benford.leadingDigits": "Tarakimu za mwanzo {digits}",
+  "benford.observed": "Iliyoonekana",
+  "benford.expected": "Inayotarajiwa (Benford)",
+  "analytics.amountThreshold": "Kiwango cha kiasi",
+  "analytics.imbalanceThreshold": "Kiwango cha kutolingana",
+  "analytics.date": "Tarehe",
+  "analytics.alsoFlagged": "Pia imealamishwa kama kasoro",
+  "analytics.showingLargest": "Inaonyesha {count} kubwa zaidi.",
+  "analytics.weekend": "Maingizo ya wikendi",
+  "analytics.weekendSummary": "Mistari {count} yenye tarehe ya Jumamosi au Jumapili.",
+  "analytics.periodEnd": "Miruko ya mwisho wa kipindi",
+  "analytics.periodEndSummary": "Sehemu ya thamani ya kila mwezi iliyoingizwa katika siku zake {days} za mwisho. Miezi {spikes} kati ya {months} ni angalau mara mbili ya mgawanyo sawa.",
+  "analytics.month": "Mwezi",
+  "analytics.total": "Jumla",
+  "analytics.periodEndColumn": "Mwisho wa kipindi",
+  "analytics.share": "Sehemu",
+  "analytics.evenSpread": "Mgawanyo sawa",
+  "analytics.afterClose": "Maingizo baada ya kufunga",
+  "analytics.afterCloseSummary": "Mistari {count} yenye tarehe baada ya {date}.",
+  "analytics.noCloseDate": "Weka tarehe ya kufunga kipindi kwenye mipangilio ya ugunduzi ili kualamisha maingizo yaliyofanywa baada yake.",
+  "analytics.benford": "Sheria ya Benford",
+  "analytics.benfordSummary": "Tarakimu za mwanzo za kiasi halisi hufuata mgawanyo unaojulikana; takwimu za kubuni au zilizobadilishwa mara nyingi hazifuati.",
+  "analytics.duplicates": "Maingizo Yanayojirudia",
+  "analytics.duplicatesSummary": "Makundi {exact} ya marudio kamili na makundi {near} ya karibu kurudia (upande mmoja, kiasi ndani ya {tolerance}%).",
+  "analytics.noDuplicates": "Hakuna maingizo yanayojirudia",
+  "analytics.exact": "Marudio kamili",
+  "analytics.exactHelp": "Akaunti na kiasi kile kile kwenye zaidi ya mstari mmoja.",
+  "analytics.near": "Karibu marudio",
+  "analytics.nearHelp": "Kiasi kinachofanana upande mmoja, huenda kimegawanywa au kuingizwa upya.",
+  "analytics.nearDebits": "Debiti {count} kuanzia {amount} (tofauti {spread})",
+  "analytics.nearCredits": "Krediti {count} kuanzia {amount} (tofauti {spread})",
+  "analytics.round": "Namba Kamili",
+  "analytics.roundSummary": "Mistari {count} ni vigawe kamili vya {unit} ({share} ya mistari ya ukubwa huo). Makadirio na maingizo ya kubuni huwa ni namba kamili.",
+  "analytics.noRound": "Hakuna mistari ya namba kamili",
+  "analytics.justBelow": "Chini Kidogo ya Kiwango",
+  "analytics.justBelowSummary": "Mistari iliyo chini kidogo ya kiwango cha ugunduzi, ishara ya kawaida ya kiasi kilichowekwa kidogo kukwepa ukaguzi.",
+  "analytics.between": "Mistari {count} kati ya {lower} na {upper}.",
+  "analytics.dates": "Tarehe za Maingizo",
+  "analytics.datesSummary": "Mistari {lines} ya jarida kuanzia {start} hadi {end}. Maingizo ya wikendi, mwisho wa mwezi na baada ya kufunga yanastahili kuangaliwa kwa makini.",
+  "history.loadFailed": "Imeshindwa kupakia historia",
+  "history.missingRun": "Mojawapo ya uchambuzi uliochaguliwa haupo tena",
+  "history.compareFailed": "Imeshindwa kulinganisha uchambuzi",
+  "history.title": "Historia ya Uchambuzi",
+  "history.help": "Imehifadhiwa kwenye kivinjari hiki pekee. Chagua uchambuzi miwili kulinganisha vipindi.",
+  "history.compare": "Linganisha",
+  "history.loading": "Inapakia historia...",
+  "history.empty": "Bado hakuna uchambuzi uliohifadhiwa. Pakia faili kuanza historia yako.",
+  "history.select": "Chagua {name} kwa ulinganisho",
+  "history.open": "Fungua",
+  "history.delete": "Futa {name}",
+  "compare.sides": "Dr {debit} / Cr {credit}",
+  "compare.back": "Rudi kwenye historia",
+  "compare.title": "Ulinganisho wa Vipindi",
+  "compare.previousGap": "Pengo la Salio la Awali",
+  "compare.currentGap": "Pengo la Salio la Sasa",
+  "compare.newAnomalies": "Kasoro Mpya",
+  "compare.clearedAnomalies": "Kasoro Zilizoondoka",
+  "compare.newThisPeriod": "Mpya Kipindi Hiki",
+  "compare.noLongerFlagged": "Hazijaalamishwa Tena",
+  "compare.noNew": "Hakuna kasoro mpya",
+  "compare.noneCleared": "Hakuna kasoro iliyoondoka",
+  "compare.movements": "Mabadiliko ya Akaunti",
+  "compare.showUnchanged": "Onyesha zisizobadilika",
+  "compare.status": "Hali",
+  "compare.debitRange": "Debiti (awali → sasa)",
+  "compare.creditRange": "Krediti (awali → sasa)",
+  "compare.status.new": "mpya",
+  "compare.status.removed": "imeondolewa",
+  "compare.status.changed": "imebadilika",
+  "compare.status.unchanged": "haijabadilika",
+  "compare.noMovements": "Hakuna mabadiliko ya akaunti kati ya uchambuzi huu",
+  "batch.queued": "Kwenye foleni",
+  "batch.analysing": "Inachambua",
+  "batch.done": "Imekamilika",
+  "batch.failed": "Imeshindwa",
+  "batch.cancelled": "Imeghairiwa",
+  "batch.title": "Uchambuzi wa kundi",
+  "batch.progress": "Faili {finished} kati ya {total} zimeshughulikiwa · hadi {concurrency} kwa wakati mmoja",
+  "batch.cancelRemaining": "Ghairi zilizobaki",
+  "batch.uploadNew": "Pakia Faili Mapya",
+  "batch.groupSummary": "Muhtasari wa kundi",
+  "batch.groupDebits": "Debiti za Kundi",
+  "batch.groupCredits": "Krediti za Kundi",
+  "batch.balancedEntities": "Taasisi Zilizolingana",
+  "batch.entity": "Taasisi",
+  "batch.debits": "Debiti",
+  "batch.credits": "Krediti",
+  "batch.difference": "Tofauti",
+  "batch.balance": "Mizania",
+  "batch.balanced": "Imelingana",
+  "batch.unbalanced": "Haijalingana",
+  "batch.entitySummary": "Tofauti {variance}% · Hatari {risk}/100",
+  "batch.openDashboard": "Fungua dashibodi kamili",
+  "explorer.openAccount": "Fungua maelezo ya akaunti",
+  "account.back": "Rudi",
+  "account.notFound": "\"{items}\" si akaunti katika uchambuzi huu.",
+  "account.debitShare": "{share} ya jumla ya debiti",
+  "account.creditShare": "{share} ya jumla ya krediti",
+  "account.lineCount": "Kutoka mistari {count}",
+  "account.rank": "Nafasi ya {rank} kati ya akaunti {count}",
+  "account.percentile": "juu ya {share} ya akaunti nyingine",
+  "account.noScore": "Endesha uchambuzi tena ili kulinganisha alama ya akaunti hii na nyingine.",
+  "account.anomalyStatus": "Hali ya Kasoro",
+  "account.review": "Kagua kwenye jedwali la kasoro",
+  "account.flaggedLine": "Mstari ulioalamishwa: debiti {debit}, krediti {credit}, alama ya upekee {score}",
+  "account.notFlagged": "Hakuna mstari katika akaunti hii ulioalamishwa kama kasoro muhimu.",
+  "account.postings": "Maingizo ya Jarida",
+  "account.postingsHint": "Kila ingizo kwenye akaunti hii katika jarida lililopakiwa",
+  "account.normalizedLines": "Mistari Iliyosawazishwa",
+  "account.normalizedLinesHint": "Mistari inayounda salio hili, kama ilivyosomwa baada ya kulinganisha safu: kiasi kimegawanywa kuwa debiti na krediti na mistari tupu imeachwa",
+  "account.flag": "Alama",
+  "account.flagged": "Imealamishwa",
+  "account.linesCut": "Inaonyesha mistari {shown} ya kwanza kati ya {count}.",
+  "account.noRows": "Mistari ya chanzo haikuhifadhiwa pamoja na uchambuzi huu. Pakia faili tena ili kuiona.",
+  "nav.skipToContent": "Ruka hadi maudhui makuu",
+  "nav.main": "Kuu",
+  "display.theme": "Mandhari",
+  "theme.system": "Fuata mfumo",
+  "theme.light": "Mwanga",
+  "theme.dark": "Giza",
+  "tabs.label": "Sehemu za uchambuzi",
+  "common.close": "Funga",
+  "explorer.reviewAccount": "Kagua {items}",
+  "explorer.previousPage": "Ukurasa uliotangulia",
+  "explorer.nextPage": "Ukurasa unaofuata",
+  "explorer.pageSize": "Safu kwa kila ukurasa",
+  "charts.showTable": "Onyesha data kama jedwali",
+  "charts.range": "Kiwango cha kiasi",
+  "charts.kind": "Aina ya mstari",
+  "charts.showAnomalies": "Onyesha kasoro {count} katika {range}",
+  "benford.digits": "Tarakimu za mwanzo",
+  "benford.count": "Kiasi",
+  "progress.label": "Maendeleo ya kupakia",
+  "review.progressLabel": "Sehemu ya akaunti zilizoalamishwa zilizokaguliwa",
+  "provider.notRecorded": "Haijarekodiwa",
+  "provider.fallback": "{name}, imetumika kama mbadala: {reason}",
+  "risk.anomaly_exposure.detail": "{percent} ya shughuli zote iko kwenye mistari {count} iliyoalamishwa",
+  "risk.imbalance.balanced": "Debiti na krediti zinalingana",
+  "risk.imbalance.detail": "Tofauti ni {percent} ya shughuli zote",
+  "risk.concentration.accounts": "Akaunti {count} kubwa zaidi zina {percent} ya shughuli",
+  "risk.concentration.flaggedLines": "Mistari {count} mikubwa zaidi iliyoalamishwa ina {percent} ya shughuli",
+  "risk.concentration.tooFew": "Akaunti ni chache mno kupima mkusanyiko",
+  "risk.one_sided.detail": "{percent} ya shughuli iko kwenye mistari ya upande mmoja iliyoalamishwa",
+  "mapper.chooseSplitColumns": "Chagua safu za vipengee, debiti na krediti",
+  "mapper.chooseAmountColumns": "Chagua safu za vipengee na kiasi",
+  "mapper.missingColumns": "Safu zilizochaguliwa hazimo kwenye faili hili",
+  "mapper.sameDebitCredit": "Debiti na krediti lazima ziwe safu tofauti",
+  "settings.negativeThreshold": "Viwango havipaswi kuwa hasi",
+  "settings.percentileRange": "Asilimia lazima iwe kati ya 50 na 100",
+  "settings.contaminationRange": "Uchafuzi lazima uwe zaidi ya 0 na usizidi 0.5",
+  "settings.invalidCloseDate": "Tarehe ya kufunga lazima iwe tarehe halali",
+  "batch.unmapped": "Safu hazikuweza kulinganishwa kiotomatiki ({error}). Pakia faili hili peke yake ili kuzilinganisha.",
+  "ratio.notApplicable": "haipo",
+  "explorer.accountFilter": "Akaunti: {account}",
+  "explorer.clearAccount": "Acha kuchuja kwa {account}",
+  "export.doneWithoutChart": "Ripoti imehamishwa, lakini chati ya hitilafu haikuweza kuchorwa kwa uchambuzi huu.",
+  "error.serverStatus": "Seva imeshindwa kuchakata faili (HTTP {status})",
+  "error.rejectedStatus": "Ombi limekataliwa (HTTP {status})",
+  "error.unexpectedFormat": "Seva imerudisha data katika muundo usiotarajiwa ({detail})",
+  "error.timeout": "Seva haikujibu ndani ya sekunde {seconds}",
+  "error.cancelled": "Ombi limesitishwa",
+  "error.network": "Imeshindwa kufikia seva ya uchambuzi. Angalia muunganisho wako kisha ujaribu tena.",
+  "error.notJson": "Seva imerudisha jibu ambalo si JSON halali",
+  "error.progressNotJson": "Seva imetuma taarifa ya maendeleo ambayo si JSON halali",
+  "error.streamFailed": "Uchambuzi umeshindwa kwenye seva: {detail}",
+  "error.unreadableStream": "Mtiririko wa uchambuzi haukuweza kusomwa ({detail})",
+  "error.streamIncomplete": "Mtiririko wa uchambuzi umeisha kabla matokeo yote hayajatumwa",
+  "error.rejected": "Faili limekataliwa: {detail}",
+  "error.server": "Seva ya uchambuzi imepata hitilafu. Tafadhali jaribu tena baada ya muda mfupi. {detail}",
+  "error.timeoutAdvice": "Seva haikujibu ndani ya sekunde {seconds}. Leja kubwa zinaweza kuchukua muda; jaribu tena au gawanya faili.",
+  "error.uploadFailed": "Kupakia kumeshindwa",
+  "error.localCancelled": "Uchambuzi umesitishwa",
+  "error.localFailed": "Uchambuzi wa ndani umeshindwa: {detail}",
+  "error.workerStart": "Uchambuzi wa ndani umeshindwa: kichakataji hakikuweza kuanza",
+  "error.localIncomplete": "Uchambuzi wa ndani umeisha kabla matokeo yote hayajawa tayari",
+  "ledger.unreadable": "Imeshindwa kusoma {fileName}: {reason}",
+  "ledger.notArray": "Imeshindwa kusoma {fileName}: ilitarajiwa orodha ya vitu",
+  "ledger.unsupported": "Uchambuzi wa ndani husoma faili za CSV au JSON",
+  "ledger.invalidNumbers": "Thamani za nambari si sahihi katika {column}",
+  "ledger.missingColumns": "CSV lazima iwe na safu: items, debit, credit",
+  "ledger.noRows": "CSV haina mistari ya leja ya kuchambua",
+  "ledger.invalidDates": "Tarehe si sahihi katika safu ya tarehe",
+  "file.csvEmpty": "Faili la CSV ni tupu",
+  "file.csvUnreadable": "Imeshindwa kusoma CSV: {reason}",
+  "file.workbookEmpty": "Kitabu cha kazi hakina data",
+  "file.jsonInvalid": "Imeshindwa kusoma JSON: faili si JSON halali",
+  "file.jsonNotArray": "Faili za JSON lazima ziwe na orodha ya vitu, kimoja kwa kila mstari wa leja",
+  "file.jsonEmpty": "Faili la JSON ni tupu",
+  "file.invalidAmount": "\"{value}\" si kiasi halali",
+  "file.invalidDate": "\"{value}\" si tarehe halali",
+  "provider.rules": "Kwa kanuni",
+  "provider.localRules": "Kwa kanuni (katika kivinjari hiki)",
+  "history.saveFailed": "Uchambuzi huu haukuweza kuhifadhiwa kwenye historia: {reason}",
+  "review.loadFailed": "Imeshindwa kupakia mapitio yaliyohifadhiwa",
+  "checklist.loadFailed": "Imeshindwa kupakia orodha ya hatua iliyohifadhiwa",
+  "history.openFailed": "Imeshindwa kufungua uchambuzi",
+  "history.deleteFailed": "Imeshindwa kufuta uchambuzi",
+  "account.postingsFlagged": "Jarida hupimwa kwa jumla ya kila akaunti, kwa hivyo akaunti hii yote imealamishwa badala ya maingizo moja moja.",
+};
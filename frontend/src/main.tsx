@@ -1,10 +1,17 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router'
 import './index.css'
 import App from './App.tsx'
+import { applyTheme, isDarkTheme, loadTheme } from './lib/theme'
+
+// Set the theme before the first paint so a dark page does not flash light
+applyTheme(isDarkTheme(loadTheme()))
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
   </StrictMode>,
 )
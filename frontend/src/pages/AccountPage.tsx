@@ -0,0 +1,214 @@
+import { useLocation, useNavigate, useParams } from "react-router";
+import { AlertTriangle, ArrowLeft, CheckCircle, FileText, Wallet } from "lucide-react";
+import { describeAccount, isFlaggedLine } from "../lib/accounts";
+import { REASON_LABELS, describeReason } from "../lib/anomalies";
+import { useRunContext } from "../lib/appContext";
+import { useI18n } from "../lib/i18n";
+import { REVIEW_STATUSES, reviewFor } from "../lib/review";
+import type { MessageKey } from "../locales/en";
+
+// Long journals are cut off here; the full list is in the uploaded file
+const MAX_LINES = 500;
+
+function AccountPage() {
+  const { items = "" } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { run, reviews, focusAnomalies } = useRunContext();
+  const i18n = useI18n();
+  const { t, formatMoney, formatNumber } = i18n;
+  const { result } = run;
+  const account = describeAccount(result, run.upload?.rows ?? [], items);
+  const percent = (fraction: number) => formatNumber(fraction, { style: "percent", maximumFractionDigits: 1 });
+
+  // Back to wherever the account was opened from; a bookmarked page has nowhere to go back to
+  const goBack = () => (location.key === "default" ? navigate(`/runs/${run.id}/overview`) : navigate(-1));
+
+  if (!account) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 dark:text-gray-400">{t("account.notFound", { items })}</p>
+        <button onClick={goBack} className="inline-block mt-4 text-blue-600 dark:text-blue-400 hover:underline">
+          {t("account.back")}
+        </button>
+      </div>
+    );
+  }
+
+  const review = reviewFor(reviews, account.items);
+  const reviewStyle = REVIEW_STATUSES.find(s => s.value === review.status) ?? REVIEW_STATUSES[0];
+  const shownLines = account.lines.slice(0, MAX_LINES);
+
+  return (
+    <div className="space-y-6">
+      {/* Account Header */}
+      <div>
+        <button
+          onClick={goBack}
+          className="flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {t("account.back")}
+        </button>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-blue-500" />
+          {account.items}
+        </h3>
+      </div>
+
+      {/* Balance and Shares */}
+      <div className="grid md:grid-cols-4 gap-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("common.debit")}</p>
+          <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">{formatMoney(account.debit)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t("account.debitShare", { share: percent(account.debitShare) })}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("common.credit")}</p>
+          <p className="text-2xl font-bold text-blue-600 dark:text-blue-400 mt-1">{formatMoney(account.credit)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t("account.creditShare", { share: percent(account.creditShare) })}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("explorer.net")}</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{formatMoney(account.debit - account.credit)}</p>
+          {account.lines.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t("account.lineCount", { count: formatNumber(account.lines.length) })}</p>
+          )}
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("explorer.score")}</p>
+          {account.score !== null ? (
+            <>
+              <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400 mt-1">{account.score.toFixed(3)}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {t("account.rank", { rank: account.rank ?? 1, count: account.peers })}
+                {account.percentile !== null && ` · ${t("account.percentile", { share: percent(account.percentile) })}`}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">{t("account.noScore")}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Anomaly Status */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-wrap justify-between items-center gap-3">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            {account.anomalies.length > 0 ? (
+              <AlertTriangle className="w-5 h-5 text-red-500" />
+            ) : (
+              <CheckCircle className="w-5 h-5 text-green-500" />
+            )}
+            {t("account.anomalyStatus")}
+          </h3>
+          {account.anomalies.length > 0 && (
+            <div className="flex items-center gap-3">
+              <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${reviewStyle.className}`}>
+                {t(`review.status.${review.status}` as MessageKey)}{review.initials && ` · ${review.initials}`}
+              </span>
+              <button
+                onClick={() => focusAnomalies({ kind: "account", items: account.items })}
+                className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {t("account.review")} →
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="p-6">
+          {account.anomalies.length > 0 ? (
+            <ul className="space-y-2 text-sm">
+              {account.anomalies.map((anomaly, idx) => (
+                <li key={idx} className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-gray-700 dark:text-gray-300">
+                  <p className="font-medium text-gray-900 dark:text-white mb-1">
+                    {t("account.flaggedLine", {
+                      debit: formatMoney(anomaly.debit),
+                      credit: formatMoney(anomaly.credit),
+                      score: anomaly.score.toFixed(3),
+                    })}
+                  </p>
+                  {anomaly.reasons.map(r => (
+                    <p key={r}>
+                      <strong>{t(REASON_LABELS[r])}.</strong> {describeReason(r, result.detection, i18n)}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-600 dark:text-gray-400">{t("account.notFlagged")}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Normalized lines */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-500" />
+            {account.isJournal ? t("account.postings") : t("account.normalizedLines")}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {account.isJournal ? t("account.postingsHint") : t("account.normalizedLinesHint")}
+          </p>
+          {account.isJournal && account.anomalies.length > 0 && (
+            <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 mt-2">
+              <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                {t("account.flagged")}
+              </span>
+              {t("account.postingsFlagged")}
+            </p>
+          )}
+        </div>
+        <div className="p-6">
+          {account.lines.length > 0 ? (
+            <>
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-400">
+                    <tr>
+                      {account.isJournal && <th className="px-4 py-3 font-medium text-left">{t("analytics.date")}</th>}
+                      {account.isJournal && <th className="px-4 py-3 font-medium text-left">{t("common.reference")}</th>}
+                      <th className="px-4 py-3 font-medium text-right">{t("common.debit")}</th>
+                      <th className="px-4 py-3 font-medium text-right">{t("common.credit")}</th>
+                      {!account.isJournal && <th className="px-4 py-3 font-medium text-left">{t("account.flag")}</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shownLines.map((line, idx) => (
+                      <tr key={idx} className="border-t border-gray-100 dark:border-gray-700">
+                        {account.isJournal && <td className="px-4 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{line.date}</td>}
+                        {account.isJournal && <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{line.reference}</td>}
+                        <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatNumber(line.debit)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatNumber(line.credit)}</td>
+                        {!account.isJournal && (
+                          <td className="px-4 py-2">
+                            {isFlaggedLine(line, account) && (
+                              <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                                {t("account.flagged")}
+                              </span>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {account.lines.length > shownLines.length && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                  {t("account.linesCut", { shown: formatNumber(shownLines.length), count: formatNumber(account.lines.length) })}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-600 dark:text-gray-400">{t("account.noRows")}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AccountPage;
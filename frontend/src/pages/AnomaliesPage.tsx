@@ -0,0 +1,48 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router";
+import { AlertTriangle } from "lucide-react";
+import { focusFromSearch } from "../lib/anomalies";
+import { useRunContext } from "../lib/appContext";
+import { useI18n } from "../lib/i18n";
+import AnomalyExplorer from "../components/AnomalyExplorer";
+import ReviewProgress from "../components/ReviewProgress";
+
+function AnomaliesPage() {
+  const { run, reviews, onReviewChange, openAccount } = useRunContext();
+  const [searchParams] = useSearchParams();
+  const { t } = useI18n();
+  const { result } = run;
+  const search = searchParams.toString();
+  // A new object only when the query string changes, so reviewing does not reset the filters
+  const focus = useMemo(() => focusFromSearch(new URLSearchParams(search)), [search]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          {t("anomalies.title")}
+        </h3>
+      </div>
+      <div className="p-6">
+        {result.anomalies.length > 0 ? (
+          <>
+            <ReviewProgress anomalies={result.anomalies} reviews={reviews} />
+            <AnomalyExplorer
+              anomalies={result.anomalies}
+              detection={result.detection}
+              reviews={reviews}
+              onReviewChange={onReviewChange}
+              focus={focus}
+              onOpenAccount={openAccount}
+            />
+          </>
+        ) : (
+          <p className="text-gray-600 dark:text-gray-400">{t("anomalies.none")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AnomaliesPage;
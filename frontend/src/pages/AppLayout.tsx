@@ -0,0 +1,347 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { NavLink, Outlet, useLocation, useNavigate } from "react-router";
+import { PieChart, ShieldCheck } from "lucide-react";
+import { ApiError, describeApiError, uploadCsvStream, type StageEvent } from "../lib/api";
+import type { ActiveRun, AppContext } from "../lib/appContext";
+import { createBatchItem, runBatch, type BatchItem } from "../lib/batch";
+import { buildNormalizedFile, type LedgerLine } from "../lib/csvMapping";
+import {
+  loadDetectionSettings,
+  saveDetectionSettings,
+  validateDetectionSettings,
+  type DetectionSettings,
+} from "../lib/detectionSettings";
+import { hashFile, saveRun, type RunRecord } from "../lib/history";
+import {
+  I18nContext,
+  createI18n,
+  loadDisplaySettings,
+  saveDisplaySettings,
+  type DisplaySettings,
+} from "../lib/i18n";
+import { analyzeLocally, loadLocalOnly, saveLocalOnly } from "../lib/localAnalysis";
+import { PENDING_RECOMMENDATIONS, failedRecommendations } from "../lib/recommendations";
+import { applyTheme, isDarkTheme, loadTheme, saveTheme, systemPrefersDark, watchSystemTheme, type Theme } from "../lib/theme";
+import type { AnalysisResult, ApiResponse } from "../types";
+import BatchAnalysis from "../components/BatchAnalysis";
+import UploadProgress from "../components/UploadProgress";
+
+const navClass = ({ isActive }: { isActive: boolean }) =>
+  `px-3 py-2 rounded-lg font-medium transition ${
+    isActive
+      ? "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400"
+      : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+  }`;
+
+function AppLayout() {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const [theme, setTheme] = useState<Theme>(() => loadTheme());
+  const [systemDark, setSystemDark] = useState(() => systemPrefersDark());
+  const isDarkMode = isDarkTheme(theme, systemDark);
+  const [detectionSettings, setDetectionSettings] = useState<DetectionSettings>(() => loadDetectionSettings());
+  const [localOnly, setLocalOnly] = useState(() => loadLocalOnly());
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(() => loadDisplaySettings());
+  const i18n = useMemo(() => createI18n(displaySettings), [displaySettings]);
+  const { t } = i18n;
+  const [run, setRun] = useState<ActiveRun | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [stages, setStages] = useState<StageEvent[]>([]);
+  const [isGeneratingRecommendations, setIsGeneratingRecommendations] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Several files dropped at once are analysed as a batch, one entity per file
+  const [batch, setBatch] = useState<{ id: string; items: BatchItem[] } | null>(null);
+  const uploadControllerRef = useRef<AbortController | null>(null);
+  const batchControllerRef = useRef<AbortController | null>(null);
+
+  // Keep following the operating system while no theme has been chosen
+  useEffect(() => watchSystemTheme(setSystemDark), []);
+
+  useEffect(() => {
+    applyTheme(isDarkMode);
+  }, [isDarkMode]);
+
+  // Screen readers and the browser's own controls follow the chosen language
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  // Clear success message after 3 seconds
+  useEffect(() => {
+    if (successMessage) {
+      const timer = setTimeout(() => setSuccessMessage(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [successMessage]);
+
+  const startUpload = async (file: File, rows: LedgerLine[]) => {
+    const settingsError = validateDetectionSettings(detectionSettings);
+    if (settingsError) {
+      setError(t("settings.invalid", { error: t(settingsError) }));
+      return;
+    }
+
+    setError(null);
+    setSuccessMessage(null);
+    setUploadProgress(0);
+    setStages([]);
+    setIsLoading(true);
+
+    const controller = new AbortController();
+    uploadControllerRef.current = controller;
+    const id = crypto.randomUUID();
+    // Hashed inside the try so a file that cannot be read is reported and the loading state cleared
+    let fileHash = "";
+    // Assigned from the stream callback, so declare the full type up front
+    let analysis = null as AnalysisResult | null;
+
+    // Only update the run if the user has not moved on to another one
+    const updateResult = (data: ApiResponse) =>
+      setRun(prev => (prev?.id === id ? { ...prev, result: data } : prev));
+
+    // Keep a local copy so this period can be reopened and compared later; the results stay on screen either way
+    const persistRun = async (data: ApiResponse) => {
+      try {
+        await saveRun({ id, fileName: file.name, fileHash, result: data, rows });
+      } catch (err) {
+        setError(t("history.saveFailed", { reason: err instanceof Error ? err.message : String(err) }));
+      }
+    };
+
+    try {
+      fileHash = await hashFile(file);
+      const analyze = localOnly ? analyzeLocally : uploadCsvStream;
+      const data = await analyze(file, detectionSettings, {
+        onUploadProgress: setUploadProgress,
+        onStage: event => setStages(prev => [...prev, event]),
+        // Show the dashboard as soon as the deterministic results are in
+        onAnalysis: partial => {
+          analysis = partial;
+          setRun({ id, fileName: file.name, fileHash, result: { ...partial, recommendations: PENDING_RECOMMENDATIONS }, upload: { file, rows } });
+          setIsLoading(false);
+          setIsGeneratingRecommendations(true);
+          setSuccessMessage(t("upload.success"));
+          navigate(`/runs/${id}/overview`);
+        },
+      }, { signal: controller.signal });
+      updateResult(data);
+      await persistRun(data);
+    } catch (err) {
+      if (analysis) {
+        // Totals and anomalies are already on screen; only the recommendations failed
+        const data: ApiResponse = { ...analysis, recommendations: failedRecommendations(describeApiError(err, t)) };
+        updateResult(data);
+        await persistRun(data);
+      } else if (!(err instanceof ApiError && err.kind === "aborted")) {
+        // A cancelled upload is the user's choice, not an error
+        setError(describeApiError(err, t));
+      }
+    } finally {
+      uploadControllerRef.current = null;
+      setIsLoading(false);
+      setIsGeneratingRecommendations(false);
+    }
+  };
+
+  const cancelUpload = () => {
+    uploadControllerRef.current?.abort();
+  };
+
+  const rerun = () => {
+    if (run?.upload) {
+      startUpload(run.upload.file, run.upload.rows);
+    }
+  };
+
+  // The batch runs with the settings chosen when it was started, whichever page is open
+  const startBatch = (files: File[]) => {
+    setError(null);
+    batchControllerRef.current?.abort();
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+    const id = crypto.randomUUID();
+    const items = files.map(createBatchItem);
+    setBatch({ id, items });
+    navigate("/batch");
+
+    // Late results from a closed or replaced batch are dropped
+    runBatch(items, { settings: detectionSettings, localOnly, i18n, signal: controller.signal }, (itemId, changes) =>
+      setBatch(prev => prev?.id === id
+        ? { ...prev, items: prev.items.map(item => (item.id === itemId ? { ...item, ...changes } : item)) }
+        : prev)
+    );
+  };
+
+  const cancelBatch = () => {
+    batchControllerRef.current?.abort();
+  };
+
+  const closeBatch = () => {
+    cancelBatch();
+    setBatch(null);
+    navigate("/");
+  };
+
+  // Stable, so the run layout can load a saved run in an effect without reloading on every render
+  const openRun = useCallback((record: RunRecord) => {
+    setError(null);
+    setRun({
+      id: record.id,
+      fileName: record.fileName,
+      fileHash: record.fileHash,
+      result: record.result,
+      // Saved rows let an old run be analysed again with new settings
+      upload: record.rows.length > 0
+        ? { file: buildNormalizedFile(record.rows, record.fileName), rows: record.rows }
+        : null,
+    });
+  }, []);
+
+  const handleSettingsChange = (settings: DetectionSettings) => {
+    setDetectionSettings(settings);
+    saveDetectionSettings(settings);
+  };
+
+  const handleLocalOnlyChange = (value: boolean) => {
+    setLocalOnly(value);
+    saveLocalOnly(value);
+  };
+
+  const handleDisplayChange = (settings: DisplaySettings) => {
+    setDisplaySettings(settings);
+    saveDisplaySettings(settings);
+  };
+
+  const handleThemeChange = (value: Theme) => {
+    setTheme(value);
+    saveTheme(value);
+  };
+
+  const context: AppContext = {
+    isDarkMode,
+    theme,
+    onThemeChange: handleThemeChange,
+    detectionSettings,
+    onSettingsChange: handleSettingsChange,
+    localOnly,
+    onLocalOnlyChange: handleLocalOnlyChange,
+    displaySettings,
+    onDisplayChange: handleDisplayChange,
+    run,
+    hasBatch: batch !== null,
+    isLoading,
+    isGeneratingRecommendations,
+    startUpload,
+    startBatch,
+    rerun,
+    cancelUpload,
+    openRun,
+    setError,
+    setSuccessMessage,
+  };
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+        <a
+          href="#main"
+          className="sr-only focus:not-sr-only focus:absolute focus:top-2 focus:left-2 focus:z-50 focus:px-4 focus:py-2 focus:rounded-lg focus:bg-blue-600 focus:text-white"
+        >
+          {t("nav.skipToContent")}
+        </a>
+
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
+                  <PieChart className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t("app.title")}</h1>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{t("app.tagline")}</p>
+                </div>
+              </div>
+              <nav aria-label={t("nav.main")} className="flex flex-wrap items-center gap-1">
+                {localOnly && (
+                  <NavLink
+                    to="/settings"
+                    className="mr-2 flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+                    title={t("localOnly.badgeTitle")}
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    {t("localOnly.title")}
+                  </NavLink>
+                )}
+                <NavLink to="/" end className={navClass}>{t("nav.upload")}</NavLink>
+                {batch && <NavLink to="/batch" className={navClass}>{t("nav.batch")}</NavLink>}
+                {run && <NavLink to={`/runs/${run.id}`} className={navClass}>{t("nav.results")}</NavLink>}
+                <NavLink to="/history" className={navClass}>{t("nav.history")}</NavLink>
+                <NavLink to="/settings" className={navClass}>{t("nav.settings")}</NavLink>
+                <button
+                  onClick={() => handleThemeChange(isDarkMode ? "light" : "dark")}
+                  className="ml-2 px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+                >
+                  <span aria-hidden="true">{isDarkMode ? "☀️" : "🌙"}</span> {isDarkMode ? t("nav.lightMode") : t("nav.darkMode")}
+                </button>
+              </nav>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main id="main" tabIndex={-1} className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 focus:outline-none">
+          <Outlet context={context} />
+
+          {/* Batch of Entities, kept mounted so opening an entity and coming back keeps the open tab */}
+          {batch && (
+            <div hidden={pathname !== "/batch"}>
+              <BatchAnalysis
+                key={batch.id}
+                items={batch.items}
+                onCancel={cancelBatch}
+                onOpen={record => {
+                  openRun(record);
+                  navigate(`/runs/${record.id}`);
+                }}
+                onClose={closeBatch}
+              />
+            </div>
+          )}
+
+          {/* Success Message, in a live region that stays mounted so screen readers announce it */}
+          <div role="status">
+            {successMessage && (
+              <div className="max-w-2xl mx-auto mt-6">
+                <div className="p-4 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 rounded-lg border border-green-200 dark:border-green-800">
+                  <strong>{t("common.success")}:</strong> {successMessage}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Loading */}
+          {isLoading && (
+            <UploadProgress uploadFraction={uploadProgress} stages={stages} onCancel={cancelUpload} isLocal={localOnly} />
+          )}
+
+          {/* Error Message */}
+          <div role="alert">
+            {error && (
+              <div className="max-w-2xl mx-auto mt-6">
+                <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg border border-red-200 dark:border-red-800">
+                  <strong>{t("common.error")}:</strong> {error}
+                </div>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </I18nContext.Provider>
+  );
+}
+
+export default AppLayout;
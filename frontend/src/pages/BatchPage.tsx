@@ -0,0 +1,10 @@
+import { Navigate } from "react-router";
+import { useAppContext } from "../lib/appContext";
+
+// The batch itself lives in the app layout so it survives visits to its entities' runs
+function BatchPage() {
+  const { hasBatch } = useAppContext();
+  return hasBatch ? null : <Navigate to="/" replace />;
+}
+
+export default BatchPage;
@@ -0,0 +1,19 @@
+import { useNavigate } from "react-router";
+import { useAppContext } from "../lib/appContext";
+import HistoryPanel from "../components/HistoryPanel";
+
+function HistoryPage() {
+  const { openRun } = useAppContext();
+  const navigate = useNavigate();
+
+  return (
+    <HistoryPanel
+      onOpen={record => {
+        openRun(record);
+        navigate(`/runs/${record.id}`);
+      }}
+    />
+  );
+}
+
+export default HistoryPage;
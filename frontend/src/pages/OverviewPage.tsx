@@ -0,0 +1,139 @@
+import { Link } from "react-router";
+import { AlertTriangle, CheckCircle, PieChart, TrendingUp } from "lucide-react";
+import { useRunContext } from "../lib/appContext";
+import { useI18n } from "../lib/i18n";
+import ReviewProgress from "../components/ReviewProgress";
+import RiskBreakdown from "../components/RiskBreakdown";
+import DatasetCharts from "../components/DatasetCharts";
+import AuditAnalytics from "../components/AuditAnalytics";
+
+function OverviewPage() {
+  const { run, metrics, reviews, isDarkMode, focusAnomalies, openAccount, chartRef } = useRunContext();
+  const { result } = run;
+  const { t, formatMoney, formatNumber } = useI18n();
+
+  return (
+    <div className="space-y-6">
+      {/* Metrics Grid */}
+      <div className="grid md:grid-cols-4 gap-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("overview.totalDebits")}</p>
+              <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">
+                {formatMoney(metrics.totalDebit)}
+              </p>
+            </div>
+            <TrendingUp className="w-8 h-8 text-green-500" />
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("overview.totalCredits")}</p>
+              <p className="text-2xl font-bold text-blue-600 dark:text-blue-400 mt-1">
+                {formatMoney(metrics.totalCredit)}
+              </p>
+            </div>
+            <PieChart className="w-8 h-8 text-blue-500" />
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("overview.variance")}</p>
+              <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400 mt-1">
+                {formatNumber(Number(metrics.variance), { minimumFractionDigits: 1 })}%
+              </p>
+            </div>
+            <AlertTriangle className="w-8 h-8 text-yellow-500" />
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{t("overview.anomaliesFound")}</p>
+              <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-1">
+                {result.anomalies.length}
+              </p>
+            </div>
+            <AlertTriangle className="w-8 h-8 text-red-500" />
+          </div>
+        </div>
+      </div>
+
+      {/* Balance Status */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            {result.is_balanced ? (
+              <CheckCircle className="w-5 h-5 text-green-500" />
+            ) : (
+              <AlertTriangle className="w-5 h-5 text-red-500" />
+            )}
+            {t("overview.balanceStatus")}
+          </h3>
+        </div>
+        <div className="p-6">
+          {result.is_balanced ? (
+            <div className="flex items-start gap-3 p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
+              <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+              <p className="text-gray-700 dark:text-gray-300">{result.balance_status}</p>
+            </div>
+          ) : (
+            <div className="flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+              <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
+              <p className="text-gray-700 dark:text-gray-300">
+                {result.balance_status} ({t("overview.difference", { amount: formatMoney(Math.abs(result.total_debit - result.total_credit)) })})
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Risk Score */}
+      <RiskBreakdown score={metrics.riskScore} factors={metrics.riskFactors} />
+
+      {/* Review Summary */}
+      {result.anomalies.length > 0 && (
+        <div>
+          <ReviewProgress anomalies={result.anomalies} reviews={reviews} />
+          <Link to="../anomalies" relative="path" className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+            {t("overview.reviewLink")} →
+          </Link>
+        </div>
+      )}
+
+      {/* Charts */}
+      {result.dataset ? (
+        <DatasetCharts
+          dataset={result.dataset}
+          detection={result.detection}
+          isDarkMode={isDarkMode}
+          onFocus={focusAnomalies}
+          onOpenAccount={openAccount}
+          exportRef={chartRef}
+        />
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t("overview.noCharts")}
+        </p>
+      )}
+
+      {/* Audit Analytics */}
+      {result.analytics && (
+        <AuditAnalytics
+          analytics={result.analytics}
+          anomalies={result.anomalies}
+          isDarkMode={isDarkMode}
+          onFocus={focusAnomalies}
+        />
+      )}
+    </div>
+  );
+}
+
+export default OverviewPage;
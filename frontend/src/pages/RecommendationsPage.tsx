@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Bot, CheckCircle, Download, ListChecks, Loader2, Plus, Trash2 } from "lucide-react";
+import { useRunContext } from "../lib/appContext";
+import {
+  exportChecklist,
+  isInChecklist,
+  loadChecklist,
+  saveChecklist,
+  toActionItem,
+  type ActionItem,
+} from "../lib/checklist";
+import { useI18n } from "../lib/i18n";
+import { CATEGORY_LABELS, SEVERITIES, groupBySeverity, providerLabel, severityLabel } from "../lib/recommendations";
+import { riskLevel } from "../lib/risk";
+import type { Recommendation, Recommendations, RecommendationSeverity } from "../types";
+
+const severityClass = (severity: RecommendationSeverity) =>
+  SEVERITIES.find(s => s.value === severity)?.className ?? "";
+
+// Names the provider, and says plainly when the rule-based fallback answered instead of an LLM
+function ProviderStatus({ recommendations }: { recommendations: Recommendations }) {
+  const { t } = useI18n();
+  const { provider } = recommendations;
+  if (!provider) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {t("recs.noProvider")}
+      </p>
+    );
+  }
+  const label = providerLabel(provider, t);
+  const name = provider.model ? `${label} · ${provider.model}` : label;
+  if (provider.fallback) {
+    return (
+      <div className="flex items-start gap-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
+        <AlertTriangle className="w-5 h-5 text-yellow-600 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium text-yellow-800 dark:text-yellow-300">{t("recs.fallback", { name })}</p>
+          <p className="text-yellow-700 dark:text-yellow-400">{provider.reason}</p>
+        </div>
+      </div>
+    );
+  }
+  return (
+    <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+      <Bot className="w-4 h-4 text-blue-500" />
+      {t("recs.generatedBy", { name })}
+    </p>
+  );
+}
+
+interface RecommendationCardProps {
+  rec: Recommendation;
+  inChecklist: boolean;
+  onAdd: () => void;
+  onOpenAnomaly: (items: string) => void;
+}
+
+function RecommendationCard({ rec, inChecklist, onAdd, onOpenAnomaly }: RecommendationCardProps) {
+  const { t } = useI18n();
+  return (
+    <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+      <div className="flex items-start gap-3">
+        <CheckCircle className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-gray-700 dark:text-gray-300">{rec.text}</p>
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+              {t(CATEGORY_LABELS[rec.category])}
+            </span>
+            {rec.items.map(items => (
+              <button
+                key={items}
+                onClick={() => onOpenAnomaly(items)}
+                className="px-2 py-0.5 rounded-full border border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/40"
+                title={t("recs.showAnomaly")}
+              >
+                {items} →
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={onAdd}
+          disabled={inChecklist}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 flex-shrink-0"
+        >
+          {inChecklist ? <CheckCircle className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          {inChecklist ? t("checklist.added") : t("checklist.add")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface ActionChecklistProps {
+  actions: ActionItem[];
+  fileName: string;
+  onChange: (actions: ActionItem[]) => void;
+}
+
+function ActionChecklist({ actions, fileName, onChange }: ActionChecklistProps) {
+  const { t } = useI18n();
+  const update = (id: string, patch: Partial<ActionItem>) =>
+    onChange(actions.map(a => (a.id === id ? { ...a, ...patch } : a)));
+  const done = actions.filter(a => a.done).length;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+        <h4 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-blue-500" />
+          {t("checklist.title", { done, total: actions.length })}
+        </h4>
+        <button
+          onClick={() => exportChecklist(actions, fileName)}
+          disabled={actions.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          {t("checklist.export")}
+        </button>
+      </div>
+      {actions.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t("checklist.empty")}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {actions.map(action => (
+            <li
+              key={action.id}
+              className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <input
+                type="checkbox"
+                checked={action.done}
+                onChange={e => update(action.id, { done: e.target.checked })}
+                className="w-4 h-4"
+                aria-label={t("checklist.done")}
+              />
+              <span className={`px-2 py-0.5 rounded-full text-xs ${severityClass(action.severity)}`}>
+                {t(severityLabel(action.severity))}
+              </span>
+              <span className={`flex-1 min-w-48 text-sm ${action.done ? "line-through text-gray-400" : "text-gray-700 dark:text-gray-300"}`}>
+                {action.text}
+              </span>
+              <input
+                type="text"
+                value={action.owner}
+                onChange={e => update(action.id, { owner: e.target.value })}
+                placeholder={t("checklist.owner")}
+                className="w-28 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <input
+                type="date"
+                value={action.dueDate}
+                onChange={e => update(action.id, { dueDate: e.target.value })}
+                aria-label={t("checklist.dueDate")}
+                className="px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <button
+                onClick={() => onChange(actions.filter(a => a.id !== action.id))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title={t("checklist.remove")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RecommendationsPage() {
+  const { run, metrics, isGeneratingRecommendations, cancelUpload, focusAnomalies } = useRunContext();
+  const { t } = useI18n();
+  const { recommendations } = run.result;
+  const [actions, setActions] = useState<ActionItem[]>([]);
+  const [checklistError, setChecklistError] = useState<string | null>(null);
+
+  // Restore the checklist saved for this file
+  useEffect(() => {
+    let cancelled = false;
+    loadChecklist(run.fileHash)
+      .then(saved => {
+        if (!cancelled) setActions(saved);
+      })
+      .catch(err => {
+        if (!cancelled) setChecklistError(err instanceof Error ? err.message : t("checklist.loadFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [run.fileHash, t]);
+
+  const handleChecklistChange = (next: ActionItem[]) => {
+    setActions(next);
+    saveChecklist(run.fileHash, next)
+      .then(() => setChecklistError(null))
+      .catch(err => setChecklistError(err instanceof Error ? err.message : t("checklist.saveFailed")));
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {t("recs.title")}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {t("recs.riskScore", {
+            score: metrics.riskScore,
+            level: t(severityLabel(riskLevel(metrics.riskScore))).toLowerCase(),
+          })}
+        </p>
+      </div>
+      <div className="p-6">
+        {isGeneratingRecommendations ? (
+          <div className="text-center py-8">
+            <Loader2 className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-3" />
+            <p className="text-gray-600 dark:text-gray-400">{t("recs.generating")}</p>
+            <button
+              onClick={cancelUpload}
+              className="mt-4 px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+            >
+              {t("common.cancel")}
+            </button>
+          </div>
+        ) : recommendations.error ? (
+          <p className="text-red-600 dark:text-red-400">{t("recs.failed", { error: recommendations.error })}</p>
+        ) : (
+          <>
+            <div className="mb-4">
+              <ProviderStatus recommendations={recommendations} />
+            </div>
+            {/* Cards by Severity */}
+            <div className="space-y-6">
+              {groupBySeverity(recommendations.items).map(group => (
+                <section key={group.value}>
+                  <h4 className="flex items-center gap-2 mb-3 font-semibold text-gray-900 dark:text-white">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${group.className}`}>{t(group.label)}</span>
+                    {t(group.items.length === 1 ? "recs.countOne" : "recs.count", { count: group.items.length })}
+                  </h4>
+                  <div className="space-y-3">
+                    {group.items.map((rec, idx) => (
+                      <RecommendationCard
+                        key={idx}
+                        rec={rec}
+                        inChecklist={isInChecklist(actions, rec)}
+                        onAdd={() => handleChecklistChange([...actions, toActionItem(rec)])}
+                        onOpenAnomaly={items => focusAnomalies({ kind: "account", items })}
+                      />
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+
+            <div className="mt-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border-l-4 border-yellow-500 rounded">
+              <h4 className="font-semibold text-yellow-800 dark:text-yellow-300 mb-2">
+                {t("recs.immediate")}
+              </h4>
+              <p className="text-yellow-700 dark:text-yellow-400 text-sm">
+                {t("recs.immediateBody")}
+              </p>
+            </div>
+
+            {/* Action Checklist */}
+            <ActionChecklist actions={actions} fileName={run.fileName} onChange={handleChecklistChange} />
+            {checklistError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{checklistError}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RecommendationsPage;
@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, NavLink, Outlet, useLocation, useNavigate, useParams } from "react-router";
+import { Download, FileCheck, FileSpreadsheet, FileText, Loader2, RefreshCw, Upload } from "lucide-react";
+import { focusToSearch, type AnomalyFocus } from "../lib/anomalies";
+import { useAppContext, type RunContext } from "../lib/appContext";
+import { scatterToPng, svgToPng } from "../lib/download";
+import { getRun } from "../lib/history";
+import { exportText, useI18n } from "../lib/i18n";
+import { calculateMetrics } from "../lib/metrics";
+import { describeProvider } from "../lib/recommendations";
+import { exportReport, type ReportFormat } from "../lib/report";
+import { loadReviews, saveReviews, type ReviewEntry, type ReviewMap } from "../lib/review";
+import type { MessageKey } from "../locales/en";
+
+const tabClass = ({ isActive }: { isActive: boolean }) =>
+  `pb-3 px-1 border-b-2 font-medium transition ${
+    isActive
+      ? "border-blue-600 text-blue-600 dark:text-blue-400"
+      : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+  }`;
+
+const TABS = ["overview", "anomalies", "statements", "recommendations"] as const;
+
+const tabId = (tab: string) => `run-tab-${tab}`;
+
+// Loads the run named in the URL and frames its pages with tabs and the report actions
+function RunLayout() {
+  const { runId } = useParams();
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const app = useAppContext();
+  const [missingId, setMissingId] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<ReviewMap>({});
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { t, locale, currency } = useI18n();
+
+  const run = app.run?.id === runId ? app.run : null;
+  const runKey = run?.fileHash ?? null;
+  const { openRun, setError } = app;
+
+  // A bookmarked or reloaded URL reads the run back from the local history
+  useEffect(() => {
+    if (!runId || app.run?.id === runId) return;
+    let cancelled = false;
+    getRun(runId)
+      .then(record => {
+        if (cancelled) return;
+        if (record) {
+          openRun(record);
+        } else {
+          setMissingId(runId);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t("run.loadFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, app.run?.id, openRun, setError, t]);
+
+  // Restore any review work saved for this file
+  useEffect(() => {
+    if (!runKey) {
+      setReviews({});
+      return;
+    }
+    let cancelled = false;
+    loadReviews(runKey)
+      .then(entries => {
+        if (!cancelled) setReviews(entries);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t("review.loadFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runKey, setError, t]);
+
+  if (!run) {
+    return missingId === runId ? (
+      <div className="text-center py-12">
+        <p className="text-gray-600 dark:text-gray-400">{t("run.missing")}</p>
+        <Link to="/history" className="inline-block mt-4 text-blue-600 dark:text-blue-400 hover:underline">
+          {t("run.openHistory")}
+        </Link>
+      </div>
+    ) : (
+      <div className="text-center py-12">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-3" />
+        <p className="text-gray-600 dark:text-gray-400">{t("run.loading")}</p>
+      </div>
+    );
+  }
+
+  const { result } = run;
+  const metrics = calculateMetrics(result, run.upload?.rows);
+  // Account pages sit under the run but belong to no tab
+  const activeTab = TABS.find(tab => pathname === `/runs/${run.id}/${tab}`);
+
+  // Arrow keys, Home and End move between the tabs, as in the WAI-ARIA tabs pattern
+  const handleTabKey = (e: React.KeyboardEvent, index: number) => {
+    const moves: Record<string, number> = { ArrowRight: index + 1, ArrowLeft: index - 1, Home: 0, End: TABS.length - 1 };
+    if (!(e.key in moves)) return;
+    e.preventDefault();
+    const next = TABS[(moves[e.key] + TABS.length) % TABS.length];
+    navigate(next);
+    document.getElementById(tabId(next))?.focus();
+  };
+
+  const handleReviewChange = (items: string, entry: ReviewEntry) => {
+    const next = { ...reviews, [items]: entry };
+    setReviews(next);
+    saveReviews(run.fileHash, next).catch(err => setError(err instanceof Error ? err.message : t("review.saveFailed")));
+  };
+
+  // Build the audit report in the browser from the current analysis
+  const handleExport = async (format: ReportFormat) => {
+    setIsExportMenuOpen(false);
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      // The chart is only mounted on the overview page; from the other tabs it is drawn from the dataset
+      const background = app.isDarkMode ? "#111827" : "#f9fafb";
+      const chartImage = format === "pdf"
+        ? (await svgToPng(chartRef.current, background)) ?? (result.dataset ? scatterToPng(result.dataset.points, background) : null)
+        : null;
+
+      await exportReport({
+        fileName: run.fileName,
+        generatedAt: new Date(),
+        balanceStatus: result.balance_status,
+        metrics,
+        anomalies: result.anomalies,
+        recommendations: result.recommendations.items,
+        recommendationSource: describeProvider(result.recommendations, exportText),
+        chartImage,
+        reviews,
+        display: { locale, currency },
+      }, format);
+      app.setSuccessMessage(format === "pdf" && !chartImage ? t("export.doneWithoutChart") : t("export.done"));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("export.failed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const context: RunContext = {
+    run,
+    metrics,
+    reviews,
+    onReviewChange: handleReviewChange,
+    isDarkMode: app.isDarkMode,
+    // Recommendations only stream for the run that was just uploaded
+    isGeneratingRecommendations: app.isGeneratingRecommendations && app.run?.id === run.id,
+    cancelUpload: app.cancelUpload,
+    focusAnomalies: (focus: AnomalyFocus) => navigate(`/runs/${run.id}/anomalies${focusToSearch(focus)}`),
+    openAccount: (items: string) => navigate(`/runs/${run.id}/accounts/${encodeURIComponent(items)}`),
+    chartRef,
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Run Header */}
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{run.fileName}</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {t("run.summary", { count: result.anomalies.length })} · {result.balance_status}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {run.upload && (
+            <button
+              onClick={app.rerun}
+              disabled={app.isLoading}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium disabled:opacity-50"
+              title={t("run.rerunTitle")}
+            >
+              <RefreshCw className={`w-4 h-4 ${app.isLoading ? "animate-spin" : ""}`} />
+              {t("run.rerun")}
+            </button>
+          )}
+          <div className="relative" onKeyDown={e => e.key === "Escape" && setIsExportMenuOpen(false)}>
+            <button
+              onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+              disabled={isExporting}
+              aria-expanded={isExportMenuOpen}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-60"
+            >
+              <FileCheck className="w-4 h-4" />
+              {isExporting ? t("export.exporting") : t("export.button")}
+            </button>
+            {isExportMenuOpen && (
+              <div className="absolute top-full mt-2 right-0 w-56 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-10">
+                <button
+                  onClick={() => handleExport("pdf")}
+                  className="w-full flex items-center gap-2 px-4 py-2 text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <FileText className="w-4 h-4" />
+                  {t("export.pdf")}
+                </button>
+                <button
+                  onClick={() => handleExport("xlsx")}
+                  className="w-full flex items-center gap-2 px-4 py-2 text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  {t("export.xlsx")}
+                </button>
+                <button
+                  onClick={() => handleExport("csv")}
+                  className="w-full flex items-center gap-2 px-4 py-2 text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <Download className="w-4 h-4" />
+                  {t("export.csv")}
+                </button>
+              </div>
+            )}
+          </div>
+          <Link
+            to="/"
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg font-medium hover:bg-gray-700 transition"
+          >
+            <Upload className="w-4 h-4" />
+            {t("run.uploadNew")}
+          </Link>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 dark:border-gray-700">
+        <div role="tablist" aria-label={t("tabs.label")} className="flex gap-8 overflow-x-auto">
+          {TABS.map((tab, idx) => (
+            <NavLink
+              key={tab}
+              to={tab}
+              id={tabId(tab)}
+              role="tab"
+              aria-selected={tab === activeTab}
+              aria-controls="run-tabpanel"
+              // Only the selected tab is in the page's tab order; the arrow keys reach the rest
+              tabIndex={tab === activeTab || (!activeTab && idx === 0) ? 0 : -1}
+              onKeyDown={e => handleTabKey(e, idx)}
+              className={tabClass}
+            >
+              {t(`tabs.${tab}` as MessageKey, { count: result.anomalies.length })}
+            </NavLink>
+          ))}
+        </div>
+      </div>
+
+      <div
+        id="run-tabpanel"
+        role={activeTab ? "tabpanel" : undefined}
+        aria-labelledby={activeTab ? tabId(activeTab) : undefined}
+      >
+        <Outlet context={context} />
+      </div>
+    </div>
+  );
+}
+
+export default RunLayout;
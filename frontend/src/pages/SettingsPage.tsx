@@ -0,0 +1,105 @@
+import { Monitor, ShieldCheck } from "lucide-react";
+import { useAppContext } from "../lib/appContext";
+import { CURRENCIES, LOCALES, useI18n, type Currency } from "../lib/i18n";
+import { THEMES, type Theme } from "../lib/theme";
+import type { MessageKey } from "../locales/en";
+import DetectionSettingsPanel from "../components/DetectionSettingsPanel";
+
+function SettingsPage() {
+  const {
+    detectionSettings,
+    onSettingsChange,
+    localOnly,
+    onLocalOnlyChange,
+    displaySettings,
+    onDisplayChange,
+    theme,
+    onThemeChange,
+    run,
+    rerun,
+    isLoading,
+  } = useAppContext();
+  const { t } = useI18n();
+
+  // Re-running applies the new settings to the run last on screen
+
+  return (
+    <div className="space-y-6">
+      {/* Language, Currency and Theme */}
+      <div className="max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Monitor className="w-5 h-5 text-blue-500" />
+          {t("display.title")}
+        </h3>
+        <div className="grid sm:grid-cols-3 gap-4 mt-4">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700 dark:text-gray-300">{t("display.locale")}</span>
+            <select
+              value={displaySettings.locale}
+              onChange={e => onDisplayChange({ ...displaySettings, locale: e.target.value })}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {LOCALES.map(locale => (
+                <option key={locale.value} value={locale.value}>{locale.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700 dark:text-gray-300">{t("display.currency")}</span>
+            <select
+              value={displaySettings.currency}
+              onChange={e => onDisplayChange({ ...displaySettings, currency: e.target.value as Currency })}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {CURRENCIES.map(currency => (
+                <option key={currency.value} value={currency.value}>{currency.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700 dark:text-gray-300">{t("display.theme")}</span>
+            <select
+              value={theme}
+              onChange={e => onThemeChange(e.target.value as Theme)}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {THEMES.map(value => (
+                <option key={value} value={value}>{t(`theme.${value}` as MessageKey)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-3">{t("display.help")}</p>
+      </div>
+
+      {/* Privacy */}
+      <div className="max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={localOnly}
+            onChange={e => onLocalOnlyChange(e.target.checked)}
+            className="mt-1 w-4 h-4"
+          />
+          <div>
+            <p className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5 text-green-500" />
+              {t("localOnly.title")}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{t("localOnly.help")}</p>
+          </div>
+        </label>
+      </div>
+
+      <DetectionSettingsPanel
+        settings={detectionSettings}
+        onChange={onSettingsChange}
+        onRerun={run?.upload ? rerun : undefined}
+        isLoading={isLoading}
+        defaultOpen
+      />
+    </div>
+  );
+}
+
+export default SettingsPage;
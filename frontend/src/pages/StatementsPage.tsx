@@ -0,0 +1,18 @@
+import { useRunContext } from "../lib/appContext";
+import { useI18n } from "../lib/i18n";
+import FinancialStatements from "../components/FinancialStatements";
+
+function StatementsPage() {
+  const { run } = useRunContext();
+  const { t } = useI18n();
+
+  return run.result.accounts ? (
+    <FinancialStatements accounts={run.result.accounts} />
+  ) : (
+    <p className="text-gray-600 dark:text-gray-400">
+      {t("statements.unavailable")}
+    </p>
+  );
+}
+
+export default StatementsPage;
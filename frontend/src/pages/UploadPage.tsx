@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import { AlertTriangle, CheckCircle, ShieldCheck, SlidersHorizontal, TrendingUp, Upload } from "lucide-react";
+import { useAppContext } from "../lib/appContext";
+import {
+  LEDGER_FILE_TYPES,
+  guessMapping,
+  isLedgerFile,
+  readLedgerFile,
+  type ColumnMapping,
+  type LedgerLine,
+  type SheetGrid,
+} from "../lib/csvMapping";
+import { matchPreset } from "../lib/detectionSettings";
+import { describeError, useI18n } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+import ColumnMapper from "../components/ColumnMapper";
+
+function UploadPage() {
+  const { detectionSettings, localOnly, isLoading, startUpload, startBatch, setError, setSuccessMessage } = useAppContext();
+  const [pendingCsv, setPendingCsv] = useState<{ fileName: string; sheets: SheetGrid[]; mapping: ColumnMapping } | null>(null);
+  const [isDragActive, setIsDragActive] = useState(false);
+  const activePreset = matchPreset(detectionSettings);
+  const { t } = useI18n();
+
+  // Parse the file in the browser so its columns can be mapped before upload
+  const handleFileChosen = async (file: File) => {
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const sheets = await readLedgerFile(file);
+      setPendingCsv({ fileName: file.name, sheets, mapping: guessMapping(sheets[0].grid) });
+    } catch (err) {
+      setError(describeError(err, t, "upload.readFailed"));
+    }
+  };
+
+  // A single file goes through column mapping; several start a batch
+  const handleFilesChosen = (files: File[]) => {
+    const ledgerFiles = files.filter(file => isLedgerFile(file.name));
+    if (ledgerFiles.length === 0) {
+      setError(t("upload.wrongType"));
+      return;
+    }
+    if (ledgerFiles.length === 1) {
+      handleFileChosen(ledgerFiles[0]);
+      return;
+    }
+    startBatch(ledgerFiles);
+    if (ledgerFiles.length < files.length) {
+      setError(t("upload.skipped", { count: files.length - ledgerFiles.length }));
+    }
+  };
+
+  const handleMappedUpload = (file: File, rows: LedgerLine[]) => {
+    setPendingCsv(null);
+    startUpload(file, rows);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragActive(false);
+    handleFilesChosen(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragActive(true);
+  };
+
+  const handleDragLeave = () => {
+    setIsDragActive(false);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      handleFilesChosen(files);
+    }
+    // Allow picking the same file again after cancelling the mapping step
+    e.target.value = "";
+  };
+
+  if (pendingCsv) {
+    // Column Mapping Step
+    return (
+      <div className="py-6">
+        <ColumnMapper
+          fileName={pendingCsv.fileName}
+          sheets={pendingCsv.sheets}
+          initialMapping={pendingCsv.mapping}
+          onConfirm={handleMappedUpload}
+          onCancel={() => setPendingCsv(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center py-12">
+      {/* The file input stays focusable so the drop zone can be used from the keyboard */}
+      <div
+        role="region"
+        aria-labelledby="uploadTitle"
+        aria-describedby="uploadFormats"
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={`max-w-2xl mx-auto border-2 border-dashed rounded-xl p-12 transition-all duration-300 ${
+          isDragActive
+            ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+            : "border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+        } hover:border-blue-400 dark:hover:border-blue-500`}
+      >
+        <Upload className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500 mb-4" />
+
+        <h2 id="uploadTitle" className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+          {t("upload.title")}
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          {isDragActive ? t("upload.dropHere") : t("upload.dragOrBrowse")}
+        </p>
+
+        <input
+          id="fileInput"
+          type="file"
+          accept={LEDGER_FILE_TYPES.join(",")}
+          multiple
+          onChange={handleFileSelect}
+          disabled={isLoading}
+          aria-describedby="uploadFormats"
+          className="peer sr-only"
+        />
+        <label
+          htmlFor="fileInput"
+          className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition cursor-pointer peer-focus-visible:ring-2 peer-focus-visible:ring-blue-500 peer-focus-visible:ring-offset-2 dark:peer-focus-visible:ring-offset-gray-800 peer-disabled:opacity-50 peer-disabled:cursor-not-allowed"
+        >
+          <Upload className="w-5 h-5" />
+          {t("upload.choose")}
+        </label>
+
+        <p id="uploadFormats" className="mt-4 text-sm text-gray-500 dark:text-gray-400">{t("upload.formats")}</p>
+      </div>
+
+      <p className="mt-6 flex justify-center items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <SlidersHorizontal className="w-4 h-4 text-blue-500" />
+        {t("upload.detectionSettings", { preset: t(activePreset ? `preset.${activePreset.id}` as MessageKey : "preset.custom") })}
+        <Link to="/settings" className="text-blue-600 dark:text-blue-400 hover:underline">{t("common.change")}</Link>
+      </p>
+      {localOnly && (
+        <p className="mt-2 flex justify-center items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <ShieldCheck className="w-4 h-4 text-green-500" />
+          {t("upload.localOnly")}
+        </p>
+      )}
+
+      {/* Features Grid */}
+      <div className="grid md:grid-cols-3 gap-6 mt-12 max-w-4xl mx-auto">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 text-center">
+          <AlertTriangle className="w-8 h-8 text-red-500 mx-auto mb-3" />
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2">{t("features.anomalies")}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t("features.anomaliesText")}</p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 text-center">
+          <TrendingUp className="w-8 h-8 text-blue-500 mx-auto mb-3" />
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2">{t("features.insights")}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t("features.insightsText")}</p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 text-center">
+          <CheckCircle className="w-8 h-8 text-green-500 mx-auto mb-3" />
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2">{t("features.balance")}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t("features.balanceText")}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default UploadPage;
@@ -0,0 +1,233 @@
+import { z } from "zod";
+
+// Rules on the backend that can flag a row, in addition to the IsolationForest outlier test
+export const AnomalyReasonSchema = z.enum([
+  "above_amount_threshold",
+  "one_sided_debit",
+  "one_sided_credit",
+]);
+
+export const AnomalySchema = z.object({
+  items: z.string(),
+  debit: z.number(),
+  credit: z.number(),
+  score: z.number(),
+  reasons: z.array(AnomalyReasonSchema),
+});
+
+export const LedgerRowSchema = z.object({
+  items: z.string(),
+  debit: z.number(),
+  credit: z.number(),
+});
+
+// Per-account totals; score is missing from runs saved before the account page was added
+export const AccountSummarySchema = LedgerRowSchema.extend({
+  score: z.number().optional(),
+});
+
+// Thresholds the backend applied when flagging rows
+export const DetectionSchema = z.object({
+  amount_threshold: z.number(),
+  amount_floor: z.number(),
+  amount_percentile: z.number(),
+  imbalance_threshold: z.number(),
+  contamination: z.number(),
+  rows_analyzed: z.number(),
+});
+
+export const LineKindSchema = z.enum(["debit_only", "credit_only", "mixed"]);
+
+// Summary of the whole cleaned ledger, used by the dashboard charts
+export const DatasetSchema = z.object({
+  // Log-scale bins of line amounts (the larger of debit and credit)
+  histogram: z.array(z.object({
+    start: z.number(),
+    end: z.number(),
+    count: z.number(),
+    anomalies: z.number(),
+  })),
+  // Largest accounts by absolute net balance, with their running share of the total
+  top_accounts: z.array(z.object({
+    items: z.string(),
+    debit: z.number(),
+    credit: z.number(),
+    value: z.number(),
+    cumulative_share: z.number(),
+    is_anomaly: z.boolean(),
+  })),
+  composition: z.array(z.object({
+    kind: LineKindSchema,
+    lines: z.number(),
+    debit: z.number(),
+    credit: z.number(),
+  })),
+  // Every anomaly plus a sample of the remaining rows when the ledger is large
+  points: z.array(LedgerRowSchema.extend({ is_anomaly: z.boolean() })),
+  points_sampled: z.boolean(),
+});
+
+export const BenfordTestSchema = z.object({
+  sample_size: z.number(),
+  // Mean absolute deviation from the expected proportions, judged against Nigrini's cut-offs
+  mad: z.number(),
+  chi_square: z.number(),
+  degrees_of_freedom: z.number(),
+  conformity: z.enum(["close", "acceptable", "marginal", "nonconformity"]),
+  digits: z.array(z.object({
+    digit: z.number(),
+    count: z.number(),
+    observed: z.number(),
+    expected: z.number(),
+  })),
+});
+
+// A dated journal line, as listed in the posting-date checks
+export const JournalRowSchema = LedgerRowSchema.extend({
+  date: z.string(),
+  reference: z.string().nullable(),
+});
+
+// Posting-date checks, only returned when the upload was dated journal lines
+export const DateChecksSchema = z.object({
+  lines: z.number(),
+  start: z.string(),
+  end: z.string(),
+  weekend: z.object({ count: z.number(), rows: z.array(JournalRowSchema) }),
+  period_end: z.object({
+    days: z.number(),
+    months: z.array(z.object({
+      month: z.string(),
+      total: z.number(),
+      period_end_amount: z.number(),
+      share: z.number(),
+      expected_share: z.number(),
+      spike: z.boolean(),
+    })),
+  }),
+  after_close: z.object({
+    close_date: z.string(),
+    count: z.number(),
+    rows: z.array(JournalRowSchema),
+  }).nullable(),
+});
+
+// Extra audit tests run alongside the anomaly model; lists are capped on the backend
+export const AnalyticsSchema = z.object({
+  benford: z.object({
+    first_digit: BenfordTestSchema,
+    first_two_digits: BenfordTestSchema,
+  }),
+  duplicates: z.object({
+    exact: z.array(z.object({ amount: z.number(), rows: z.array(LedgerRowSchema) })),
+    exact_groups: z.number(),
+    near: z.array(z.object({
+      side: z.enum(["debit", "credit"]),
+      amount: z.number(),
+      spread: z.number(),
+      rows: z.array(LedgerRowSchema),
+    })),
+    near_groups: z.number(),
+    tolerance: z.number(),
+  }),
+  round_numbers: z.object({
+    unit: z.number(),
+    count: z.number(),
+    share: z.number(),
+    rows: z.array(LedgerRowSchema),
+  }),
+  just_below_threshold: z.array(z.object({
+    threshold: z.enum(["amount_threshold", "imbalance_threshold"]),
+    value: z.number(),
+    lower: z.number(),
+    count: z.number(),
+    rows: z.array(LedgerRowSchema),
+  })),
+  dates: DateChecksSchema.optional(),
+});
+
+// Deterministic part of the analysis, available before the recommendations
+export const AnalysisSchema = z.object({
+  balance_status: z.string(),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  is_balanced: z.boolean(),
+  detection: DetectionSchema,
+  anomalies: z.array(AnomalySchema),
+  // Missing from runs saved before the charts were added
+  dataset: DatasetSchema.optional(),
+  analytics: AnalyticsSchema.optional(),
+  // Debit and credit totals per account
+  accounts: z.array(AccountSummarySchema).optional(),
+});
+
+export const RecommendationSeveritySchema = z.enum(["high", "medium", "low"]);
+
+export const RecommendationCategorySchema = z.enum([
+  "documentation",
+  "valuation",
+  "cut-off",
+  "authorization",
+  "classification",
+]);
+
+// Defaults keep responses from servers that only send the text usable
+export const RecommendationSchema = z.object({
+  text: z.string(),
+  severity: RecommendationSeveritySchema.default("medium"),
+  category: RecommendationCategorySchema.default("documentation"),
+  // The anomalies' items labels this recommendation addresses
+  items: z.array(z.string()).default([]),
+});
+
+// Which provider answered; fallback is true when the rule-based provider stood in for an LLM
+export const RecommendationProviderSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  model: z.string().nullable(),
+  fallback: z.boolean(),
+  reason: z.string().nullable(),
+});
+
+export const RecommendationsSchema = z.object({
+  // null while pending, for runs saved before providers were recorded, or when the client gave up
+  provider: RecommendationProviderSchema.nullable(),
+  items: z.array(RecommendationSchema),
+  // Set by the client when the recommendations could not be fetched
+  error: z.string().optional(),
+});
+
+// Contract of POST /upload-csv
+export const ApiResponseSchema = AnalysisSchema.extend({
+  recommendations: RecommendationsSchema,
+});
+
+export const StreamStageSchema = z.enum([
+  "parsed",
+  "balance_checked",
+  "anomalies_detected",
+  "recommendations_generating",
+]);
+
+// One line of the newline-delimited JSON from POST /upload-csv/stream
+export const StreamEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("stage"),
+    stage: StreamStageSchema,
+    message: z.string(),
+    rows: z.number().optional(),
+    count: z.number().optional(),
+  }),
+  z.object({ type: z.literal("analysis"), data: AnalysisSchema }),
+  z.object({ type: z.literal("recommendations"), recommendations: RecommendationsSchema }),
+  z.object({ type: z.literal("done") }),
+  z.object({ type: z.literal("error"), detail: z.string() }),
+]);
+
+// Human-readable list of mismatches, e.g. "anomalies.0.debit: expected number, received string"
+export function describeSchemaError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { groupByAccount, guessMapping, readLedgerFile } from "../lib/csvMapping";
+import { FIXTURES, fixtureFile, normalizedFile, normalizedLines, type LedgerFixture } from "./fixtures";
+import { analyzeCsv } from "./mockBackend";
+
+const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+
+async function mappingFor(fixture: LedgerFixture) {
+  const [{ grid }] = await readLedgerFile(fixtureFile(fixture));
+  return guessMapping(grid);
+}
+
+describe("ledger fixtures", () => {
+  it.each(Object.entries(FIXTURES))("%s maps without help and keeps its totals", async (_, fixture) => {
+    const lines = await normalizedLines(fixture);
+
+    expect(sum(lines.map(line => line.debit))).toBe(fixture.totalDebit);
+    expect(sum(lines.map(line => line.credit))).toBe(fixture.totalCredit);
+    expect(groupByAccount(lines)).toHaveLength(fixture.accounts);
+  });
+
+  it("finds the QuickBooks header below the title rows", async () => {
+    expect(await mappingFor(FIXTURES.quickbooks)).toMatchObject({
+      headerRow: 3,
+      items: "Account",
+      debit: "Debit",
+      credit: "Credit",
+      date: "",
+    });
+  });
+
+  it("recognises the Sage export as a journal", async () => {
+    expect(await mappingFor(FIXTURES.sageJournal)).toMatchObject({ items: "Account", date: "Date", reference: "Ref" });
+
+    const [first] = await normalizedLines(FIXTURES.sageJournal);
+    expect(first).toEqual({ items: "Cash at bank - KCB", debit: 450000, credit: 0, date: "2026-01-02", reference: "JV-0001" });
+  });
+
+  it.each(Object.entries(FIXTURES))("%s analyses to its expected balance", async (_, fixture) => {
+    const file = await normalizedFile(fixture);
+    const result = analyzeCsv(file.name, await file.text());
+
+    expect(result.total_debit).toBe(fixture.totalDebit);
+    expect(result.total_credit).toBe(fixture.totalCredit);
+    expect(result.is_balanced).toBe(fixture.totalDebit === fixture.totalCredit);
+    expect(result.accounts).toHaveLength(fixture.accounts);
+  });
+});
@@ -0,0 +1,40 @@
+import { buildNormalizedFile, guessMapping, normalizeRows, readLedgerFile, toTable, type LedgerLine } from "../lib/csvMapping";
+import kenyanSme from "./fixtures/kenyan-sme-trial-balance.csv?raw";
+import quickbooks from "./fixtures/quickbooks-trial-balance.csv?raw";
+import sageJournal from "./fixtures/sage-journal.csv?raw";
+import unbalanced from "./fixtures/unbalanced-trial-balance.csv?raw";
+
+export interface LedgerFixture {
+  fileName: string;
+  csv: string;
+  // Expected totals, checked in fixtures.test.ts so the files cannot drift
+  totalDebit: number;
+  totalCredit: number;
+  accounts: number;
+}
+
+// Trial balances and a journal shaped like real exports from Kenyan SMEs
+export const FIXTURES = {
+  // Plain Account/Debit/Credit export with a large one-sided director's current account
+  kenyanSme: { fileName: "kenyan-sme-trial-balance.csv", csv: kenyanSme, totalDebit: 81324801, totalCredit: 81324801, accounts: 33 },
+  // The same ledger with salaries transposed (7,230,000 for 7,320,000)
+  unbalanced: { fileName: "unbalanced-trial-balance.csv", csv: unbalanced, totalDebit: 81234801, totalCredit: 81324801, accounts: 33 },
+  // QuickBooks layout: title rows above the header and amounts such as "KES 1,234.00"
+  quickbooks: { fileName: "quickbooks-trial-balance.csv", csv: quickbooks, totalDebit: 81324801, totalCredit: 81324801, accounts: 33 },
+  // Sage journal with day-first dates, references and a Sunday posting
+  sageJournal: { fileName: "sage-journal.csv", csv: sageJournal, totalDebit: 4706650, totalCredit: 4706650, accounts: 12 },
+} satisfies Record<string, LedgerFixture>;
+
+export const fixtureFile = (fixture: LedgerFixture) => new File([fixture.csv], fixture.fileName, { type: "text/csv" });
+
+// A fixture's lines as the upload page reads them with the guessed column mapping
+export async function normalizedLines(fixture: LedgerFixture): Promise<LedgerLine[]> {
+  const [{ grid }] = await readLedgerFile(fixtureFile(fixture));
+  const mapping = guessMapping(grid);
+  return normalizeRows(mapping, toTable(grid, mapping.headerRow));
+}
+
+// The items/debit/credit file the upload page sends for a fixture
+export async function normalizedFile(fixture: LedgerFixture): Promise<File> {
+  return buildNormalizedFile(await normalizedLines(fixture), fixture.fileName);
+}
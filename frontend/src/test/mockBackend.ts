@@ -0,0 +1,144 @@
+import { http, HttpResponse } from "msw";
+import { DEFAULT_DETECTION_SETTINGS, type DetectionSettings } from "../lib/detectionSettings";
+import {
+  LedgerError,
+  checkBalance,
+  detectAnomalies,
+  parseLedger,
+  runAuditAnalytics,
+  runDateChecks,
+  summarizeAccounts,
+  summarizeDataset,
+} from "../lib/pipeline";
+import { ruleBasedRecommendations } from "../lib/recommendations";
+import type { AnalysisResult, ApiResponse, Recommendations, StreamEvent } from "../types";
+
+// Local stand-in for the FastAPI backend. It answers POST /upload-csv and /upload-csv/stream
+// by running the browser pipeline, which mirrors api.py, over the uploaded file, so the
+// dashboard sees the same contract it gets in production. Tests swap in single responses
+// with server.use(...) to simulate failures.
+
+export const UPLOAD_URL = "*/upload-csv";
+export const STREAM_URL = "*/upload-csv/stream";
+
+// What the backend reports when no LLM is configured
+export const RULES_PROVIDER: NonNullable<Recommendations["provider"]> = {
+  id: "rules",
+  label: "Rule-based",
+  model: null,
+  fallback: false,
+  reason: null,
+};
+
+const numberField = (form: FormData, name: string) => {
+  const value = form.get(name);
+  return typeof value === "string" && value !== "" ? Number(value) : null;
+};
+
+// The optional form fields, with the backend's defaults for anything left out
+function readSettings(form: FormData): DetectionSettings {
+  const defaults = DEFAULT_DETECTION_SETTINGS;
+  const closeDate = form.get("close_date");
+  return {
+    amountFloor: numberField(form, "amount_floor") ?? defaults.amountFloor,
+    amountPercentile: numberField(form, "amount_percentile") ?? defaults.amountPercentile,
+    imbalanceThreshold: numberField(form, "imbalance_threshold") ?? defaults.imbalanceThreshold,
+    contamination: numberField(form, "contamination"),
+    closeDate: typeof closeDate === "string" && closeDate !== "" ? closeDate : null,
+  };
+}
+
+// The deterministic part of the response, as analyse_upload builds it
+export function analyzeCsv(fileName: string, text: string, settings = DEFAULT_DETECTION_SETTINGS): AnalysisResult {
+  const { rows, journal } = parseLedger(fileName, text);
+  const balance = checkBalance(rows);
+  const { scored, anomalies, detection } = detectAnomalies(rows, settings);
+  const analytics = runAuditAnalytics(rows, detection);
+  if (journal) {
+    analytics.dates = runDateChecks(journal, settings.closeDate);
+  }
+  return {
+    ...balance,
+    detection,
+    anomalies,
+    dataset: summarizeDataset(scored),
+    analytics,
+    accounts: summarizeAccounts(scored),
+  };
+}
+
+// The full response when no LLM is configured
+export function withRuleRecommendations(analysis: AnalysisResult): ApiResponse {
+  const { items } = ruleBasedRecommendations(analysis.anomalies, analysis);
+  return { ...analysis, recommendations: { provider: RULES_PROVIDER, items } };
+}
+
+// FastAPI's HTTPException body
+export const detailResponse = (detail: string, status = 400) => HttpResponse.json({ detail }, { status });
+
+// Newline-delimited JSON, one event per line, as /upload-csv/stream sends it
+export const ndjsonResponse = (events: unknown[]) =>
+  new HttpResponse(events.map(event => JSON.stringify(event)).join("\n") + "\n", {
+    headers: { "Content-Type": "application/x-ndjson" },
+  });
+
+// The events the stream sends for a finished analysis, in order
+export function streamEvents(response: ApiResponse): StreamEvent[] {
+  const { recommendations, ...analysis } = response;
+  return [
+    { type: "stage", stage: "parsed", message: `Parsed ${analysis.detection.rows_analyzed} rows`, rows: analysis.detection.rows_analyzed },
+    { type: "stage", stage: "balance_checked", message: analysis.balance_status },
+    { type: "stage", stage: "anomalies_detected", message: `Found ${analysis.anomalies.length} significant anomalies`, count: analysis.anomalies.length },
+    { type: "analysis", data: analysis },
+    { type: "stage", stage: "recommendations_generating", message: "Generating recommendations" },
+    { type: "recommendations", recommendations },
+    { type: "done" },
+  ];
+}
+
+// Read the multipart upload and analyse it; bad ledgers get the backend's 400 { detail }
+async function handleUpload(request: Request): Promise<ApiResponse | Response> {
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) return detailResponse("Field required", 422);
+  try {
+    return withRuleRecommendations(analyzeCsv(file.name, await file.text(), readSettings(form)));
+  } catch (err) {
+    if (err instanceof LedgerError) return detailResponse(err.message);
+    throw err;
+  }
+}
+
+export const handlers = [
+  http.post(UPLOAD_URL, async ({ request }) => {
+    const result = await handleUpload(request);
+    return result instanceof Response ? result : HttpResponse.json(result);
+  }),
+  http.post(STREAM_URL, async ({ request }) => {
+    const result = await handleUpload(request);
+    return result instanceof Response ? result : ndjsonResponse(streamEvents(result));
+  }),
+];
+
+// A response far larger than any real trial balance: `count` accounts, every one flagged
+export function largeResponse(count: number): ApiResponse {
+  const rows = Array.from({ length: count }, (_, i) => ({ items: `Account ${i + 1}`, debit: 1000 + i, credit: 0 }));
+  const total = rows.reduce((sum, row) => sum + row.debit, 0);
+  return {
+    balance_status: `Unbalanced: Total Debit = ${total.toFixed(2)}, Total Credit = 0.00`,
+    total_debit: total,
+    total_credit: 0,
+    is_balanced: false,
+    detection: {
+      amount_threshold: 10000,
+      amount_floor: 10000,
+      amount_percentile: 95,
+      imbalance_threshold: 5000,
+      contamination: 0.05,
+      rows_analyzed: count,
+    },
+    anomalies: rows.map((row, i) => ({ ...row, score: i / count, reasons: ["one_sided_debit"] })),
+    accounts: rows.map((row, i) => ({ ...row, score: i / count })),
+    recommendations: { provider: RULES_PROVIDER, items: [] },
+  };
+}
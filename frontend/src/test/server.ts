@@ -0,0 +1,5 @@
+import { setupServer } from "msw/node";
+import { handlers } from "./mockBackend";
+
+// Shared by every test file through setup.ts
+export const server = setupServer(...handlers);
@@ -0,0 +1,68 @@
+import "@testing-library/jest-dom/vitest";
+import "fake-indexeddb/auto";
+import { Blob as NodeBlob, File as NodeFile } from "node:buffer";
+import { cleanup } from "@testing-library/react";
+import { afterAll, afterEach, beforeAll } from "vitest";
+import { server } from "./server";
+
+// Any request the mock does not answer fails the test instead of reaching a real backend
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+
+afterEach(() => {
+  server.resetHandlers();
+  cleanup();
+  localStorage.clear();
+});
+
+afterAll(() => server.close());
+
+// Node's fetch cannot send jsdom's Blob, File or FormData without losing the file name, so
+// uploads would reach the mock unnamed. Tests use Node's classes instead, with a FileReader
+// that reads them for Papa Parse. jsdom hides Node's FormData, so take it from a parsed body.
+const NodeFormData = (await new Response("", {
+  headers: { "Content-Type": "application/x-www-form-urlencoded" },
+}).formData()).constructor;
+
+class BlobTextReader extends EventTarget {
+  result: string | null = null;
+  error: Error | null = null;
+  onload: ((event: { target: BlobTextReader }) => void) | null = null;
+  onerror: ((event: { target: BlobTextReader }) => void) | null = null;
+
+  readAsText(blob: Blob) {
+    blob.text().then(
+      text => {
+        this.result = text;
+        this.onload?.({ target: this });
+      },
+      (err: Error) => {
+        this.error = err;
+        this.onerror?.({ target: this });
+      }
+    );
+  }
+}
+
+Object.assign(globalThis, { Blob: NodeBlob, File: NodeFile, FormData: NodeFormData, FileReader: BlobTextReader });
+
+// Recharts' ResponsiveContainer measures itself with ResizeObserver, which jsdom lacks
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+// jsdom has no matchMedia; the OS is taken to prefer light unless a test spies on it
+window.matchMedia ??= (query: string) => ({
+  matches: false,
+  media: query,
+  onchange: null,
+  addEventListener() {},
+  removeEventListener() {},
+  addListener() {},
+  removeListener() {},
+  dispatchEvent: () => false,
+});
+
+// Focusing the anomaly table from a chart scrolls it into view, which jsdom does not lay out
+Element.prototype.scrollIntoView ??= () => {};
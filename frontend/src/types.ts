@@ -1,11 +1,59 @@
-export interface Anomaly {
-  items: string;
-  debit: number;
-  credit: number;
-}
-
-export interface ApiResponse {
-  balance_status: string;
-  anomalies: Anomaly[];
-  recommendations: string;
-}
\ No newline at end of file
+import type { z } from "zod";
+import type {
+  AccountSummarySchema,
+  AnalysisSchema,
+  AnalyticsSchema,
+  AnomalyReasonSchema,
+  AnomalySchema,
+  ApiResponseSchema,
+  BenfordTestSchema,
+  DatasetSchema,
+  DateChecksSchema,
+  DetectionSchema,
+  LedgerRowSchema,
+  RecommendationCategorySchema,
+  RecommendationProviderSchema,
+  RecommendationSchema,
+  RecommendationSeveritySchema,
+  RecommendationsSchema,
+  StreamEventSchema,
+  StreamStageSchema,
+} from "./schema";
+
+// Types are inferred from the runtime schemas in schema.ts so the two cannot drift apart
+export type AnomalyReason = z.infer<typeof AnomalyReasonSchema>;
+
+export type Anomaly = z.infer<typeof AnomalySchema>;
+
+export type Detection = z.infer<typeof DetectionSchema>;
+
+// One account line in the items/debit/credit shape the backend analyses
+export type LedgerRow = z.infer<typeof LedgerRowSchema>;
+
+export type AccountSummary = z.infer<typeof AccountSummarySchema>;
+
+export type Dataset = z.infer<typeof DatasetSchema>;
+
+export type Analytics = z.infer<typeof AnalyticsSchema>;
+
+export type DateChecks = z.infer<typeof DateChecksSchema>;
+
+export type BenfordTest = z.infer<typeof BenfordTestSchema>;
+
+export type RecommendationSeverity = z.infer<typeof RecommendationSeveritySchema>;
+
+export type RecommendationCategory = z.infer<typeof RecommendationCategorySchema>;
+
+export type Recommendation = z.infer<typeof RecommendationSchema>;
+
+export type RecommendationProvider = z.infer<typeof RecommendationProviderSchema>;
+
+export type Recommendations = z.infer<typeof RecommendationsSchema>;
+
+export type ApiResponse = z.infer<typeof ApiResponseSchema>;
+
+export type AnalysisResult = z.infer<typeof AnalysisSchema>;
+
+export type StreamStage = z.infer<typeof StreamStageSchema>;
+
+export type StreamEvent = z.infer<typeof StreamEventSchema>;
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Backend base URL, e.g. "/api" behind the Netlify proxy or "http://localhost:8000"
+  readonly VITE_API_BASE_URL?: string;
+  // Upload timeout in milliseconds
+  readonly VITE_API_TIMEOUT_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
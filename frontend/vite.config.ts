@@ -1,9 +1,32 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss(),],
-  
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '')
+
+  return {
+    plugins: [react(), tailwindcss(),],
+    // The local analysis worker imports modules that load xlsx lazily, which needs ES module workers
+    worker: {
+      format: 'es',
+    },
+    server: {
+      // Mirror the Netlify /api/* redirect so VITE_API_BASE_URL=/api works locally
+      proxy: {
+        '/api': {
+          target: env.BACKEND_URL || 'http://localhost:8000',
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api/, ''),
+        },
+      },
+    },
+    // The backend is replaced by the mock in src/test/server.ts, so tests never need it running
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./src/test/setup.ts'],
+    },
+  }
 })